@@ -1,8 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useTheme } from './hooks/useTheme';
-import { useSequencer } from './hooks/useSequencer';
-import { compressConfig, decompressConfig } from './utils/compression';
+import { useSequencer, HistoryEntry } from './hooks/useSequencer';
+import { useSoundEngine } from './hooks/useSoundEngine';
+import { compressConfigV5, decompressShareConfig } from './utils/compression';
+import { SchemaIssue, stampDeck, summarizeIssues } from './utils/deckSchema';
+import { DecodedImport, ImportMode } from './utils/deckImport';
+import { buildShareUrl, isSharedLink, readShareParams, shareLinkLimit } from './utils/shareLink';
+import { isPresenterSupported } from './utils/presenter';
 import { GeoConfig } from './types';
+import { STORAGE_WARN_RATIO } from './utils/storage';
+import { cardDurationMs } from './utils/timing';
 import { useToast } from './components/ui/Toast';
 
 import Header from './components/Header';
@@ -12,6 +19,10 @@ import PlaybackControls from './components/PlaybackControls';
 import GeometryTuner from './components/GeometryTuner';
 import SequenceManager from './components/SequenceManager';
 import ImportModal from './components/ImportModal';
+import HistoryPanel from './components/HistoryPanel';
+import KeyframeEditor from './components/KeyframeEditor';
+import PresenterView from './components/PresenterView';
+import SyncConflictBanner from './components/SyncConflictBanner';
 
 const App: React.FC = () => {
   // --- Hooks & State ---
@@ -19,46 +30,105 @@ const App: React.FC = () => {
   const { showToast } = useToast();
 
   const sequencer = useSequencer();
+  useSoundEngine(sequencer.activeSequence, sequencer.sound);
 
-  // Destructive actions get an inline Undo instead of being irreversible.
+  // Destructive actions get an inline Undo instead of being irreversible. The
+  // toast outlives this render, so it must reach the history as it is when
+  // clicked, and it undoes only the step its action recorded: once other
+  // edits follow, that step is left to the history panel.
+  const undoStepRef = useRef(sequencer.undoStep);
+  undoStepRef.current = sequencer.undoStep;
+  const undoAction = (step: HistoryEntry) => () => {
+      if (!undoStepRef.current(step)) {
+          showToast('The deck was edited since — undo from History instead', { type: 'info' });
+      }
+  };
   const handleDeleteSequence = (id: number) => {
-      sequencer.deleteSequence(id);
-      showToast('Card deleted', { type: 'info', action: { label: 'Undo', onClick: sequencer.undo } });
+      const step = sequencer.deleteSequence(id);
+      if (!step) return;
+      showToast('Card deleted', { type: 'info', action: { label: 'Undo', onClick: undoAction(step) } });
   };
   const handleResetSequences = () => {
-      sequencer.resetSequences();
-      showToast('All cards reset to defaults', { type: 'info', action: { label: 'Undo', onClick: sequencer.undo } });
+      const step = sequencer.resetSequences();
+      showToast('All cards reset to defaults', { type: 'info', action: { label: 'Undo', onClick: undoAction(step) } });
   };
   
+  // Deck (workspace) actions. Deleting a deck is undoable like deleting a card.
+  const handleDeckError = (err: unknown) => {
+      console.error('Deck action failed', err);
+      showToast('Could not update your decks', { type: 'error' });
+  };
+  const handleSwitchDeck = (id: string) => {
+      sequencer.switchDeck(id).catch(handleDeckError);
+  };
+  const handleCreateDeck = () => {
+      sequencer.createDeck().then((created) => { if (created) showToast('New deck created', { type: 'success' }); }).catch(handleDeckError);
+  };
+  const handleDuplicateDeck = (id: string) => {
+      sequencer.duplicateDeck(id).then((created) => { if (created) showToast('Deck duplicated', { type: 'success' }); }).catch(handleDeckError);
+  };
+  const handleRenameDeck = (id: string, name: string) => {
+      sequencer.renameDeck(id, name).catch(handleDeckError);
+  };
+  const handleDeleteDeck = (id: string) => {
+      sequencer.deleteDeck(id).then((removed) => {
+          if (!removed) return;
+          showToast(`Deck "${removed.name}" deleted`, {
+              type: 'info',
+              action: { label: 'Undo', onClick: () => { sequencer.restoreDeck(removed).catch(handleDeckError); } },
+          });
+      }).catch(handleDeckError);
+  };
+
+  // Surface persistence problems as they happen, not when the tab is closed.
+  const storageError = sequencer.storage.error;
+  useEffect(() => {
+      if (storageError) showToast(storageError, { type: 'error', duration: 0 });
+  }, [storageError]);
+
+  const { conflict: syncConflict, mergedAt } = sequencer.sync;
+  useEffect(() => {
+      if (mergedAt) showToast('Merged changes from another tab', { type: 'info' });
+  }, [mergedAt]);
+
+  const { usage } = sequencer.storage;
+  const isStorageNearFull = !!usage && usage.usage / usage.quota >= STORAGE_WARN_RATIO;
+  useEffect(() => {
+      if (isStorageNearFull) {
+          showToast('Browser storage is almost full — Save Config to keep a copy of your deck', { type: 'info', duration: 8000 });
+      }
+  }, [isStorageNearFull]);
+
   // Open the editor by default on a normal landing so the build/tune workflow
-  // is immediately visible; stay collapsed when arriving via a shared ?c= link
-  // (the mount effect also enforces this for ?c= loads).
+  // is immediately visible; stay collapsed when arriving via a shared link
+  // (the mount effect also enforces this for shared loads).
   const [showEditor, setShowEditor] = useState(() => {
      if (typeof window !== 'undefined') {
-         return !new URLSearchParams(window.location.search).has('c');
+         return !isSharedLink();
      }
      return true;
   });
   const [showImportModal, setShowImportModal] = useState(false);
+  const [isPresenting, setIsPresenting] = useState(false);
 
   // Initialize View State from URL to prevent flash
   const [isFullScreen, setIsFullScreen] = useState(() => {
      if (typeof window !== 'undefined') {
-         return new URLSearchParams(window.location.search).has('c');
+         return isSharedLink();
      }
      return false;
   });
 
   const [isViewOnly, setIsViewOnly] = useState(() => {
      if (typeof window !== 'undefined') {
-         return new URLSearchParams(window.location.search).has('c');
+         return isSharedLink();
      }
      return false;
   });
   
   // URL Loading Logic
-  useEffect(() => {
-      const params = new URLSearchParams(window.location.search);
+  const loadShareLink = () => {
+      const params = readShareParams();
       
       // Theme Check
       const themeParam = params.get('t');
@@ -69,15 +139,11 @@ const App: React.FC = () => {
       // Config Check
       const configParam = params.get('c');
       if (configParam) {
-          const loaded = decompressConfig(configParam);
-          if (loaded) {
-              // Load sequences (which now contain their own geoConfig)
-              sequencer.loadSequences(loaded.sequences);
-              
-              // Load Timing
-              if (loaded.timingMs) {
-                  sequencer.setTimingMs(loaded.timingMs);
-              }
+          decompressShareConfig(configParam).then(loaded => {
+              if (!loaded) return;
+              if (loaded.issues?.length) console.warn('Repaired while loading the shared deck:', loaded.issues);
+              // Load sequences (which now contain their own geoConfig) and timing
+              sequencer.loadSequences(loaded.sequences, loaded.timingMs, loaded.transition);
               
               // Ensure View State is synced (redundant but safe)
               setIsViewOnly(true);
@@ -88,32 +154,74 @@ const App: React.FC = () => {
               setTimeout(() => {
                   sequencer.setPlaying(true);
               }, 500);
-          }
+          });
       } 
-  }, []); // Run once on mount
+  };
+
+  // On load, and whenever a #c= link is pasted into (or followed within) an
+  // open tab, which only changes the hash. Goes through a ref so the
+  // listener always reaches this render's sequencer. Whether the user's deck
+  // is saved is settled once per page load, so when a share hash appears in
+  // a working tab (or Back takes it away again) the page reloads instead:
+  // the shared deck must never reach storage, and leaving it must bring the
+  // stored deck and the editor back.
+  const [openedSharedLink] = useState(isSharedLink);
+  const loadShareLinkRef = useRef(loadShareLink);
+  loadShareLinkRef.current = loadShareLink;
+  useEffect(() => {
+      loadShareLinkRef.current();
+      const handleHashChange = () => {
+          if (isSharedLink() !== openedSharedLink) window.location.reload();
+          else loadShareLinkRef.current();
+      };
+      window.addEventListener('hashchange', handleHashChange);
+      return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep
+  // the browser's own undo while focused; sliders and buttons don't need it.
+  useEffect(() => {
+      const handleKey = (e: KeyboardEvent) => {
+          if (isViewOnly || !(e.ctrlKey || e.metaKey) || e.altKey) return;
+          const key = e.key.toLowerCase();
+          if (key !== 'z' && key !== 'y') return;
+          const el = e.target as HTMLElement | null;
+          if (el && (el.isContentEditable || el.tagName === 'TEXTAREA' ||
+              (el.tagName === 'INPUT' && !['range', 'checkbox', 'radio', 'button'].includes((el as HTMLInputElement).type)))) {
+              return;
+          }
+          e.preventDefault();
+          if (key === 'y' || e.shiftKey) sequencer.redo();
+          else sequencer.undo();
+      };
+      window.addEventListener('keydown', handleKey);
+      return () => window.removeEventListener('keydown', handleKey);
+  });
 
   // Helper to get active config
   const activeGeoConfig = sequencer.activeSequence.geoConfig;
+  const activeDurationMs = cardDurationMs(sequencer.activeSequence, sequencer.timingMs);
 
   const handleGeoConfigChange = (newConfig: GeoConfig) => {
-    const activeId = sequencer.activeSequence.id;
-    
-    // Check if length changed, if so resize data
-    if (newConfig.sequenceLength !== activeGeoConfig.sequenceLength) {
-        sequencer.resizeSequence(activeId, newConfig.sequenceLength);
-    }
-    
-    // Update config for active sequence
-    sequencer.updateSequence(activeId, { geoConfig: newConfig });
+    // Resizes the card's steps too when the sequence length changes
+    sequencer.updateGeoConfig(sequencer.activeSequence.id, newConfig);
   };
 
-  const handleShareUrl = () => {
-      const encoded = compressConfig(activeGeoConfig, sequencer.sequences, sequencer.timingMs);
-      const themeParam = isDarkMode ? '&t=dark' : '&t=light';
-      const url = `${window.location.origin}${window.location.pathname}?c=${encoded}${themeParam}`;
-      
-      navigator.clipboard.writeText(url).then(() => {
-          showToast('Share link copied to clipboard', { type: 'success' });
+  // The config goes in the #fragment by default so it never reaches server
+  // logs; `inQuery` (Shift-click) gives the older ?c= form for tools that
+  // drop fragments.
+  const handleShareUrl = (inQuery = false) => {
+      compressConfigV5(activeGeoConfig, sequencer.sequences, sequencer.timingMs, sequencer.transition).then(encoded => {
+          const url = buildShareUrl(encoded, isDarkMode ? 'dark' : 'light', !inQuery);
+          return navigator.clipboard.writeText(url).then(() => url.length);
+      }).then(length => {
+          const limit = shareLinkLimit(length);
+          const chars = `${length.toLocaleString()} characters`;
+          if (limit) {
+              showToast(`Share link copied (${chars}) — longer than ${limit.length.toLocaleString()}, so ${limit.where} may cut it off. Save Config is safer for big decks.`, { type: 'info', duration: 8000 });
+          } else {
+              showToast(`Share link copied to clipboard (${chars})`, { type: 'success' });
+          }
       }).catch(err => {
           console.error("Failed to copy", err);
           showToast('Could not copy the link — try again', { type: 'error' });
@@ -121,10 +229,13 @@ const App: React.FC = () => {
   };
   
   const handleSaveConfig = () => {
-      const configData = {
+      const configData = stampDeck({
+          name: sequencer.deckName,
           sequences: sequencer.sequences,
-          timingMs: sequencer.timingMs
-      };
+          timingMs: sequencer.timingMs,
+          transition: sequencer.transition,
+          sound: sequencer.sound
+      });
       const jsonString = JSON.stringify(configData, null, 2);
       
       try {
@@ -132,79 +243,50 @@ const App: React.FC = () => {
           const url = URL.createObjectURL(blob);
           const a = document.createElement('a');
           a.href = url;
-          a.download = 'qrp_config.json';
+          const slug = sequencer.deckName.replace(/[^a-z0-9]/gi, '_').replace(/_+/g, '_').toLowerCase();
+          a.download = `${slug || 'qrp'}_config.json`;
           document.body.appendChild(a);
           a.click();
           document.body.removeChild(a);
           URL.revokeObjectURL(url);
-          showToast('Saved qrp_config.json', { type: 'success' });
+          showToast(`Saved ${a.download}`, { type: 'success' });
       } catch (err) {
           console.error("Failed to save", err);
           showToast('Could not save the configuration', { type: 'error' });
       }
   };
 
-  const handleImportInput = (input: string) => {
-      try {
-          // 1. Try JSON parsing first
-          if (input.trim().startsWith('{')) {
-             try {
-                 const data = JSON.parse(input);
-                 // Support V2/V3 import (sequences have geoConfig)
-                 if (data.sequences) {
-                     // Loading a config replaces the current deck.
-                     sequencer.loadSequences(data.sequences);
-                     if (data.timingMs) sequencer.setTimingMs(data.timingMs);
-                     setIsViewOnly(false);
-                     showToast(`Loaded ${data.sequences.length} card${data.sequences.length === 1 ? '' : 's'}`, { type: 'success' });
-                     return;
-                 }
-             } catch (e) {
-                 // Not valid JSON, fall through to URL
-             }
-          }
-          
-          // 2. Try URL parsing
-          let urlObj;
-          try {
-             urlObj = new URL(input);
-          } catch(e) {
-             // If relative path or partial
-             if (input.includes('c=')) {
-                 urlObj = new URL(window.location.origin + (input.startsWith('/') ? '' : '/') + input);
-             }
-          }
-
-          if (urlObj) {
-              const params = new URLSearchParams(urlObj.search);
-              
-              // Check for theme in import
-              const themeParam = params.get('t');
-              if (themeParam) {
-                  setDarkMode(themeParam === 'dark');
-              }
+  // Repairs made while loading are listed in the console; the toast names the first.
+  const showLoaded = (count: number, issues: SchemaIssue[]) => {
+      const loaded = `Loaded ${count} card${count === 1 ? '' : 's'}`;
+      if (issues.length === 0) {
+          showToast(loaded, { type: 'success' });
+          return;
+      }
+      console.warn('Repaired while loading:', issues);
+      showToast(`${loaded} — repaired ${issues.length} problem${issues.length === 1 ? '' : 's'}: ${summarizeIssues(issues)}`, { type: 'info', duration: 8000 });
+  };
 
-              const configParam = params.get('c');
-              
-              if (configParam) {
-                  const loaded = decompressConfig(configParam);
-                  if (loaded) {
-                      sequencer.loadSequences(loaded.sequences);
-                      if (loaded.timingMs) sequencer.setTimingMs(loaded.timingMs);
-                      setIsViewOnly(false);
-                      showToast(`Loaded ${loaded.sequences.length} card${loaded.sequences.length === 1 ? '' : 's'}`, { type: 'success' });
-                  } else {
-                      showToast('That URL has invalid configuration data', { type: 'error' });
-                  }
-              } else {
-                  showToast('No configuration found in that URL', { type: 'error' });
-              }
-          } else {
-              throw new Error("Invalid Input");
-          }
-      } catch (e) {
-          showToast('Unrecognized input — paste a QRP link or JSON config', { type: 'error' });
+  // From the import dialog: a replace loads the deck as a whole (its timing,
+  // transition and sound included); append and merge only bring cards over.
+  const handleImport = ({ deck, issues, theme }: DecodedImport, mode: ImportMode) => {
+      if (theme) setDarkMode(theme === 'dark');
+      setIsViewOnly(false);
+      if (mode === 'replace') {
+          sequencer.loadSequences(deck.sequences, deck.timingMs, deck.transition, deck.sound);
+          showLoaded(deck.sequences.length, issues);
+          return;
       }
+      const plan = sequencer.mergeSequences(deck.sequences, mode);
+      if (!plan) return;
+      const renamed = plan.cards.filter(c => c.renamedFrom).length;
+      const summary = [
+          plan.added > 0 ? `Added ${plan.added} card${plan.added === 1 ? '' : 's'}` : '',
+          plan.updated > 0 ? `updated ${plan.updated}` : '',
+          renamed > 0 ? `renamed ${renamed} to avoid clashes` : '',
+      ].filter(Boolean).join(', ');
+      if (issues.length > 0) console.warn('Repaired while loading:', issues);
+      showToast(summary.charAt(0).toUpperCase() + summary.slice(1), { type: 'success' });
   };
 
   return (
@@ -219,7 +301,18 @@ const App: React.FC = () => {
         onShare={handleShareUrl}
         onSave={handleSaveConfig}
         onImport={() => setShowImportModal(true)}
+        onPresent={isPresenterSupported() ? () => setIsPresenting(true) : undefined}
         isViewOnly={isViewOnly}
+        deckSwitcher={sequencer.decksEnabled ? {
+            decks: sequencer.decks,
+            currentId: sequencer.deckId,
+            currentName: sequencer.deckName,
+            onSwitch: handleSwitchDeck,
+            onCreate: handleCreateDeck,
+            onRename: handleRenameDeck,
+            onDuplicate: handleDuplicateDeck,
+            onDelete: handleDeleteDeck,
+        } : undefined}
       />
 
       {isFullScreen && (
@@ -235,16 +328,45 @@ const App: React.FC = () => {
              imageSrcDark={sequencer.activeSequence.imageSrcDark}
              imageInvert={sequencer.activeSequence.imageInvert}
              imageFrame={sequencer.activeSequence.imageFrame}
+             cardId={sequencer.activeSequence.id}
+             transition={sequencer.transition}
+             animation={sequencer.activeSequence.animation}
+             durationMs={activeDurationMs}
+          />
+      )}
+
+      {isPresenting && (
+          <PresenterView
+             sequences={sequencer.sequences}
+             activeIndex={sequencer.activeIndex}
+             isPlaying={sequencer.isPlaying}
+             timingMs={sequencer.timingMs}
+             transition={sequencer.transition}
+             isDarkMode={isDarkMode}
+             togglePlay={sequencer.togglePlay}
+             selectSequence={sequencer.selectSequence}
+             onEnd={() => setIsPresenting(false)}
           />
       )}
 
       {showImportModal && (
           <ImportModal 
              onClose={() => setShowImportModal(false)}
-             onImport={handleImportInput}
+             current={sequencer.sequences}
+             onImport={handleImport}
           />
       )}
 
+      {syncConflict && (
+          <div className="w-full max-w-[1600px] mx-auto px-4 md:px-6 lg:px-10 pt-4 md:pt-6">
+              <SyncConflictBanner
+                 conflict={syncConflict}
+                 onKeepMine={sequencer.sync.keepMine}
+                 onTakeTheirs={() => { sequencer.sync.takeTheirs().catch(handleDeckError); }}
+              />
+          </div>
+      )}
+
       <main className="flex-1 w-full max-w-[1600px] mx-auto p-4 md:p-6 lg:p-10 flex flex-col lg:flex-row lg:items-start gap-6 lg:gap-8 lg:min-h-[calc(100vh-var(--header-h))]">
 
         {/* Left Column: Visualizer & Controls.
@@ -262,6 +384,16 @@ const App: React.FC = () => {
                 imageSrcDark={sequencer.activeSequence.imageSrcDark}
                 imageInvert={sequencer.activeSequence.imageInvert}
                 imageFrame={sequencer.activeSequence.imageFrame}
+                cardId={sequencer.activeSequence.id}
+                transition={sequencer.transition}
+                animation={sequencer.activeSequence.animation}
+                durationMs={activeDurationMs}
+                cards={sequencer.sequences}
+                activeIndex={sequencer.activeIndex}
+                onUpdateGeoConfig={sequencer.updateGeoConfig}
+                onUpdateSequence={sequencer.updateSequence}
+                onSelectCard={sequencer.selectSequence}
+                onReorder={sequencer.reorderSequences}
             />
 
             <PlaybackControls
@@ -270,6 +402,8 @@ const App: React.FC = () => {
                 activeIndex={sequencer.activeIndex}
                 sequences={sequencer.sequences}
                 selectSequence={sequencer.selectSequence}
+                sound={sequencer.sound}
+                onSetSound={sequencer.setSound}
             />
         </div>
 
@@ -286,6 +420,10 @@ const App: React.FC = () => {
                     isPlaying={sequencer.isPlaying}
                     timingMs={sequencer.timingMs}
                     onSetTimingMs={sequencer.setTimingMs}
+                    transition={sequencer.transition}
+                    onSetTransition={sequencer.setTransition}
+                    sound={sequencer.sound}
+                    onSetSound={sequencer.setSound}
                     onUpdate={sequencer.updateSequence}
                     onReset={handleResetSequences}
                     onAdd={sequencer.addSequence}
@@ -297,6 +435,8 @@ const App: React.FC = () => {
                     onImportSequence={sequencer.importSequence}
                     onAddImageSequences={sequencer.addImageSequences}
                     onSetSequenceLength={(length) => handleGeoConfigChange({ ...activeGeoConfig, sequenceLength: length })}
+                    storage={sequencer.storage}
+                    deckName={sequencer.deckName}
                 />
 
                 <hr className="border-slate-200 dark:border-slate-800" />
@@ -305,6 +445,19 @@ const App: React.FC = () => {
                     config={activeGeoConfig}
                     onChange={handleGeoConfigChange}
                 />
+
+                <KeyframeEditor
+                    config={activeGeoConfig}
+                    animation={sequencer.activeSequence.animation}
+                    durationMs={activeDurationMs}
+                    onChange={(animation) => sequencer.updateSequence(sequencer.activeSequence.id, { animation })}
+                />
+
+                <HistoryPanel
+                    history={sequencer.history}
+                    onUndo={sequencer.undo}
+                    onRedo={sequencer.redo}
+                />
             </div>
         )}
 
@@ -0,0 +1,106 @@
+/**
+ * Audience View Component
+ * The projector window of presenter mode (opened as `?audience=<session>`): the
+ * current card full screen, exactly as FullScreenOverlay draws it, following
+ * whatever the presenter window sends. Double-click toggles browser full
+ * screen.
+ */
+
+import React, { useEffect, useState } from 'react';
+import FullScreenOverlay from './FullScreenOverlay';
+import { cardDurationMs } from '../utils/timing';
+import {
+  AudienceDeck, AudienceMessage, AudiencePosition, PresenterMessage,
+  audienceSession, isPresenterSupported, presenterChannel,
+} from '../utils/presenter';
+
+const noop = () => {};
+
+const toggleBrowserFullScreen = () => {
+  if (document.fullscreenElement) document.exitFullscreen?.();
+  else document.documentElement.requestFullscreen?.().catch(() => {});
+};
+
+const AudienceView: React.FC = () => {
+  const [session] = useState(audienceSession);
+  const [deck, setDeck] = useState<AudienceDeck | null>(null);
+  const [position, setPosition] = useState<AudiencePosition>({ activeIndex: 0, isPlaying: false });
+  const [ended, setEnded] = useState(false);
+
+  useEffect(() => {
+    if (!isPresenterSupported() || !session) return;
+    const channel = new BroadcastChannel(presenterChannel(session));
+    const post = (message: AudienceMessage) => channel.postMessage(message);
+
+    channel.onmessage = (e: MessageEvent<PresenterMessage>) => {
+      if (e.data?.type === 'deck') {
+        setDeck(e.data.deck);
+        setEnded(false);
+      } else if (e.data?.type === 'position') {
+        setPosition(e.data.position);
+      } else if (e.data?.type === 'end') {
+        setEnded(true);
+        // Only closes when the presenter opened this window (the usual case).
+        window.close();
+      }
+    };
+    post({ type: 'hello' });
+
+    const bye = () => post({ type: 'bye' });
+    window.addEventListener('pagehide', bye);
+    return () => {
+      window.removeEventListener('pagehide', bye);
+      bye();
+      channel.close();
+    };
+  }, [session]);
+
+  // Follow the presenter's theme.
+  const isDarkMode = deck?.isDarkMode;
+  useEffect(() => {
+    if (isDarkMode !== undefined) document.documentElement.classList.toggle('dark', isDarkMode);
+  }, [isDarkMode]);
+
+  const card = deck ? deck.sequences[position.activeIndex] ?? deck.sequences[0] : undefined;
+
+  if (!deck || !card || ended) {
+    return (
+      <div onDoubleClick={toggleBrowserFullScreen} className="min-h-screen flex flex-col items-center justify-center gap-2 p-6 text-center bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400">
+        <p className="text-lg font-light text-slate-800 dark:text-slate-200">
+          {!isPresenterSupported()
+            ? 'This browser cannot link windows for presenter mode.'
+            : !session
+              ? 'Open this window from presenter mode in the main window.'
+              : ended ? 'The presentation has ended.' : 'Waiting for the presenter…'}
+        </p>
+        {!ended && session && isPresenterSupported() && (
+          <p className="text-sm">Start presenter mode in the main window. Double-click here for full screen.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div onDoubleClick={toggleBrowserFullScreen}>
+      <FullScreenOverlay
+        onClose={noop}
+        sequence={card.data}
+        sequenceName={card.name}
+        sequenceDesc={card.description}
+        isPlaying={position.isPlaying}
+        geoConfig={card.geoConfig}
+        isViewOnly
+        imageSrc={card.imageSrc}
+        imageSrcDark={card.imageSrcDark}
+        imageInvert={card.imageInvert}
+        imageFrame={card.imageFrame}
+        cardId={card.id}
+        transition={deck.transition}
+        animation={card.animation}
+        durationMs={cardDurationMs(card, deck.timingMs)}
+      />
+    </div>
+  );
+};
+
+export default AudienceView;
@@ -0,0 +1,178 @@
+/**
+ * Card Compare Component
+ * Two cards of the deck side by side, or one over the other with an
+ * onion-skin slider, plus a table of every setting and step that differs
+ * with one-click copying of either card's value onto the other.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ArrowLeftRight, ChevronLeft, ChevronRight, Columns2, Layers } from 'lucide-react';
+import QRPGenerator from './QRPGenerator';
+import { GeoConfig, Sequence } from '../types';
+import { CardDifference, canCopyDifference, copyDifference, diffCards } from '../utils/cardDiff';
+
+interface CardCompareProps {
+  cards: Sequence[];
+  initialId: number; // card A when the view opens; B is the one after it
+  onUpdateGeoConfig: (id: number, geoConfig: GeoConfig) => void;
+  onUpdateSequence: (id: number, updates: Partial<Sequence>) => void;
+}
+
+type CompareView = 'side' | 'overlay';
+
+const CardCompare: React.FC<CardCompareProps> = ({ cards, initialId, onUpdateGeoConfig, onUpdateSequence }) => {
+  const [aId, setAId] = useState(initialId);
+  const [bId, setBId] = useState(() => {
+    const i = cards.findIndex(s => s.id === initialId);
+    return cards[(i + 1) % cards.length].id;
+  });
+  const [view, setView] = useState<CompareView>('side');
+  const [onion, setOnion] = useState(50); // B's opacity in the overlay, %
+
+  // A deleted card falls back to the first / last card.
+  const a = cards.find(s => s.id === aId) ?? cards[0];
+  const b = cards.find(s => s.id === bId) ?? cards[cards.length - 1];
+  const differences = useMemo(() => diffCards(a, b), [a, b]);
+
+  const copy = (diff: CardDifference, from: Sequence, to: Sequence) => {
+    const update = copyDifference(diff, from, to);
+    if ('geoConfig' in update) onUpdateGeoConfig(to.id, update.geoConfig);
+    else onUpdateSequence(to.id, update);
+  };
+
+  const renderCard = (card: Sequence) => (
+    <QRPGenerator
+      sequence={card.data}
+      size="100%"
+      showLabels={false}
+      title={card.name}
+      description={card.description}
+      {...card.geoConfig}
+      imageSrc={card.imageSrc}
+      imageSrcDark={card.imageSrcDark}
+      imageInvert={card.imageInvert}
+      imageFrame={card.imageFrame}
+    />
+  );
+
+  const selectClass = 'min-w-0 flex-1 px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const copyButtonClass = 'p-1 rounded text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+  const viewButtonClass = (v: CompareView) =>
+    `p-1.5 rounded-md transition-colors ${view === v ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`;
+
+  return (
+    <div className="relative z-0 w-full flex flex-col gap-4">
+      {/* Which cards, and how to show them */}
+      <div className="flex items-center gap-2">
+        <span className="w-2.5 h-2.5 rounded-full bg-blue-500 flex-shrink-0" aria-hidden="true" />
+        <select value={a.id} onChange={(e) => setAId(Number(e.target.value))} aria-label="Card A" className={selectClass}>
+          {cards.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <button
+          onClick={() => { setAId(b.id); setBId(a.id); }}
+          aria-label="Swap cards"
+          title="Swap A and B"
+          className="p-1.5 rounded-lg text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex-shrink-0"
+        >
+          <ArrowLeftRight size={16} />
+        </button>
+        <span className="w-2.5 h-2.5 rounded-full bg-amber-500 flex-shrink-0" aria-hidden="true" />
+        <select value={b.id} onChange={(e) => setBId(Number(e.target.value))} aria-label="Card B" className={selectClass}>
+          {cards.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <div className="flex p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg flex-shrink-0" role="radiogroup" aria-label="Compare view">
+          <button role="radio" aria-checked={view === 'side'} onClick={() => setView('side')} title="Side by side" className={viewButtonClass('side')}>
+            <Columns2 size={16} />
+          </button>
+          <button role="radio" aria-checked={view === 'overlay'} onClick={() => setView('overlay')} title="Overlay (onion skin)" className={viewButtonClass('overlay')}>
+            <Layers size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* The cards */}
+      {view === 'side' ? (
+        <div className="grid grid-cols-2 gap-4">
+          {[a, b].map((card, i) => (
+            <div key={i} className={`rounded-lg border-t-4 ${i === 0 ? 'border-blue-500' : 'border-amber-500'}`}>
+              {renderCard(card)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-2">
+          <div className="relative w-full max-w-sm">
+            {renderCard(a)}
+            <div className="absolute inset-0" style={{ opacity: onion / 100 }} aria-hidden="true">
+              {renderCard(b)}
+            </div>
+          </div>
+          <label className="flex items-center gap-3 w-full max-w-sm text-xs font-medium">
+            <span className="text-blue-500">A</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={onion}
+              onChange={(e) => setOnion(Number(e.target.value))}
+              aria-label="Onion skin: opacity of card B"
+              className="flex-1 accent-blue-600"
+            />
+            <span className="text-amber-500">B</span>
+          </label>
+        </div>
+      )}
+
+      {/* What differs */}
+      {a.id === b.id ? (
+        <p className="text-center text-sm text-slate-500 dark:text-slate-400">Pick two different cards to compare.</p>
+      ) : differences.length === 0 ? (
+        <p className="text-center text-sm text-slate-500 dark:text-slate-400">These cards are identical.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto rounded-lg border border-slate-200 dark:border-slate-800 custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium">{differences.length} difference{differences.length === 1 ? '' : 's'}</th>
+                <th className="px-2 py-1.5 text-right font-medium text-blue-500">A</th>
+                <th className="px-1 py-1.5 font-medium"><span className="sr-only">Copy</span></th>
+                <th className="px-2 py-1.5 text-left font-medium text-amber-500">B</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800 text-slate-700 dark:text-slate-300">
+              {differences.map(diff => (
+                <tr key={diff.kind === 'geo' ? diff.field : `step-${diff.step}`}>
+                  <td className="px-2 py-1">{diff.label}</td>
+                  <td className="px-2 py-1 text-right font-mono max-w-[8rem] truncate" title={diff.a}>{diff.a}</td>
+                  <td className="px-1 py-1 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => copy(diff, b, a)}
+                      disabled={!canCopyDifference(diff, b, a)}
+                      aria-label={`Copy ${diff.label} from B to A`}
+                      title="Copy B's value to A"
+                      className={copyButtonClass}
+                    >
+                      <ChevronLeft size={14} />
+                    </button>
+                    <button
+                      onClick={() => copy(diff, a, b)}
+                      disabled={!canCopyDifference(diff, a, b)}
+                      aria-label={`Copy ${diff.label} from A to B`}
+                      title="Copy A's value to B"
+                      className={copyButtonClass}
+                    >
+                      <ChevronRight size={14} />
+                    </button>
+                  </td>
+                  <td className="px-2 py-1 font-mono max-w-[8rem] truncate" title={diff.b}>{diff.b}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CardCompare;
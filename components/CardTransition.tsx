@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import QRPGenerator from './QRPGenerator';
+import { CardAnimation, GeoConfig, Transition } from '../types';
+import { canMorph, easeInOut, tweenGeoConfig, transitionLayerStyles } from '../utils/transitions';
+import { animatedGeoConfig, hasAnimation } from '../utils/keyframes';
+import { useCardProgress } from '../hooks/useCardProgress';
+
+// Everything needed to draw one card.
+export interface CardFace {
+  sequence: number[];
+  name: string;
+  description?: string;
+  geoConfig: GeoConfig;
+  imageSrc?: string;
+  imageSrcDark?: string;
+  imageInvert?: boolean;
+  imageFrame?: boolean;
+  animation?: CardAnimation;
+}
+
+interface CardTransitionProps {
+  cardKey: number; // identifies the card shown; a change starts a transition
+  face: CardFace;
+  transition?: Transition;
+  durationMs?: number; // the card's display time, which keyframes span
+  active: boolean;
+}
+
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+// Renders the current card and, for `transition.durationMs` after it changes,
+// animates in from the card shown before. Edits to the same card (slider
+// drags etc.) update in place without a transition. Keyframed geometry plays
+// over `durationMs`; the outgoing card holds its final keyframe values.
+const CardTransition: React.FC<CardTransitionProps> = ({ cardKey, face, transition, durationMs = 0, active }) => {
+  const [from, setFrom] = useState<CardFace | null>(null);
+  const [progress, setProgress] = useState(1);
+  const shownRef = useRef({ key: cardKey, face });
+  const rafRef = useRef(0);
+
+  useEffect(() => {
+    const previous = shownRef.current;
+    if (previous.key === cardKey) return;
+    cancelAnimationFrame(rafRef.current);
+    if (!transition || transition.type === 'none' || prefersReducedMotion()) {
+      setFrom(null);
+      return;
+    }
+    const { durationMs } = transition;
+    const start = performance.now();
+    setFrom(previous.face);
+    setProgress(0);
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / durationMs);
+      setProgress(t);
+      if (t < 1) rafRef.current = requestAnimationFrame(tick);
+      else setFrom(null);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+  }, [cardKey]);
+
+  // Runs after the effect above, so it still sees the outgoing card there.
+  useEffect(() => {
+    shownRef.current = { key: cardKey, face };
+  });
+
+  useEffect(() => () => cancelAnimationFrame(rafRef.current), []);
+
+  const cardProgress = useCardProgress(hasAnimation(face), durationMs, cardKey);
+  const currentGeo = animatedGeoConfig(face.geoConfig, face.animation, cardProgress);
+
+  const renderFace = (f: CardFace, geoConfig: GeoConfig = f.geoConfig) => (
+    <QRPGenerator
+      sequence={f.sequence}
+      size="100%"
+      active={active}
+      showLabels={false}
+      title={f.name}
+      description={f.description}
+      {...geoConfig}
+      imageSrc={f.imageSrc}
+      imageSrcDark={f.imageSrcDark}
+      imageInvert={f.imageInvert}
+      imageFrame={f.imageFrame}
+    />
+  );
+
+  if (!from || !transition || transition.type === 'none' || progress >= 1) return renderFace(face, currentGeo);
+
+  const t = easeInOut(progress);
+  const fromGeo = animatedGeoConfig(from.geoConfig, from.animation, 1);
+  if (transition.type === 'morph' && canMorph(from, face)) {
+    return renderFace(face, tweenGeoConfig(fromGeo, currentGeo, t));
+  }
+
+  const { outgoing, incoming } = transitionLayerStyles(
+    transition.type === 'morph' ? 'crossfade' : transition.type,
+    t
+  );
+  return (
+    <div className="relative w-full">
+      <div className="absolute inset-0 pointer-events-none" style={outgoing} aria-hidden="true">
+        {renderFace(from, fromGeo)}
+      </div>
+      <div style={incoming}>{renderFace(face, currentGeo)}</div>
+    </div>
+  );
+};
+
+export default CardTransition;
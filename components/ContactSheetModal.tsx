@@ -0,0 +1,408 @@
+/**
+ * Contact Sheet Modal Component
+ * Exports the whole deck as one labelled thumbnail grid (PNG or SVG) for
+ * reviewing before a session or sharing an overview.
+ */
+
+import React, { useEffect, useCallback, useRef, useState } from 'react';
+import { flushSync, createPortal } from 'react-dom';
+import { X, LayoutGrid, Download, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Sequence, Transition } from '../types';
+import {
+  ContactSheetSettings, MAX_SHEET_COLUMNS, MAX_SHEET_SPACING, MIN_SHEET_COLUMNS, SHEET_FONT,
+  contactSheetSize, contactSheetSvg, normalizeContactSheet, rasterizeSheet,
+} from '../utils/contactSheet';
+import { appendSvgMetadata, embeddedFontCss, selfContainedClone, serializeSvg } from '../utils/svgExport';
+import { compressConfig } from '../utils/compression';
+import { writePngMetadata } from '../utils/png';
+import { STORAGE_KEYS, loadStored, saveStored } from '../utils/storage';
+import { downloadBlob } from '../utils/download';
+import QRPGenerator from './QRPGenerator';
+
+interface ContactSheetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sequences: Sequence[];
+  deckName?: string;
+  timingMs: number;
+  transition?: Transition;
+}
+
+const ContactSheetModal: React.FC<ContactSheetModalProps> = ({ isOpen, onClose, sequences, deckName, timingMs, transition }) => {
+  const [settings, setSettings] = useState<ContactSheetSettings>(() =>
+    normalizeContactSheet(loadStored(STORAGE_KEYS.contactSheet, null))
+  );
+  const updateSettings = (patch: Partial<ContactSheetSettings>) => {
+    setSettings(prev => {
+      const next = normalizeContactSheet({ ...prev, ...patch });
+      saveStored(STORAGE_KEYS.contactSheet, next);
+      return next;
+    });
+    setExportedBlob(null);
+  };
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [exportedBlob, setExportedBlob] = useState<Blob | null>(null);
+  const [renderIndex, setRenderIndex] = useState(0);
+  const renderRef = useRef<HTMLDivElement>(null);
+  const cancelledRef = useRef(false);
+
+  const title = settings.title.trim() || deckName || 'QRP Deck';
+  const subtitle = [
+    settings.showDate ? new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) : '',
+    settings.showCount ? `${sequences.length} card${sequences.length === 1 ? '' : 's'}` : '',
+  ].filter(Boolean).join(' · ');
+  const size = contactSheetSize(sequences.length, settings, true);
+
+  const handleStartExport = useCallback(async () => {
+    setIsExporting(true);
+    setError(null);
+    setExportedBlob(null);
+    setProgress(0);
+    cancelledRef.current = false;
+
+    try {
+      const cards: SVGSVGElement[] = [];
+      // Text to embed per font family: the cards' own uiFont plus the sheet's.
+      const fonts = new Map<string, { family: string; text: string; weights: Set<number> }>();
+      const addFontText = (family: string, text: string, weight: number) => {
+        const key = family.split(',')[0].trim().toLowerCase();
+        const entry = fonts.get(key) ?? { family, text: '', weights: new Set<number>() };
+        entry.text += text;
+        entry.weights.add(weight);
+        fonts.set(key, entry);
+      };
+
+      for (let i = 0; i < sequences.length; i++) {
+        if (cancelledRef.current) return;
+        flushSync(() => setRenderIndex(i));
+        const svg = renderRef.current?.querySelector('svg');
+        if (!svg) throw new Error('Card SVG not found');
+        svg.querySelectorAll('text').forEach(t => {
+          const style = getComputedStyle(t);
+          addFontText(style.fontFamily, t.textContent ?? '', Number(style.fontWeight) || 400);
+        });
+        cards.push(await selfContainedClone(svg, `c${i + 1}-`));
+        setProgress(((i + 1) / (sequences.length + 1)) * 100);
+        // Let the progress bar paint between cards.
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      addFontText(SHEET_FONT, title, 600);
+      addFontText(SHEET_FONT, subtitle, 400);
+      if (settings.showLabels) addFontText(SHEET_FONT, `0123456789 ${sequences.map(s => s.name).join('')}`, 500);
+      const fontCss = (await Promise.all(
+        Array.from(fonts.values(), f => embeddedFontCss(f.family, f.text, Array.from(f.weights)))
+      )).filter(Boolean).join('\n');
+      if (cancelledRef.current) return;
+
+      const sheet = contactSheetSvg(cards, sequences.map(s => s.name), settings, { title, subtitle }, fontCss);
+      // The whole deck rides along, so the overview also loads back as a deck.
+      const config = compressConfig(sequences[0].geoConfig, sequences, timingMs, transition);
+      if (settings.format === 'svg') {
+        appendSvgMetadata(sheet, config);
+        setExportedBlob(new Blob([serializeSvg(sheet)], { type: 'image/svg+xml;charset=utf-8' }));
+      } else {
+        const png = await rasterizeSheet(serializeSvg(sheet), Number(sheet.getAttribute('width')), Number(sheet.getAttribute('height')));
+        setExportedBlob(writePngMetadata(await png.arrayBuffer(), 'QRPConfig', config));
+      }
+      setProgress(100);
+    } catch (err) {
+      console.error('Contact sheet export failed', err);
+      setError(err instanceof Error ? err.message : 'Could not create the contact sheet');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [sequences, settings, title, subtitle, timingMs, transition]);
+
+  const handleDownload = useCallback(() => {
+    if (!exportedBlob) return;
+    const slug = (deckName ?? '').replace(/[^a-z0-9]/gi, '_').replace(/_+/g, '_').toLowerCase();
+    downloadBlob(exportedBlob, `${slug || 'qrp'}_sheet-${new Date().toISOString().slice(0, 10)}.${settings.format}`);
+  }, [exportedBlob, deckName, settings.format]);
+
+  const handleClose = useCallback(() => {
+    cancelledRef.current = true;
+    onClose();
+  }, [onClose]);
+
+  // Close on Escape while the modal is open.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [isOpen, handleClose]);
+
+  if (!isOpen) return null;
+
+  const segmentClass = (on: boolean) =>
+    `py-1 rounded-md text-xs font-medium transition-colors ${on ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`;
+  const inputClass = 'w-full px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+  const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+  const currentSequence = sequences[renderIndex] || sequences[0];
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-md mx-4 overflow-hidden border border-slate-200 dark:border-slate-800"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="contact-sheet-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-2">
+            <LayoutGrid className="w-5 h-5 text-blue-500" />
+            <h2 id="contact-sheet-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Contact Sheet
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            aria-label="Close"
+            title="Close (Esc)"
+            className="p-1 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className={labelClass}>Format</span>
+                <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Format">
+                  {(['png', 'svg'] as const).map((format) => (
+                    <button
+                      key={format}
+                      role="radio"
+                      aria-checked={settings.format === format}
+                      onClick={() => updateSettings({ format })}
+                      disabled={isExporting}
+                      className={`uppercase ${segmentClass(settings.format === format)}`}
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <span className={labelClass}>Theme</span>
+                <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Theme">
+                  {(['light', 'dark'] as const).map((theme) => (
+                    <button
+                      key={theme}
+                      role="radio"
+                      aria-checked={settings.theme === theme}
+                      onClick={() => updateSettings({ theme })}
+                      disabled={isExporting}
+                      className={`capitalize ${segmentClass(settings.theme === theme)}`}
+                    >
+                      {theme}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Grid */}
+            {([
+              ['columns', 'Columns', MIN_SHEET_COLUMNS, MAX_SHEET_COLUMNS, 1, String(settings.columns)],
+              ['spacing', 'Spacing', 0, MAX_SHEET_SPACING, 4, `${settings.spacing}px`],
+            ] as const).map(([key, label, min, max, step, display]) => (
+              <div key={key}>
+                <label htmlFor={`sheet-${key}`} className={labelClass}>{label}</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    id={`sheet-${key}`}
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => updateSettings({ [key]: Number(e.target.value) })}
+                    disabled={isExporting}
+                    className="flex-1 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <span className="text-xs font-medium text-slate-800 dark:text-slate-200 w-12 text-center tabular-nums">
+                    {display}
+                  </span>
+                </div>
+              </div>
+            ))}
+
+            {/* Header text */}
+            <div>
+              <label htmlFor="sheet-title" className={labelClass}>Title</label>
+              <input
+                id="sheet-title"
+                type="text"
+                value={settings.title}
+                placeholder={deckName || 'QRP Deck'}
+                onChange={(e) => updateSettings({ title: e.target.value })}
+                disabled={isExporting}
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {([['showDate', 'Date'], ['showCount', 'Card count'], ['showLabels', 'Card names']] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={(e) => updateSettings({ [key]: e.target.checked })}
+                    disabled={isExporting}
+                    className="accent-blue-600"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Export Info */}
+          <div className="space-y-2 pt-2 border-t border-slate-200 dark:border-slate-800">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">Cards:</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium">{sequences.length}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">Sheet Size:</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium tabular-nums">{size.width} × {size.height}</span>
+            </div>
+          </div>
+
+          {/* Progress */}
+          {isExporting && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-500 dark:text-slate-400">
+                  {progress < (sequences.length / (sequences.length + 1)) * 100
+                    ? `Rendering card ${Math.min(renderIndex + 1, sequences.length)} of ${sequences.length}…`
+                    : 'Composing sheet…'}
+                </span>
+                <span className="text-slate-800 dark:text-slate-200 font-medium">{Math.round(progress)}%</span>
+              </div>
+              <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all duration-300"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-start gap-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-red-800 dark:text-red-200">Export Failed</p>
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Success */}
+          {exportedBlob && !isExporting && (
+            <div className="flex items-start gap-3 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
+              <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-green-800 dark:text-green-200">
+                  Export Complete!
+                </p>
+                <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                  {settings.format.toUpperCase()} size: {(exportedBlob.size / 1024 / 1024).toFixed(2)} MB
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-2 p-4 border-t border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50">
+          <button
+            onClick={handleClose}
+            className="flex-1 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            {isExporting ? 'Cancel Export' : 'Close'}
+          </button>
+
+          {!exportedBlob ? (
+            <button
+              onClick={handleStartExport}
+              disabled={isExporting || sequences.length === 0}
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                <>
+                  <LayoutGrid className="w-4 h-4" />
+                  Start Export
+                </>
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handleDownload}
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-green-500 rounded-lg hover:bg-green-600 transition-colors flex items-center justify-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download {settings.format.toUpperCase()}
+            </button>
+          )}
+        </div>
+
+        {/* Hidden render container: each card is drawn here, then cloned */}
+        <div
+          ref={renderRef}
+          style={{
+            position: 'absolute',
+            top: -9999,
+            left: -9999,
+            width: 1000,
+            height: 1000,
+            pointerEvents: 'none',
+            opacity: 0,
+          }}
+        >
+          {currentSequence && (
+            <QRPGenerator
+              sequence={currentSequence.data}
+              size={1000}
+              showLabels={false}
+              active={false}
+              title={currentSequence.name}
+              description={currentSequence.description}
+              exportMode={true}
+              exportTheme={settings.theme}
+              {...currentSequence.geoConfig}
+              imageSrc={currentSequence.imageSrc}
+              imageSrcDark={currentSequence.imageSrcDark}
+              imageInvert={currentSequence.imageInvert}
+              imageFrame={currentSequence.imageFrame}
+            />
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ContactSheetModal;
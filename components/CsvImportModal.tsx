@@ -0,0 +1,279 @@
+/**
+ * CSV Import Modal Component
+ * Turns a spreadsheet rate list (CSV / TSV file or pasted cells) into cards:
+ * pick which column holds the name, description, digits and preset, check
+ * the preview, and import one card per valid row.
+ */
+
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, FileSpreadsheet, Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { GeoConfig, Sequence } from '../types';
+import { MAX_VALUE_PER_DIVISION } from '../constants';
+import {
+  CSV_FIELDS, CsvField, CsvMapping,
+  csvCardToSequence, guessMapping, mappingFromHeader, parseDelimited, readCsvCards,
+} from '../utils/csv';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  baseGeoConfig: GeoConfig; // geometry for rows without a preset
+  onImport: (cards: Sequence[], skipped: number) => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+const CsvImportModal: React.FC<CsvImportModalProps> = ({ isOpen, onClose, baseGeoConfig, onImport }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => parseDelimited(text), [text]);
+  const cards = useMemo(
+    () => (mapping && mapping.digits >= 0 ? readCsvCards(rows, mapping, hasHeader) : []),
+    [rows, mapping, hasHeader]
+  );
+  const valid = cards.filter(c => c.errors.length === 0);
+  const width = Math.max(0, ...rows.map(r => r.length));
+
+  // New data: take the mapping from its header if it has one, else guess.
+  const loadText = (value: string) => {
+    setText(value);
+    setError(null);
+    const parsed = parseDelimited(value);
+    const fromHeader = parsed.length > 0 ? mappingFromHeader(parsed[0]) : null;
+    setHasHeader(!!fromHeader);
+    setMapping(parsed.length === 0 ? null : fromHeader ?? guessMapping(parsed));
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(
+      value => {
+        setFileName(file.name);
+        loadText(value);
+        if (parseDelimited(value).length === 0) setError(`${file.name} has no rows.`);
+      },
+      () => setError(`Could not read ${file.name}.`)
+    );
+  };
+
+  const reset = () => {
+    setText('');
+    setFileName(null);
+    setMapping(null);
+    setError(null);
+  };
+
+  const handleClose = useCallback(() => {
+    reset();
+    onClose();
+  }, [onClose]);
+
+  const handleImport = () => {
+    if (valid.length === 0) return;
+    onImport(valid.map(c => csvCardToSequence(c, baseGeoConfig)), cards.length - valid.length);
+    handleClose();
+  };
+
+  // Close on Escape while the modal is open.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [isOpen, handleClose]);
+
+  if (!isOpen) return null;
+
+  const selectClass = 'w-full px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+  const columnLabel = (c: number) =>
+    hasHeader && rows[0]?.[c]?.trim() ? `${c + 1}: ${rows[0][c].trim()}` : `Column ${c + 1}`;
+  const setField = (field: CsvField, column: number) =>
+    setMapping(prev => (prev ? { ...prev, [field]: column } : prev));
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-2xl mx-4 overflow-hidden border border-slate-200 dark:border-slate-800"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="csv-import-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-blue-500" />
+            <h2 id="csv-import-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Import from Spreadsheet
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            aria-label="Close"
+            title="Close (Esc)"
+            className="p-1 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+          {/* Source */}
+          <div className="space-y-2">
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFile}
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Upload size={16} /> {fileName ?? 'Choose a CSV or TSV file'}
+            </button>
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setFileName(null);
+                loadText(e.target.value);
+              }}
+              placeholder={'…or paste rows copied from a spreadsheet\nName, Description, Digits, Preset'}
+              rows={3}
+              className="w-full px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-mono text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              One card per row. Digits may be written "0103" or "0 1 0 3", each 0–{MAX_VALUE_PER_DIVISION}. Preset (optional) is sunflower, lotus or dharma.
+            </p>
+          </div>
+
+          {/* Column mapping */}
+          {mapping && (
+            <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-800">
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                  className="accent-blue-600"
+                />
+                First row is a header
+              </label>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {CSV_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label htmlFor={`csv-${field}`} className={labelClass}>{label}{required ? ' *' : ''}</label>
+                    <select
+                      id={`csv-${field}`}
+                      value={mapping[field]}
+                      onChange={(e) => setField(field, Number(e.target.value))}
+                      className={selectClass}
+                    >
+                      {!required && <option value={-1}>— None —</option>}
+                      {required && mapping[field] < 0 && <option value={-1}>Choose…</option>}
+                      {Array.from({ length: width }, (_, c) => (
+                        <option key={c} value={c}>{columnLabel(c)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {cards.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500 dark:text-slate-400">Preview:</span>
+                <span className="text-slate-800 dark:text-slate-200 font-medium">
+                  {valid.length} ready{cards.length > valid.length ? `, ${cards.length - valid.length} skipped` : ''}
+                </span>
+              </div>
+              <div className="max-h-64 overflow-auto rounded-lg border border-slate-200 dark:border-slate-800">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium">Row</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Name</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Digits</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Preset</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-800 text-slate-700 dark:text-slate-300">
+                    {cards.slice(0, PREVIEW_ROWS).map(card => (
+                      <tr key={card.line} className={card.errors.length ? 'bg-red-50/60 dark:bg-red-900/10' : ''}>
+                        <td className="px-2 py-1 tabular-nums text-slate-400">{card.line}</td>
+                        <td className="px-2 py-1 max-w-[10rem] truncate" title={card.description || undefined}>{card.name}</td>
+                        <td className="px-2 py-1 font-mono">{card.data.join('')}</td>
+                        <td className="px-2 py-1 capitalize">{card.preset ?? '—'}</td>
+                        <td className="px-2 py-1">
+                          {card.errors.length === 0 ? (
+                            <CheckCircle className="w-4 h-4 text-green-500" aria-label="Ready" />
+                          ) : (
+                            <span className="text-red-600 dark:text-red-400">{card.errors.join('; ')}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {cards.length > PREVIEW_ROWS && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Showing the first {PREVIEW_ROWS} of {cards.length} rows.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-start gap-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-2 p-4 border-t border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50">
+          <button
+            onClick={handleClose}
+            className="flex-1 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={valid.length === 0}
+            className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Import {valid.length} card{valid.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CsvImportModal;
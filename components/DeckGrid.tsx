@@ -0,0 +1,168 @@
+/**
+ * Deck Grid Component
+ * Every card of the deck as a live thumbnail. Click (or Enter) selects a
+ * card, double-click opens it, drag or Alt+Arrow moves it; arrow keys,
+ * Home and End move the focus across the grid.
+ */
+
+import React, { memo, useEffect, useRef, useState } from 'react';
+import QRPGenerator from './QRPGenerator';
+import { Sequence } from '../types';
+
+interface DeckGridProps {
+  cards: Sequence[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onOpen: (index: number) => void; // double-click: show the card on the stage
+  onReorder: (fromIndex: number, toIndex: number) => void;
+}
+
+// Thumbnails are drawn once they first scroll near the view and then kept.
+// Card edits replace only the edited card's object, so the memo skips every
+// other thumbnail when one card changes or the deck is reordered.
+const CardThumbnail = memo(({ card }: { card: Sequence }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [seen, setSeen] = useState(false);
+
+  useEffect(() => {
+    if (seen || !ref.current) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setSeen(true);
+      return;
+    }
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(e => e.isIntersecting)) setSeen(true);
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [seen]);
+
+  return (
+    <div ref={ref} className="w-full aspect-[4/7] flex items-center pointer-events-none">
+      {seen ? (
+        <QRPGenerator
+          sequence={card.data}
+          size="100%"
+          showLabels={false}
+          title={card.name}
+          description={card.description}
+          {...card.geoConfig}
+          imageSrc={card.imageSrc}
+          imageSrcDark={card.imageSrcDark}
+          imageInvert={card.imageInvert}
+          imageFrame={card.imageFrame}
+        />
+      ) : (
+        <div className="w-full h-full rounded-lg bg-slate-100 dark:bg-slate-800 animate-pulse" />
+      )}
+    </div>
+  );
+});
+
+const DeckGrid: React.FC<DeckGridProps> = ({ cards, activeIndex, onSelect, onOpen, onReorder }) => {
+  const [focusIndex, setFocusIndex] = useState(activeIndex);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const moveFocusRef = useRef(false);
+
+  // Follow selection made elsewhere (player, list), and stay in range when
+  // cards are deleted. Keyed on the card, not its index, so moving cards
+  // around the selected one doesn't pull the focus.
+  const activeId = cards[activeIndex]?.id;
+  useEffect(() => setFocusIndex(activeIndex), [activeId]);
+  const focus = Math.min(focusIndex, cards.length - 1);
+
+  useEffect(() => {
+    if (!moveFocusRef.current) return;
+    moveFocusRef.current = false;
+    itemRefs.current[focus]?.focus();
+  }, [focus, cards]);
+
+  // Cards per row, as laid out: those sharing the first card's top edge.
+  const columns = () => {
+    const items = itemRefs.current.slice(0, cards.length).filter(Boolean) as HTMLButtonElement[];
+    return Math.max(1, items.filter(el => el.offsetTop === items[0]?.offsetTop).length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const last = cards.length - 1;
+    const target: Record<string, number> = {
+      ArrowLeft: index - 1,
+      ArrowRight: index + 1,
+      ArrowUp: index - columns(),
+      ArrowDown: index + columns(),
+      Home: 0,
+      End: last,
+    };
+    if (!(e.key in target)) return;
+    e.preventDefault();
+    const next = Math.max(0, Math.min(last, target[e.key]));
+    if (next === index) return;
+    // Alt+Arrow carries the card along (the keyboard version of dragging).
+    if (e.altKey && e.key.startsWith('Arrow')) onReorder(index, next);
+    moveFocusRef.current = true;
+    setFocusIndex(next);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex !== null && draggedIndex !== index) onReorder(draggedIndex, index);
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  };
+
+  return (
+    <div className="relative z-0 w-full">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+        {cards.length} cards · drag or Alt+Arrow to reorder, double-click to open
+      </p>
+      <div
+        role="listbox"
+        aria-label="Cards"
+        aria-orientation="horizontal"
+        className="grid grid-cols-3 sm:grid-cols-4 xl:grid-cols-5 gap-3 max-h-[70vh] overflow-y-auto p-1 custom-scrollbar"
+      >
+        {cards.map((card, index) => {
+          const isActive = index === activeIndex;
+          const isDropTarget = dragOverIndex === index && draggedIndex !== null && draggedIndex !== index;
+          return (
+            <button
+              key={card.id}
+              ref={el => { itemRefs.current[index] = el; }}
+              role="option"
+              aria-selected={isActive}
+              aria-label={`Card ${index + 1}: ${card.name}`}
+              tabIndex={index === focus ? 0 : -1}
+              draggable
+              onClick={() => { setFocusIndex(index); onSelect(index); }}
+              onDoubleClick={() => onOpen(index)}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              onFocus={() => setFocusIndex(index)}
+              onDragStart={(e) => { setDraggedIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'move'; setDragOverIndex(index); }}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={() => { setDraggedIndex(null); setDragOverIndex(null); }}
+              className={`group flex flex-col items-stretch gap-1 p-1.5 rounded-lg border text-left transition-all cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                isActive
+                ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-400 dark:border-blue-600'
+                : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:border-slate-300 dark:hover:border-slate-700'
+              } ${draggedIndex === index ? 'opacity-50' : ''} ${isDropTarget ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              <CardThumbnail card={card} />
+              <span className="flex items-baseline gap-1 min-w-0 text-[11px]">
+                <span className="font-mono text-slate-400 dark:text-slate-500 tabular-nums flex-shrink-0">{index + 1}</span>
+                <span className={`truncate font-medium ${isActive ? 'text-blue-600 dark:text-blue-400' : 'text-slate-600 dark:text-slate-300'}`}>{card.name}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DeckGrid;
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, ChevronDown, Check, Plus, Pencil, Copy, Trash2 } from 'lucide-react';
+import { DeckSummary } from '../utils/db';
+
+interface DeckSwitcherProps {
+  decks: DeckSummary[];
+  currentId: string;
+  currentName: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Header dropdown listing the saved decks (named workspaces). Rename happens
+// inline in the list; delete is undoable from the toast the app shows.
+const DeckSwitcher: React.FC<DeckSwitcherProps> = ({
+  decks,
+  currentId,
+  currentName,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click / Escape, like the app's modals.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointer = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handlePointer);
+    window.addEventListener('keydown', handleEsc);
+    return () => {
+      window.removeEventListener('mousedown', handlePointer);
+      window.removeEventListener('keydown', handleEsc);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setEditingId(null);
+  }, [isOpen]);
+
+  const startRename = (deck: DeckSummary) => {
+    setEditingId(deck.id);
+    setDraftName(deck.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={`Current deck: ${currentName}. Switch deck`}
+        title="Switch deck"
+        className="p-2 sm:px-3 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex items-center gap-2 max-w-[14rem]"
+      >
+        <Layers size={18} className="flex-shrink-0" />
+        <span className="hidden sm:inline text-sm font-medium truncate">{currentName}</span>
+        <ChevronDown size={14} className="flex-shrink-0 opacity-60" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-72 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-2xl z-40 overflow-hidden animate-in"
+        >
+          <p className="px-3 pt-3 pb-1 text-[10px] uppercase tracking-wider text-slate-400 dark:text-slate-500 font-semibold">Decks</p>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar p-1">
+            {decks.map((deck) => {
+              const isCurrent = deck.id === currentId;
+              if (editingId === deck.id) {
+                return (
+                  <div key={deck.id} className="flex items-center gap-2 px-2 py-1.5">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onFocus={(e) => e.target.select()}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') {
+                          e.stopPropagation();
+                          setEditingId(null);
+                        }
+                      }}
+                      aria-label="Deck name"
+                      className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border border-blue-500 rounded px-2 py-1 text-sm text-slate-800 dark:text-slate-200 focus:outline-none"
+                    />
+                  </div>
+                );
+              }
+              return (
+                <div
+                  key={deck.id}
+                  className={`group flex items-center gap-1 rounded-md pr-1 transition-colors ${
+                    isCurrent ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-100 dark:hover:bg-slate-800/50'
+                  }`}
+                >
+                  <button
+                    role="menuitemradio"
+                    aria-checked={isCurrent}
+                    onClick={() => {
+                      onSwitch(deck.id);
+                      setIsOpen(false);
+                    }}
+                    className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 text-left"
+                  >
+                    <Check size={14} className={`flex-shrink-0 text-blue-500 ${isCurrent ? '' : 'invisible'}`} />
+                    <span className={`flex-1 truncate text-sm ${isCurrent ? 'text-blue-700 dark:text-blue-300 font-medium' : 'text-slate-700 dark:text-slate-300'}`}>
+                      {deck.name}
+                    </span>
+                    <span className="text-[10px] font-mono text-slate-400 dark:text-slate-500 tabular-nums flex-shrink-0">
+                      {deck.cardCount}
+                    </span>
+                  </button>
+                  <div className="flex items-center opacity-60 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startRename(deck)}
+                      aria-label={`Rename deck ${deck.name}`}
+                      title="Rename"
+                      className="p-1 text-slate-400 hover:text-blue-500 transition-colors"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        onDuplicate(deck.id);
+                        setIsOpen(false);
+                      }}
+                      aria-label={`Duplicate deck ${deck.name}`}
+                      title="Duplicate"
+                      className="p-1 text-slate-400 hover:text-blue-500 transition-colors"
+                    >
+                      <Copy size={12} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(deck.id)}
+                      disabled={decks.length <= 1}
+                      aria-label={`Delete deck ${deck.name}`}
+                      title={decks.length <= 1 ? "Can't delete the only deck" : 'Delete'}
+                      className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-400 transition-colors"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="border-t border-slate-200 dark:border-slate-800 p-1">
+            <button
+              role="menuitem"
+              onClick={() => {
+                onCreate();
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-colors"
+            >
+              <Plus size={14} /> New Deck
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeckSwitcher;
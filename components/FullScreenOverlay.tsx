@@ -1,7 +1,7 @@
 import React, { useEffect, useRef } from 'react';
-import QRPGenerator from './QRPGenerator';
+import CardTransition from './CardTransition';
 import { X } from 'lucide-react';
-import { GeoConfig } from '../types';
+import { CardAnimation, GeoConfig, Transition } from '../types';
 
 interface FullScreenOverlayProps {
   onClose: () => void;
@@ -15,6 +15,10 @@ interface FullScreenOverlayProps {
   imageSrcDark?: string;
   imageInvert?: boolean;
   imageFrame?: boolean;
+  cardId: number;
+  transition?: Transition;
+  animation?: CardAnimation;
+  durationMs?: number;
 }
 
 const FullScreenOverlay: React.FC<FullScreenOverlayProps> = ({
@@ -28,7 +32,11 @@ const FullScreenOverlay: React.FC<FullScreenOverlayProps> = ({
   imageSrc,
   imageSrcDark,
   imageInvert,
-  imageFrame
+  imageFrame,
+  cardId,
+  transition,
+  animation,
+  durationMs
 }) => {
   
   const closeButtonRef = useRef<HTMLButtonElement>(null);
@@ -69,18 +77,12 @@ const FullScreenOverlay: React.FC<FullScreenOverlayProps> = ({
                  className="relative flex items-center justify-center"
                  style={{ width: 'min(92vw, (100vh - 96px) * 4 / 7)' }}
              >
-                  <QRPGenerator
-                      sequence={sequence}
-                      size="100%"
+                  <CardTransition
+                      cardKey={cardId}
+                      face={{ sequence, name: sequenceName, description: sequenceDesc, geoConfig, imageSrc, imageSrcDark, imageInvert, imageFrame, animation }}
+                      transition={transition}
+                      durationMs={durationMs}
                       active={isPlaying}
-                      showLabels={false}
-                      title={sequenceName}
-                      description={sequenceDesc}
-                      {...geoConfig}
-                      imageSrc={imageSrc}
-                      imageSrcDark={imageSrcDark}
-                      imageInvert={imageInvert}
-                      imageFrame={imageFrame}
                   />
              </div>
              
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Activity, Sun, Moon, Maximize, Settings2, Link, Download, Save } from 'lucide-react';
+import { Activity, Sun, Moon, Maximize, Settings2, Link, Download, Save, Presentation } from 'lucide-react';
+import DeckSwitcher from './DeckSwitcher';
 
 interface HeaderProps {
   isDarkMode: boolean;
@@ -7,10 +8,13 @@ interface HeaderProps {
   toggleFullScreen: () => void;
   toggleEditor: () => void;
   showEditor: boolean;
-  onShare: () => void;
+  onShare: (inQuery: boolean) => void; // Shift-click: ?c= link instead of #c=
   onImport: () => void;
   onSave: () => void;
+  onPresent?: () => void; // omitted where windows can't be linked (no BroadcastChannel)
   isViewOnly: boolean;
+  // Omitted when decks aren't available (no IndexedDB) — the switcher hides.
+  deckSwitcher?: React.ComponentProps<typeof DeckSwitcher>;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
@@ -22,7 +26,9 @@ const Header: React.FC<HeaderProps> = ({
   onShare,
   onImport,
   onSave,
-  isViewOnly
+  onPresent,
+  isViewOnly,
+  deckSwitcher
 }) => {
   return (
     <header className="bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800 px-4 md:px-6 py-4 flex items-center justify-between sticky top-0 z-30 shadow-sm transition-colors duration-300">
@@ -37,6 +43,14 @@ const Header: React.FC<HeaderProps> = ({
       </div>
       
       <div className="flex items-center gap-2 sm:gap-3">
+           {/* Deck Switcher — Load/Save/Share below all act on this deck */}
+           {deckSwitcher && !isViewOnly && (
+               <>
+                <DeckSwitcher {...deckSwitcher} />
+                <div className="h-5 w-px bg-slate-200 dark:bg-slate-800 mx-1 hidden sm:block"></div>
+               </>
+           )}
+
            {/* Import Button */}
            <button
               onClick={onImport}
@@ -61,15 +75,28 @@ const Header: React.FC<HeaderProps> = ({
 
            {/* Share Button (URL) */}
            <button
-              onClick={onShare}
+              onClick={e => onShare(e.shiftKey)}
               aria-label="Share configuration by copying a link"
               className="p-2 sm:px-3 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex items-center gap-2"
-              title="Share Configuration (Copy URL)"
+              title="Share Configuration (Copy URL) — Shift-click for a ?c= link"
            >
               <Link size={18} />
               <span className="hidden sm:inline text-sm font-medium">Share Link</span>
            </button>
 
+           {/* Presenter Button (second window for the projector) */}
+           {onPresent && !isViewOnly && (
+               <button
+                  onClick={onPresent}
+                  aria-label="Start presenter mode"
+                  className="p-2 sm:px-3 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex items-center gap-2"
+                  title="Present — control the deck here while a second window shows it on the projector"
+               >
+                  <Presentation size={18} />
+                  <span className="hidden lg:inline text-sm font-medium">Present</span>
+               </button>
+           )}
+
            <div className="h-5 w-px bg-slate-200 dark:bg-slate-800 mx-1 hidden sm:block"></div>
 
            <button
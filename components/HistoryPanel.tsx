@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { History, ChevronDown, ChevronUp, Undo2, Redo2 } from 'lucide-react';
+import { HistoryLog } from '../hooks/useSequencer';
+
+interface HistoryPanelProps {
+  history: HistoryLog;
+  onUndo: (steps?: number) => void;
+  onRedo: (steps?: number) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl+';
+
+// Collapsible list of the deck's edit history, newest first. Undone steps stay
+// listed (dimmed) above the current point until a new edit discards them;
+// clicking any row jumps the deck to the state right after that step.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { past, future } = history;
+
+  // Rendered top to bottom: furthest redo … nearest redo, newest done … oldest done.
+  const rows = [
+    ...future.map((entry, i) => ({ entry, undone: true, onClick: () => onRedo(i + 1) })).reverse(),
+    ...past.map((entry, i) => ({ entry, undone: false, onClick: () => onUndo(past.length - 1 - i) })).reverse(),
+  ];
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-900/50 backdrop-blur-sm rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-all duration-300 flex flex-col">
+      <div className="flex items-center">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+          className="flex-1 flex items-center justify-between p-4 text-slate-800 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors rounded-l-xl"
+        >
+          <div className="flex items-center gap-2">
+            <History size={18} className="text-blue-500" />
+            <h2 className="font-semibold">History</h2>
+            {past.length > 0 && (
+              <span className="text-[10px] font-mono text-slate-400 dark:text-slate-500 tabular-nums">{past.length}</span>
+            )}
+          </div>
+          {isExpanded ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+        </button>
+        <div className="flex items-center gap-1 pr-3 pl-1">
+          <button
+            onClick={() => onUndo()}
+            disabled={past.length === 0}
+            aria-label="Undo"
+            title={past.length ? `Undo ${past[past.length - 1].label} (${MOD}Z)` : 'Nothing to undo'}
+            className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={() => onRedo()}
+            disabled={future.length === 0}
+            aria-label="Redo"
+            title={future.length ? `Redo ${future[0].label} (${MOD}Shift+Z)` : 'Nothing to redo'}
+            className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+          >
+            <Redo2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="p-3 pt-0 animate-in">
+          <ol className="max-h-64 overflow-y-auto custom-scrollbar flex flex-col gap-0.5">
+            {rows.map(({ entry, undone, onClick }, i) => (
+              <li key={`${entry.at}-${i}`}>
+                <button
+                  onClick={onClick}
+                  className={`w-full flex items-baseline gap-2 px-2 py-1.5 rounded-md text-left text-xs transition-colors hover:bg-slate-100 dark:hover:bg-slate-800/50 ${
+                    undone ? 'opacity-40 line-through decoration-slate-400/60' : ''
+                  } ${!undone && i === future.length ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                >
+                  <span className="flex-1 min-w-0 truncate text-slate-700 dark:text-slate-300">{entry.label}</span>
+                  {entry.card && (
+                    <span className="max-w-[40%] truncate text-[10px] text-slate-400 dark:text-slate-500">{entry.card}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+            <li>
+              <button
+                onClick={() => onUndo(past.length)}
+                className={`w-full px-2 py-1.5 rounded-md text-left text-xs italic text-slate-400 dark:text-slate-500 transition-colors hover:bg-slate-100 dark:hover:bg-slate-800/50 ${
+                  past.length === 0 ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+              >
+                Deck opened
+              </button>
+            </li>
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
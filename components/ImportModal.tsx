@@ -1,17 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { X, Clipboard, Download, Upload, FileImage, FileJson } from 'lucide-react';
-import { readPngMetadata } from '../utils/png';
-import { decompressConfig } from '../utils/compression';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Clipboard, Download, FileImage, FileJson, ArrowLeft, AlertTriangle } from 'lucide-react';
+import { Sequence } from '../types';
+import { readPngText, PNG_DECK_KEY } from '../utils/png';
+import { readSvgMetadata } from '../utils/svgExport';
+import { readVideoConfig } from '../hooks/useVideoExport';
+import { summarizeIssues, validateDeck } from '../utils/deckSchema';
+import { DecodedImport, IMPORT_MODES, ImportMode, decodeImport, decodeSharedConfig, planImport } from '../utils/deckImport';
 
 interface ImportModalProps {
+  current: Sequence[]; // the open deck, to preview name clashes against
   onClose: () => void;
-  onImport: (data: string) => void;
+  // `decoded.deck.sequences` holds only the cards ticked in the preview.
+  onImport: (decoded: DecodedImport, mode: ImportMode) => void;
 }
 
-const ImportModal: React.FC<ImportModalProps> = ({ onClose, onImport }) => {
+// Decoded, waiting in the preview for cards and a mode to be picked.
+interface Incoming extends DecodedImport {
+  source: string;
+  note?: string;
+}
+
+const ImportModal: React.FC<ImportModalProps> = ({ current, onClose, onImport }) => {
   const [inputValue, setInputValue] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [incoming, setIncoming] = useState<Incoming | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [mode, setMode] = useState<ImportMode>('replace');
 
   // Focus input on mount
   useEffect(() => {
@@ -31,6 +46,20 @@ const ImportModal: React.FC<ImportModalProps> = ({ onClose, onImport }) => {
     return () => window.removeEventListener('keydown', handleEsc);
   }, [onClose]);
 
+  // The ticked cards, in deck order, and what importing them would do.
+  const chosen = useMemo(
+    () => (incoming ? incoming.deck.sequences.filter((_, i) => selected.has(i)) : []),
+    [incoming, selected]
+  );
+  const plan = useMemo(() => planImport(current, chosen, mode), [current, chosen, mode]);
+
+  // Every card is ticked unless `picked` says otherwise.
+  const showPreview = (decoded: DecodedImport, source: string, picked?: number[], note?: string) => {
+    setError(null);
+    setIncoming({ ...decoded, source, note });
+    setSelected(new Set(picked ?? decoded.deck.sequences.map((_, i) => i)));
+  };
+
   const handlePasteClipboard = async () => {
     try {
       const text = await navigator.clipboard.readText();
@@ -46,24 +75,49 @@ const ImportModal: React.FC<ImportModalProps> = ({ onClose, onImport }) => {
           setError('Please enter some data.');
           return;
       }
-      onImport(inputValue);
+      decodeImport(inputValue).then(
+          decoded => showPreview(decoded, inputValue.trim().startsWith('{') ? 'Pasted config' : 'Link'),
+          (e: Error) => setError(e.message)
+      );
+  };
+
+  const handleConfirm = () => {
+      if (!incoming || chosen.length === 0) return;
+      onImport({ ...incoming, deck: { ...incoming.deck, sequences: chosen } }, mode);
       onClose();
   };
 
+  const toggleCard = (index: number) => {
+      setSelected(prev => {
+          const next = new Set(prev);
+          if (next.has(index)) next.delete(index);
+          else next.add(index);
+          return next;
+      });
+  };
+
+  // Shared by the PNG and SVG cards: both carry the same compressed config.
+  const importCardConfig = (metadata: string | null, kind: string, source: string) => {
+    if (!metadata) {
+        setError("No QRP configuration found in this image.");
+        return;
+    }
+    decodeSharedConfig(metadata).then(
+        decoded => showPreview(decoded, source),
+        () => setError(`Could not parse configuration from ${kind}.`)
+    );
+  };
+
   const processFile = (file: File) => {
     // 1. Handle JSON Files
     if (file.type === 'application/json' || file.name.endsWith('.json')) {
         const reader = new FileReader();
         reader.onload = (e) => {
             if (e.target?.result && typeof e.target.result === 'string') {
-                try {
-                    // Verify it parses
-                    JSON.parse(e.target.result);
-                    onImport(e.target.result);
-                    onClose();
-                } catch (e) {
-                    setError("Invalid JSON file.");
-                }
+                decodeImport(e.target.result).then(
+                    decoded => showPreview(decoded, file.name),
+                    () => setError("Invalid JSON file.")
+                );
             }
         };
         reader.readAsText(file);
@@ -73,32 +127,67 @@ const ImportModal: React.FC<ImportModalProps> = ({ onClose, onImport }) => {
     // 2. Handle PNG Files
     if (file.type.includes('png') || file.name.endsWith('.png')) {
         const reader = new FileReader();
-        reader.onload = (e) => {
+        reader.onload = async (e) => {
             if (e.target?.result) {
-                const buffer = e.target.result as ArrayBuffer;
-                const metadata = readPngMetadata(buffer, "QRPConfig");
-                if (metadata) {
-                    const decoded = decompressConfig(metadata);
-                    if (decoded) {
-                        const jsonObj = {
-                            sequences: decoded.sequences,
-                            timingMs: decoded.timingMs
-                        };
-                        onImport(JSON.stringify(jsonObj));
-                        onClose();
-                    } else {
-                        setError("Could not parse configuration from PNG.");
+                let texts: Map<string, string>;
+                try {
+                    texts = await readPngText(e.target.result as ArrayBuffer);
+                } catch {
+                    setError("Could not read this PNG.");
+                    return;
+                }
+                const deckJson = texts.get(PNG_DECK_KEY);
+                if (deckJson) {
+                    try {
+                        // A PNG saved with its whole deck: offer every card,
+                        // with just the pictured one ticked.
+                        const { card, ...saved } = JSON.parse(deckJson);
+                        const { deck, issues } = validateDeck(saved);
+                        if (deck) {
+                            const pictured = deck.sequences.findIndex(s => s.id === card);
+                            showPreview(
+                                { deck, issues }, file.name,
+                                pictured >= 0 ? [pictured] : undefined,
+                                pictured >= 0 ? 'This PNG carries its whole deck. The pictured card is ticked.' : undefined
+                            );
+                            return;
+                        }
+                    } catch {
+                        // Fall back to the single-card chunk below.
                     }
-                } else {
-                    setError("No QRP configuration found in this image.");
                 }
+                importCardConfig(texts.get("QRPConfig") ?? null, 'PNG', file.name);
             }
         };
         reader.readAsArrayBuffer(file);
         return;
     }
 
-    setError("Supported formats: PNG (Card) or JSON (Config).");
+    // 3. Handle SVG Files
+    if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            if (typeof e.target?.result === 'string') {
+                importCardConfig(readSvgMetadata(e.target.result), 'SVG', file.name);
+            }
+        };
+        reader.readAsText(file);
+        return;
+    }
+
+    // 4. Handle MP4 / WebM exports (config in the container's metadata tags)
+    if (/^video\/(mp4|webm|quicktime)$/.test(file.type) || /\.(mp4|m4v|mov|webm)$/i.test(file.name)) {
+        readVideoConfig(file).then(
+            (config) => {
+                if (config) importCardConfig(config, 'video', file.name);
+                else setError("No QRP configuration found in this video.");
+            },
+            () => setError("Could not read this video.")
+        );
+        return;
+    }
+
+    setError("Supported formats: PNG or SVG (Card), MP4 or WebM (Video) or JSON (Config).");
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -138,60 +227,157 @@ const ImportModal: React.FC<ImportModalProps> = ({ onClose, onImport }) => {
 
         <h2 id="import-modal-title" className="text-xl font-bold text-slate-900 dark:text-white mb-2">Load Configuration</h2>
         
-        {/* File Drop Zone */}
-        <div 
-            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
-            onDragLeave={() => setIsDragging(false)}
-            onDrop={handleDrop}
-            className={`w-full h-24 mb-4 border-2 border-dashed rounded-lg flex flex-col items-center justify-center transition-colors cursor-pointer ${
-                isDragging 
-                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' 
-                : 'border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50'
-            }`}
-        >
-            <label className="flex flex-col items-center cursor-pointer w-full h-full justify-center">
-                <input type="file" accept="image/png,application/json" className="hidden" onChange={handleFileInput} />
-                <div className="flex gap-2 mb-2">
-                    <FileImage className={isDragging ? 'text-blue-500' : 'text-slate-400'} size={24} />
-                    <FileJson className={isDragging ? 'text-blue-500' : 'text-slate-400'} size={24} />
+        {incoming ? (
+            <div>
+                {/* Preview: which cards, and how they join the open deck */}
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                    <span className="font-medium text-slate-700 dark:text-slate-300">{incoming.source}</span>
+                    {incoming.deck.name ? ` — "${incoming.deck.name}"` : ''}, {incoming.deck.sequences.length} card{incoming.deck.sequences.length === 1 ? '' : 's'}.
+                    {incoming.note ? ` ${incoming.note}` : ''}
+                </p>
+
+                {incoming.issues.length > 0 && (
+                    <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-2 mb-3">
+                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                        <span>Repaired {incoming.issues.length} problem{incoming.issues.length === 1 ? '' : 's'}: {summarizeIssues(incoming.issues)}</span>
+                    </p>
+                )}
+
+                <div className="flex p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg mb-1" role="radiogroup" aria-label="Import mode">
+                    {IMPORT_MODES.map(m => (
+                        <button
+                            key={m.mode}
+                            role="radio"
+                            aria-checked={mode === m.mode}
+                            onClick={() => setMode(m.mode)}
+                            className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                                mode === m.mode
+                                ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm'
+                                : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                            }`}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                    {IMPORT_MODES.find(m => m.mode === mode)?.hint}
+                    {mode === 'replace' && current.length > 0 ? ` Your ${current.length} card${current.length === 1 ? '' : 's'} can be brought back with Undo.` : ''}
+                </p>
+
+                <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="text-slate-500 dark:text-slate-400">{chosen.length} of {incoming.deck.sequences.length} selected</span>
+                    <button
+                        onClick={() => setSelected(chosen.length === incoming.deck.sequences.length ? new Set() : new Set(incoming.deck.sequences.map((_, i) => i)))}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                        {chosen.length === incoming.deck.sequences.length ? 'Select none' : 'Select all'}
+                    </button>
+                </div>
+                <ul className="max-h-64 overflow-y-auto rounded-lg border border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800 mb-3 custom-scrollbar">
+                    {incoming.deck.sequences.map((seq, i) => {
+                        // Plan entries follow the ticked cards in order.
+                        const planned = selected.has(i) ? plan.cards[chosen.indexOf(seq)] : undefined;
+                        return (
+                            <li key={i}>
+                                <label className="flex items-center gap-2 px-3 py-2 text-xs cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(i)}
+                                        onChange={() => toggleCard(i)}
+                                        className="accent-blue-600"
+                                    />
+                                    <span className="flex-1 min-w-0 truncate text-slate-800 dark:text-slate-200" title={seq.description || undefined}>{seq.name}</span>
+                                    <span className="font-mono text-slate-400 truncate max-w-[6rem]">{seq.data.join('')}</span>
+                                    {planned && mode !== 'replace' && (
+                                        planned.action === 'update' ? (
+                                            <span className="flex-shrink-0 text-blue-600 dark:text-blue-400">updates yours</span>
+                                        ) : planned.renamedFrom ? (
+                                            <span className="flex-shrink-0 text-amber-600 dark:text-amber-400 truncate max-w-[8rem]" title={`Name taken, imported as "${planned.name}"`}>as "{planned.name}"</span>
+                                        ) : (
+                                            <span className="flex-shrink-0 text-green-600 dark:text-green-400">new</span>
+                                        )
+                                    )}
+                                </label>
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                <div className="flex gap-3 justify-end">
+                    <button
+                        onClick={() => setIncoming(null)}
+                        className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
+                    >
+                        <ArrowLeft size={16} /> Back
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={chosen.length === 0}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Download size={16} /> {mode === 'replace' ? 'Load' : 'Import'} {chosen.length} card{chosen.length === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        ) : (
+            <>
+                {/* File Drop Zone */}
+                <div 
+                    onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    className={`w-full h-24 mb-4 border-2 border-dashed rounded-lg flex flex-col items-center justify-center transition-colors cursor-pointer ${
+                        isDragging 
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' 
+                        : 'border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                    }`}
+                >
+                    <label className="flex flex-col items-center cursor-pointer w-full h-full justify-center">
+                        <input type="file" accept="image/png,image/svg+xml,.svg,video/mp4,video/webm,.mp4,.webm,application/json" className="hidden" onChange={handleFileInput} />
+                        <div className="flex gap-2 mb-2">
+                            <FileImage className={isDragging ? 'text-blue-500' : 'text-slate-400'} size={24} />
+                            <FileJson className={isDragging ? 'text-blue-500' : 'text-slate-400'} size={24} />
+                        </div>
+                        <span className="text-xs text-slate-500 font-medium">Drop a QRP PNG / SVG Card, exported Video or JSON Config</span>
+                    </label>
+                </div>
+    
+                <div className="flex items-center gap-3 mb-4">
+                    <hr className="flex-1 border-slate-200 dark:border-slate-800" />
+                    <span className="text-xs text-slate-400 font-medium">OR PASTE DATA</span>
+                    <hr className="flex-1 border-slate-200 dark:border-slate-800" />
+                </div>
+    
+                <textarea
+                    id="import-textarea"
+                    value={inputValue}
+                    onChange={(e) => {
+                        setInputValue(e.target.value);
+                        if (error) setError(null);
+                    }}
+                    placeholder="Paste URL or JSON content here..."
+                    className="w-full h-24 bg-slate-50 dark:bg-slate-950 border border-slate-300 dark:border-slate-800 rounded-lg p-3 text-xs font-mono text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none mb-3"
+                />
+    
+                {error && <p className="text-red-500 text-xs mb-3">{error}</p>}
+    
+                <div className="flex gap-3 justify-end">
+                    <button
+                        onClick={handlePasteClipboard}
+                        className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
+                    >
+                        <Clipboard size={16} /> Paste
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                    >
+                        <Download size={16} /> Load
+                    </button>
                 </div>
-                <span className="text-xs text-slate-500 font-medium">Drop a QRP PNG Card or JSON Config</span>
-            </label>
-        </div>
-
-        <div className="flex items-center gap-3 mb-4">
-            <hr className="flex-1 border-slate-200 dark:border-slate-800" />
-            <span className="text-xs text-slate-400 font-medium">OR PASTE DATA</span>
-            <hr className="flex-1 border-slate-200 dark:border-slate-800" />
-        </div>
-
-        <textarea
-            id="import-textarea"
-            value={inputValue}
-            onChange={(e) => {
-                setInputValue(e.target.value);
-                if (error) setError(null);
-            }}
-            placeholder="Paste URL or JSON content here..."
-            className="w-full h-24 bg-slate-50 dark:bg-slate-950 border border-slate-300 dark:border-slate-800 rounded-lg p-3 text-xs font-mono text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none mb-3"
-        />
-
-        {error && <p className="text-red-500 text-xs mb-3">{error}</p>}
-
-        <div className="flex gap-3 justify-end">
-            <button
-                onClick={handlePasteClipboard}
-                className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
-            >
-                <Clipboard size={16} /> Paste
-            </button>
-            <button
-                onClick={handleSubmit}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
-            >
-                <Download size={16} /> Load
-            </button>
-        </div>
+            </>
+        )}
       </div>
     </div>
   );
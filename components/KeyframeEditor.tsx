@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Spline, ChevronDown, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import { CardAnimation, Easing, GeoConfig, Keyframe, NumericGeoKey } from '../types';
+import { GEO_FIELD_LABELS } from '../constants';
+import {
+  ANIMATABLE_GEO_KEYS, ANIMATION_PRESETS, EASING_OPTIONS, sampleTrack, sortKeyframes,
+} from '../utils/keyframes';
+
+interface KeyframeEditorProps {
+  config: GeoConfig;
+  animation?: CardAnimation;
+  durationMs: number;
+  onChange: (animation: CardAnimation | undefined) => void;
+}
+
+const inputClass =
+  'bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Small plot of a track over the card's duration, so the curve's shape is
+// visible without scrubbing the preview.
+const TrackCurve: React.FC<{ track: Keyframe[] }> = ({ track }) => {
+  const samples = Array.from({ length: 41 }, (_, i) => sampleTrack(track, i / 40));
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  const range = max - min || 1;
+  const points = samples.map((v, i) => `${(i / 40) * 100},${22 - ((v - min) / range) * 20}`).join(' ');
+  return (
+    <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="w-full h-6 text-blue-500" aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      {track.map((k, i) => (
+        <circle key={i} cx={k.at * 100} cy={22 - ((k.value - min) / range) * 20} r={1.6} className="fill-current" />
+      ))}
+    </svg>
+  );
+};
+
+// Keyframes for the active card's numeric geometry. Positions are shown as a
+// percentage of the card's duration, so they survive a change of timing.
+const KeyframeEditor: React.FC<KeyframeEditorProps> = ({ config, animation, durationMs, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const tracks = (Object.keys(animation ?? {}) as NumericGeoKey[]).filter(k => animation?.[k]?.length);
+  const currentValue = (key: NumericGeoKey) => config[key] ?? 1;
+
+  // Dropping the last track clears the animation entirely.
+  const setTrack = (key: NumericGeoKey, track: Keyframe[] | null) => {
+    const next: CardAnimation = { ...animation };
+    if (track && track.length > 0) next[key] = sortKeyframes(track);
+    else delete next[key];
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const addTrack = (key: NumericGeoKey) => {
+    const v = currentValue(key);
+    setTrack(key, [{ at: 0, value: v }, { at: 1, value: v }]);
+  };
+
+  // New keyframe in the middle of the widest gap, on the current curve.
+  const addKeyframe = (key: NumericGeoKey, track: Keyframe[]) => {
+    let at = track.length === 1 ? (track[0].at < 0.5 ? 1 : 0) : 0.5;
+    let widest = -1;
+    for (let i = 1; i < track.length; i++) {
+      const gap = track[i].at - track[i - 1].at;
+      if (gap > widest) {
+        widest = gap;
+        at = track[i - 1].at + gap / 2;
+      }
+    }
+    at = Math.round(at * 100) / 100;
+    setTrack(key, [...track, { at, value: sampleTrack(track, at), easing: 'easeInOut' }]);
+  };
+
+  const updateKeyframe = (key: NumericGeoKey, track: Keyframe[], index: number, patch: Partial<Keyframe>) => {
+    setTrack(key, track.map((k, i) => (i === index ? { ...k, ...patch } : k)));
+  };
+
+  const untracked = ANIMATABLE_GEO_KEYS.filter(k => !tracks.includes(k));
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-900/50 backdrop-blur-sm rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-all duration-300 flex flex-col">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        className="w-full flex-shrink-0 flex items-center justify-between p-4 text-slate-800 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <Spline size={18} className="text-blue-500" />
+          <h2 className="font-semibold">Animation</h2>
+          {tracks.length > 0 && (
+            <span className="text-[10px] font-mono text-slate-400 dark:text-slate-500 tabular-nums">{tracks.length}</span>
+          )}
+        </div>
+        {isExpanded ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+      </button>
+
+      {isExpanded && (
+        <div className="p-3 pt-0 space-y-3 animate-in">
+          <p className="text-[11px] text-slate-400 dark:text-slate-500">
+            Keyframes span this card's {(durationMs / 1000).toFixed(1)}s on screen, in the player and in exported video.
+          </p>
+
+          {/* Quick starts for the common motions */}
+          <div className="flex flex-wrap gap-1.5">
+            {ANIMATION_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => setTrack(preset.key, preset.build(currentValue(preset.key)))}
+                disabled={tracks.includes(preset.key)}
+                title={`Animate ${GEO_FIELD_LABELS[preset.key]}`}
+                className="px-2 py-1 rounded-md text-[11px] font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-blue-50 hover:text-blue-600 dark:hover:bg-blue-900/30 dark:hover:text-blue-300 disabled:opacity-40 disabled:hover:bg-slate-100 disabled:hover:text-slate-600 transition-colors"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          {tracks.map((key) => {
+            const track = animation![key]!;
+            return (
+              <div key={key} className="border border-slate-100 dark:border-slate-800 rounded-lg bg-white dark:bg-slate-900/50 p-2 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold text-slate-700 dark:text-slate-300">{GEO_FIELD_LABELS[key]}</span>
+                  <button
+                    onClick={() => setTrack(key, null)}
+                    aria-label={`Remove ${GEO_FIELD_LABELS[key]} animation`}
+                    title="Remove track"
+                    className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+
+                <TrackCurve track={track} />
+
+                <div className="space-y-1">
+                  {track.map((k, i) => (
+                    <div key={i} className="flex items-center gap-1.5">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={Math.round(k.at * 100)}
+                        onChange={(e) => {
+                          if (!isNaN(e.target.valueAsNumber)) updateKeyframe(key, track, i, { at: e.target.valueAsNumber / 100 });
+                        }}
+                        aria-label={`Keyframe ${i + 1} position (percent of the card)`}
+                        className={`${inputClass} w-14 tabular-nums`}
+                      />
+                      <span className="text-[10px] text-slate-400">%</span>
+                      <input
+                        type="number"
+                        step="any"
+                        value={k.value}
+                        onChange={(e) => {
+                          if (!isNaN(e.target.valueAsNumber)) updateKeyframe(key, track, i, { value: e.target.valueAsNumber });
+                        }}
+                        aria-label={`Keyframe ${i + 1} value`}
+                        className={`${inputClass} w-20 tabular-nums`}
+                      />
+                      {i > 0 ? (
+                        <select
+                          value={k.easing ?? 'linear'}
+                          onChange={(e) => updateKeyframe(key, track, i, { easing: e.target.value as Easing })}
+                          aria-label={`Easing into keyframe ${i + 1}`}
+                          className={`${inputClass} flex-1 min-w-0`}
+                        >
+                          {EASING_OPTIONS.map(({ easing, label }) => (
+                            <option key={easing} value={easing}>{label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="flex-1" />
+                      )}
+                      <button
+                        onClick={() => setTrack(key, track.filter((_, j) => j !== i))}
+                        aria-label={`Remove keyframe ${i + 1}`}
+                        title="Remove keyframe"
+                        className="p-0.5 text-slate-400 hover:text-red-500 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => addKeyframe(key, track)}
+                  className="w-full py-1 flex items-center justify-center gap-1 border border-dashed border-slate-300 dark:border-slate-700 rounded-md text-[11px] text-slate-500 dark:text-slate-400 hover:border-blue-400 hover:text-blue-500 transition-colors"
+                >
+                  <Plus size={12} /> Keyframe
+                </button>
+              </div>
+            );
+          })}
+
+          {untracked.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && addTrack(e.target.value as NumericGeoKey)}
+              aria-label="Animate a parameter"
+              className={`${inputClass} w-full py-1`}
+            >
+              <option value="">Animate a parameter…</option>
+              {untracked.map((key) => (
+                <option key={key} value={key}>{GEO_FIELD_LABELS[key]}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyframeEditor;
@@ -0,0 +1,452 @@
+/**
+ * PDF Export Modal Component
+ * Lays the whole deck out as a printable, vector PDF: paper or card-sized
+ * pages, several cards per sheet, bleed and crop marks.
+ */
+
+import React, { useEffect, useCallback, useRef, useState } from 'react';
+import { flushSync, createPortal } from 'react-dom';
+import { X, FileText, Download, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Sequence } from '../types';
+import {
+  CARD_SIZE_PRESETS, MAX_BLEED_MM, MAX_CARD_MM, MIN_CARD_MM, PAGE_SIZES, PER_PAGE_OPTIONS, PT_PER_MM,
+  PdfExportSettings, PdfPageSize, cropMarksPdf, normalizePdfSettings, pdfPageLayout,
+} from '../utils/pdfSettings';
+import { createPdfWriter, pdfNum } from '../utils/pdf';
+import { svgToPdf } from '../utils/svgToPdf';
+import { STORAGE_KEYS, loadStored, saveStored } from '../utils/storage';
+import { downloadBlob } from '../utils/download';
+import QRPGenerator from './QRPGenerator';
+
+interface PdfExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sequences: Sequence[];
+}
+
+// Card background per theme (QRPGenerator's export colours), carried into the bleed.
+const BACKGROUNDS = { light: '1 1 1', dark: '0.059 0.09 0.165' };
+
+const PdfExportModal: React.FC<PdfExportModalProps> = ({ isOpen, onClose, sequences }) => {
+  const [settings, setSettings] = useState<PdfExportSettings>(() =>
+    normalizePdfSettings(loadStored(STORAGE_KEYS.pdfExport, null))
+  );
+  const updateSettings = (patch: Partial<PdfExportSettings>) => {
+    setSettings(prev => {
+      const next = normalizePdfSettings({ ...prev, ...patch });
+      saveStored(STORAGE_KEYS.pdfExport, next);
+      return next;
+    });
+    setExportedBlob(null);
+  };
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [exportedBlob, setExportedBlob] = useState<Blob | null>(null);
+  const [renderIndex, setRenderIndex] = useState(0);
+  const renderRef = useRef<HTMLDivElement>(null);
+  const cancelledRef = useRef(false);
+
+  const layout = pdfPageLayout(settings);
+  const perPage = layout.slots.length;
+  const pageCount = Math.ceil(sequences.length / perPage);
+
+  const handleStartExport = useCallback(async () => {
+    setIsExporting(true);
+    setError(null);
+    setExportedBlob(null);
+    setProgress(0);
+    cancelledRef.current = false;
+
+    try {
+      const pdf = createPdfWriter('QRP Cards');
+      const background = `${BACKGROUNDS[settings.theme]} rg`;
+      const marks = settings.cropMarks ? cropMarksPdf(layout) : '';
+
+      for (let page = 0; page < pageCount; page++) {
+        const content: string[] = [];
+        const cards = sequences.slice(page * perPage, (page + 1) * perPage);
+        for (let i = 0; i < cards.length; i++) {
+          if (cancelledRef.current) return;
+          // Render the card into the hidden generator and convert its live SVG.
+          flushSync(() => setRenderIndex(page * perPage + i));
+          const svg = renderRef.current?.querySelector('svg');
+          if (!svg) throw new Error('Card SVG not found');
+          const slot = layout.slots[i];
+          const b = layout.bleed;
+          content.push(
+            'q', background,
+            `${pdfNum(slot.x - b)} ${pdfNum(slot.y - b)} ${pdfNum(slot.w + 2 * b)} ${pdfNum(slot.h + 2 * b)} re f`,
+            'Q',
+            await svgToPdf(svg, pdf, slot)
+          );
+          setProgress(((page * perPage + i + 1) / sequences.length) * 100);
+          // Let the progress bar paint between cards.
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        if (marks) content.push(marks);
+        pdf.addPage(layout.width, layout.height, content.join('\n'));
+      }
+
+      setExportedBlob(await pdf.finish());
+    } catch (err) {
+      console.error('PDF export failed', err);
+      setError(err instanceof Error ? err.message : 'Could not create the PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [sequences, settings, layout, perPage, pageCount]);
+
+  const handleDownload = useCallback(() => {
+    if (!exportedBlob) return;
+    downloadBlob(exportedBlob, `qrp-cards-${new Date().toISOString().slice(0, 10)}.pdf`);
+  }, [exportedBlob]);
+
+  const handleClose = useCallback(() => {
+    cancelledRef.current = true;
+    onClose();
+  }, [onClose]);
+
+  // Close on Escape while the modal is open.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [isOpen, handleClose]);
+
+  if (!isOpen) return null;
+
+  const segmentClass = (on: boolean) =>
+    `py-1 rounded-md text-xs font-medium transition-colors ${on ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`;
+  const selectClass = 'w-full px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+  const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+  const presetIndex = CARD_SIZE_PRESETS.findIndex(p => p.widthMm === settings.cardWidthMm && p.heightMm === settings.cardHeightMm);
+  const trim = layout.slots[0];
+  const currentSequence = sequences[renderIndex] || sequences[0];
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-md mx-4 overflow-hidden border border-slate-200 dark:border-slate-800"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pdf-export-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-500" />
+            <h2 id="pdf-export-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Export PDF
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            aria-label="Close"
+            title="Close (Esc)"
+            className="p-1 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="space-y-3">
+            {/* Paper */}
+            <div>
+              <span className={labelClass}>Page Size</span>
+              <div className="grid grid-cols-3 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Page size">
+                {(Object.keys(PAGE_SIZES) as PdfPageSize[]).map((page) => (
+                  <button
+                    key={page}
+                    role="radio"
+                    aria-checked={settings.page === page}
+                    onClick={() => updateSettings({ page })}
+                    disabled={isExporting}
+                    className={segmentClass(settings.page === page)}
+                  >
+                    {PAGE_SIZES[page].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {settings.page === 'card' ? (
+              /* One trimmed card per page */
+              <div className="space-y-2">
+                <div>
+                  <label htmlFor="pdf-card-size" className={labelClass}>Card Size</label>
+                  <select
+                    id="pdf-card-size"
+                    value={presetIndex}
+                    onChange={(e) => {
+                      const preset = CARD_SIZE_PRESETS[Number(e.target.value)];
+                      if (preset) updateSettings({ cardWidthMm: preset.widthMm, cardHeightMm: preset.heightMm });
+                    }}
+                    disabled={isExporting}
+                    className={selectClass}
+                  >
+                    {CARD_SIZE_PRESETS.map((p, i) => <option key={p.label} value={i}>{p.label}</option>)}
+                    {presetIndex < 0 && <option value={-1}>Custom</option>}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {([['cardWidthMm', 'Width'], ['cardHeightMm', 'Height']] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <label htmlFor={`pdf-${key}`} className={labelClass}>{label} (mm)</label>
+                      <input
+                        id={`pdf-${key}`}
+                        type="number"
+                        min={MIN_CARD_MM}
+                        max={MAX_CARD_MM}
+                        step={0.5}
+                        value={settings[key]}
+                        onChange={(e) => {
+                          if (!isNaN(e.target.valueAsNumber)) updateSettings({ [key]: e.target.valueAsNumber });
+                        }}
+                        disabled={isExporting}
+                        className={`${selectClass} tabular-nums`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {Math.abs(settings.cardWidthMm / settings.cardHeightMm - 4 / 7) > 0.01 && (
+                  <p className="text-[11px] text-slate-400 dark:text-slate-500">
+                    Not the 4:7 card shape: the artwork is centred and the background fills the rest.
+                  </p>
+                )}
+              </div>
+            ) : (
+              /* N-up on a sheet */
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor="pdf-per-page" className={labelClass}>Cards per Page</label>
+                  <select
+                    id="pdf-per-page"
+                    value={settings.perPage}
+                    onChange={(e) => updateSettings({ perPage: Number(e.target.value) })}
+                    disabled={isExporting}
+                    className={selectClass}
+                  >
+                    {PER_PAGE_OPTIONS.map(n => <option key={n} value={n}>{n}-up</option>)}
+                  </select>
+                </div>
+                <div>
+                  <span className={labelClass}>Orientation</span>
+                  <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Orientation">
+                    {([[false, 'Portrait'], [true, 'Landscape']] as const).map(([landscape, label]) => (
+                      <button
+                        key={label}
+                        role="radio"
+                        aria-checked={settings.landscape === landscape}
+                        onClick={() => updateSettings({ landscape })}
+                        disabled={isExporting}
+                        className={segmentClass(settings.landscape === landscape)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Bleed */}
+            <div>
+              <label htmlFor="pdf-bleed" className={labelClass}>Bleed</label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="pdf-bleed"
+                  type="range"
+                  min={0}
+                  max={MAX_BLEED_MM}
+                  step={0.5}
+                  value={settings.bleedMm}
+                  onChange={(e) => updateSettings({ bleedMm: Number(e.target.value) })}
+                  disabled={isExporting}
+                  aria-valuetext={`${settings.bleedMm} millimetres`}
+                  className="flex-1 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+                />
+                <span className="text-xs font-medium text-slate-800 dark:text-slate-200 w-12 text-center tabular-nums">
+                  {settings.bleedMm} mm
+                </span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 items-end">
+              <label className="flex items-center gap-2 py-1.5 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={settings.cropMarks}
+                  onChange={(e) => updateSettings({ cropMarks: e.target.checked })}
+                  disabled={isExporting}
+                  className="accent-blue-600"
+                />
+                Crop marks
+              </label>
+              <div>
+                <span className={labelClass}>Card Theme</span>
+                <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Card theme">
+                  {(['light', 'dark'] as const).map((theme) => (
+                    <button
+                      key={theme}
+                      role="radio"
+                      aria-checked={settings.theme === theme}
+                      onClick={() => updateSettings({ theme })}
+                      disabled={isExporting}
+                      className={`capitalize ${segmentClass(settings.theme === theme)}`}
+                    >
+                      {theme}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Export Info */}
+          <div className="space-y-2 pt-2 border-t border-slate-200 dark:border-slate-800">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">Cards:</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium">{sequences.length}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">Pages:</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium">{pageCount}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">Trimmed Card:</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium tabular-nums">
+                {(trim.w / PT_PER_MM).toFixed(1)} × {(trim.h / PT_PER_MM).toFixed(1)} mm
+              </span>
+            </div>
+          </div>
+
+          {/* Progress */}
+          {isExporting && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-500 dark:text-slate-400">Drawing card {Math.min(renderIndex + 1, sequences.length)} of {sequences.length}…</span>
+                <span className="text-slate-800 dark:text-slate-200 font-medium">{Math.round(progress)}%</span>
+              </div>
+              <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all duration-300"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-start gap-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-red-800 dark:text-red-200">Export Failed</p>
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Success */}
+          {exportedBlob && !isExporting && (
+            <div className="flex items-start gap-3 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
+              <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-green-800 dark:text-green-200">
+                  Export Complete!
+                </p>
+                <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                  PDF size: {(exportedBlob.size / 1024 / 1024).toFixed(2)} MB
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-2 p-4 border-t border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50">
+          <button
+            onClick={handleClose}
+            className="flex-1 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            {isExporting ? 'Cancel Export' : 'Close'}
+          </button>
+
+          {!exportedBlob ? (
+            <button
+              onClick={handleStartExport}
+              disabled={isExporting || sequences.length === 0}
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Exporting...
+                </>
+              ) : (
+                <>
+                  <FileText className="w-4 h-4" />
+                  Start Export
+                </>
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handleDownload}
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-green-500 rounded-lg hover:bg-green-600 transition-colors flex items-center justify-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download PDF
+            </button>
+          )}
+        </div>
+
+        {/* Hidden render container: each card is drawn here, then converted */}
+        <div
+          ref={renderRef}
+          style={{
+            position: 'absolute',
+            top: -9999,
+            left: -9999,
+            width: 1000,
+            height: 1000,
+            pointerEvents: 'none',
+            opacity: 0,
+          }}
+        >
+          {currentSequence && (
+            <QRPGenerator
+              sequence={currentSequence.data}
+              size={1000}
+              showLabels={false}
+              active={false}
+              title={currentSequence.name}
+              description={currentSequence.description}
+              exportMode={true}
+              exportTheme={settings.theme}
+              {...currentSequence.geoConfig}
+              imageSrc={currentSequence.imageSrc}
+              imageSrcDark={currentSequence.imageSrcDark}
+              imageInvert={currentSequence.imageInvert}
+              imageFrame={currentSequence.imageFrame}
+            />
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PdfExportModal;
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Play, Pause } from 'lucide-react';
+import { Play, Pause, Volume2, VolumeX } from 'lucide-react';
+import { DeckSound } from '../types';
 
 interface PlaybackControlsProps {
   isPlaying: boolean;
@@ -7,6 +8,8 @@ interface PlaybackControlsProps {
   activeIndex: number;
   sequences: { id: number; }[];
   selectSequence: (index: number) => void;
+  sound?: DeckSound;
+  onSetSound?: (sound: DeckSound) => void;
 }
 
 const PlaybackControls: React.FC<PlaybackControlsProps> = ({
@@ -14,7 +17,9 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   togglePlay,
   activeIndex,
   sequences,
-  selectSequence
+  selectSequence,
+  sound,
+  onSetSound
 }) => {
   return (
     <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4 flex flex-col sm:flex-row items-center justify-between shadow-sm gap-4 transition-colors duration-300">
@@ -31,6 +36,34 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
             <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 tracking-wider">
                 {isPlaying ? 'Playing' : 'Paused'}
             </span>
+
+            {/* Card sound: mute toggle plus a volume slider while it's on */}
+            {sound && onSetSound && (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => onSetSound({ ...sound, muted: !sound.muted })}
+                        aria-label={sound.muted ? 'Unmute card sound' : 'Mute card sound'}
+                        aria-pressed={!sound.muted}
+                        title={sound.muted ? 'Sound off' : 'Sound on'}
+                        className={`p-2 rounded-lg transition-colors ${sound.muted ? 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300' : 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30'}`}
+                    >
+                        {sound.muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                    </button>
+                    {!sound.muted && (
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={sound.volume}
+                            onChange={(e) => onSetSound({ ...sound, volume: Number(e.target.value) })}
+                            aria-label="Volume"
+                            aria-valuetext={`${Math.round(sound.volume * 100)}%`}
+                            className="w-20 accent-blue-600 dark:accent-blue-500"
+                        />
+                    )}
+                </div>
+            )}
         </div>
 
         <div className="flex gap-2 w-full sm:w-auto justify-start sm:justify-end overflow-x-auto pb-1 sm:pb-0 scrollbar-hide mask-fade">
@@ -0,0 +1,236 @@
+/**
+ * Presenter View Component
+ * The laptop side of a projected session: the current card, the next card,
+ * the current card's notes (its description), an elapsed-time clock and the
+ * playback controls. A second window (see AudienceView) mirrors the current
+ * card full screen for the room.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Presentation, ExternalLink, RotateCcw, SkipBack, SkipForward, Timer } from 'lucide-react';
+import CardTransition from './CardTransition';
+import QRPGenerator from './QRPGenerator';
+import PlaybackControls from './PlaybackControls';
+import { Sequence, Transition } from '../types';
+import { cardDurationMs } from '../utils/timing';
+import { formatElapsed } from '../utils/presenter';
+import { usePresenter } from '../hooks/usePresenter';
+
+interface PresenterViewProps {
+  sequences: Sequence[];
+  activeIndex: number;
+  isPlaying: boolean;
+  timingMs: number;
+  transition: Transition;
+  isDarkMode: boolean;
+  togglePlay: () => void;
+  selectSequence: (index: number) => void;
+  onEnd: () => void;
+}
+
+const AUDIENCE_STATUS = {
+  waiting: { label: 'Waiting for audience window', dot: 'bg-amber-500' },
+  connected: { label: 'Audience window connected', dot: 'bg-green-500' },
+  blocked: { label: 'Pop-up blocked — allow pop-ups, then open the audience window', dot: 'bg-red-500' },
+};
+
+const PresenterView: React.FC<PresenterViewProps> = ({
+  sequences,
+  activeIndex,
+  isPlaying,
+  timingMs,
+  transition,
+  isDarkMode,
+  togglePlay,
+  selectSequence,
+  onEnd
+}) => {
+  const { audience, openAudience } = usePresenter({ sequences, activeIndex, isPlaying, timingMs, transition, isDarkMode });
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  const current = sequences[activeIndex] ?? sequences[0];
+  // What plays after this card: playback wraps back to the first.
+  const nextIndex = (activeIndex + 1) % sequences.length;
+  const next = sequences.length > 1 ? sequences[nextIndex] : undefined;
+  const last = sequences.length - 1;
+  const go = (index: number) => selectSequence(Math.max(0, Math.min(last, index)));
+
+  // Opened from the Present button, so this still counts as its click.
+  useEffect(() => {
+    openAudience();
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Arrows and Page Up / Down (what presentation clickers send) step through
+  // the cards, Space plays / pauses, Escape ends presenter mode.
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT')) return;
+      if (e.key === 'ArrowRight' || e.key === 'PageDown') go(activeIndex + 1);
+      else if (e.key === 'ArrowLeft' || e.key === 'PageUp') go(activeIndex - 1);
+      else if (e.key === ' ' && el?.tagName !== 'BUTTON') togglePlay();
+      else if (e.key === 'Escape') onEnd();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const status = AUDIENCE_STATUS[audience];
+  const navButtonClass = 'p-3 rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex-shrink-0';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-slate-50 dark:bg-slate-950 flex flex-col animate-in transition-colors"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="presenter-title"
+    >
+      {/* Header: audience status, clock, window controls */}
+      <div className="flex items-center justify-between gap-4 px-4 md:px-6 py-3 bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800">
+        <div className="flex items-center gap-3 min-w-0">
+          <Presentation className="w-5 h-5 text-blue-500 flex-shrink-0" />
+          <h2 id="presenter-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">Presenter</h2>
+          <span className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400 min-w-0" aria-live="polite">
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${status.dot}`} />
+            <span className="truncate">{status.label}</span>
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2" title="Elapsed time">
+          <Timer className="w-5 h-5 text-slate-400" />
+          <span className="font-mono text-2xl tabular-nums text-slate-800 dark:text-slate-200" role="timer">
+            {formatElapsed(now - startedAt)}
+          </span>
+          <button
+            onClick={() => { setStartedAt(Date.now()); setNow(Date.now()); }}
+            aria-label="Reset clock"
+            title="Reset clock"
+            className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            <RotateCcw size={16} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={openAudience}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            title="Open (or bring back) the audience window — drag it to the projector and press F11"
+          >
+            <ExternalLink size={16} />
+            <span className="hidden sm:inline">Audience Window</span>
+          </button>
+          <button
+            onClick={onEnd}
+            aria-label="End presenter mode"
+            title="End presenter mode (Esc)"
+            className="p-2 rounded-full bg-slate-100 dark:bg-white/10 text-slate-500 dark:text-white hover:bg-slate-200 dark:hover:bg-white/20 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      {/* Now / next / notes */}
+      <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-6 p-4 md:p-6 overflow-y-auto">
+        <section className="flex flex-col items-center min-h-0" aria-label="Current card">
+          <p className="self-start text-xs font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500 mb-2">
+            Now · Card {activeIndex + 1} of {sequences.length}
+          </p>
+          <div className="w-full flex-1 flex items-center justify-center">
+            <div style={{ width: 'min(100%, (100vh - 280px) * 4 / 7)' }}>
+              <CardTransition
+                cardKey={current.id}
+                face={{
+                  sequence: current.data,
+                  name: current.name,
+                  description: current.description,
+                  geoConfig: current.geoConfig,
+                  imageSrc: current.imageSrc,
+                  imageSrcDark: current.imageSrcDark,
+                  imageInvert: current.imageInvert,
+                  imageFrame: current.imageFrame,
+                  animation: current.animation,
+                }}
+                transition={transition}
+                durationMs={cardDurationMs(current, timingMs)}
+                active={isPlaying}
+              />
+            </div>
+          </div>
+          <h3 className="mt-3 text-xl font-light text-slate-800 dark:text-slate-200 text-center">{current.name}</h3>
+        </section>
+
+        <aside className="flex flex-col gap-6 min-h-0">
+          <section aria-label="Next card">
+            <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500 mb-2">Next</p>
+            {next ? (
+              <button
+                onClick={() => go(nextIndex)}
+                className="flex items-center gap-3 w-full p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 hover:border-blue-400 dark:hover:border-blue-600 transition-colors text-left"
+                title="Go to the next card"
+              >
+                <div className="w-20 flex-shrink-0 pointer-events-none">
+                  <QRPGenerator
+                    sequence={next.data}
+                    size="100%"
+                    showLabels={false}
+                    title={next.name}
+                    description={next.description}
+                    {...next.geoConfig}
+                    imageSrc={next.imageSrc}
+                    imageSrcDark={next.imageSrcDark}
+                    imageInvert={next.imageInvert}
+                    imageFrame={next.imageFrame}
+                  />
+                </div>
+                <span className="min-w-0">
+                  <span className="block text-xs font-mono text-slate-400 dark:text-slate-500">Card {nextIndex + 1}</span>
+                  <span className="block text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{next.name}</span>
+                </span>
+              </button>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">This is the only card.</p>
+            )}
+          </section>
+
+          <section className="flex-1 min-h-0 flex flex-col" aria-label="Notes">
+            <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500 mb-2">Notes</p>
+            <div className="flex-1 min-h-[6rem] overflow-y-auto p-3 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-base leading-relaxed text-slate-700 dark:text-slate-300 whitespace-pre-wrap custom-scrollbar">
+              {current.description?.trim() || <span className="text-sm text-slate-400 dark:text-slate-500">No notes — add them in the card's description.</span>}
+            </div>
+          </section>
+        </aside>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-3 px-4 md:px-6 pb-4 md:pb-6">
+        <button onClick={() => go(activeIndex - 1)} disabled={activeIndex === 0} aria-label="Previous card" title="Previous card (←)" className={navButtonClass}>
+          <SkipBack size={20} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <PlaybackControls
+            isPlaying={isPlaying}
+            togglePlay={togglePlay}
+            activeIndex={activeIndex}
+            sequences={sequences}
+            selectSequence={selectSequence}
+          />
+        </div>
+        <button onClick={() => go(activeIndex + 1)} disabled={activeIndex === last} aria-label="Next card" title="Next card (→)" className={navButtonClass}>
+          <SkipForward size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresenterView;
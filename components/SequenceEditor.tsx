@@ -1,18 +1,28 @@
 import React, { useRef } from 'react';
-import { MAX_VALUE_PER_DIVISION } from '../constants';
-import { Minus, Plus, RotateCcw, Hash } from 'lucide-react';
+import { MAX_VALUE_PER_DIVISION, MIN_DURATION_MS, MAX_DURATION_MS } from '../constants';
+import { Minus, Plus, RotateCcw, Hash, Clock, Music } from 'lucide-react';
+import { CardSound, DeckSound, SoundVoice } from '../types';
+import { NOTE_OPTIONS, SOUND_VOICES, cardFrequency, normalizeCardSound, noteName, soundVoiceLabel } from '../utils/audio';
 
 interface SequenceEditorProps {
   name: string;
   description?: string;
   sequence: number[];
-  onChange: (updates: { data?: number[], name?: string, description?: string }) => void;
+  durationMs?: number;
+  // Deck-wide timing, used (and shown) while the card has no duration of its own
+  defaultDurationMs?: number;
+  sound?: CardSound;
+  // Deck sound settings, followed by whatever the card leaves unset
+  deckSound?: DeckSound;
+  onChange: (updates: { data?: number[], name?: string, description?: string, durationMs?: number, sound?: CardSound }) => void;
   onSetLength?: (length: number) => void;
 }
 
-const SequenceEditor: React.FC<SequenceEditorProps> = ({ name, description, sequence, onChange, onSetLength }) => {
+const SequenceEditor: React.FC<SequenceEditorProps> = ({ name, description, sequence, durationMs, defaultDurationMs, sound, deckSound, onChange, onSetLength }) => {
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
+  const updateSound = (patch: CardSound) => onChange({ sound: normalizeCardSound({ ...sound, ...patch }) });
+
   const handleValueChange = (index: number, delta: number) => {
     const newSeq = [...sequence];
     const val = newSeq[index] + delta;
@@ -162,6 +172,67 @@ const SequenceEditor: React.FC<SequenceEditorProps> = ({ name, description, sequ
         </div>
       )}
 
+      {/* Display duration — overrides the deck timing for this card only */}
+      {defaultDurationMs !== undefined && (
+        <div className="flex items-center gap-3 mb-3">
+            <label htmlFor="card-duration" className="flex items-center gap-1.5 text-xs font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                <Clock size={12} /> Duration
+            </label>
+            <input
+                id="card-duration"
+                type="range"
+                min={MIN_DURATION_MS}
+                max={MAX_DURATION_MS}
+                step={100}
+                value={durationMs ?? defaultDurationMs}
+                onChange={(e) => onChange({ durationMs: Number(e.target.value) })}
+                aria-valuetext={`${((durationMs ?? defaultDurationMs) / 1000).toFixed(1)} seconds${durationMs === undefined ? ' (deck timing)' : ''}`}
+                className={`flex-1 min-w-0 accent-blue-600 dark:accent-blue-500 ${durationMs === undefined ? 'opacity-50' : ''}`}
+            />
+            <span className={`text-xs font-mono w-10 text-right tabular-nums ${durationMs === undefined ? 'text-slate-400 dark:text-slate-500' : 'text-slate-700 dark:text-slate-300'}`}>
+                {((durationMs ?? defaultDurationMs) / 1000).toFixed(1)}s
+            </span>
+            <button
+                onClick={() => onChange({ durationMs: undefined })}
+                disabled={durationMs === undefined}
+                aria-label="Use the deck timing for this card"
+                title={durationMs === undefined ? 'Using the deck timing' : 'Use the deck timing'}
+                className="text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 disabled:opacity-30 disabled:hover:text-slate-400 transition-colors"
+            >
+                <RotateCcw size={12} />
+            </button>
+        </div>
+      )}
+
+      {/* Playback sound — unset fields follow the deck, pitch defaults to the steps */}
+      {deckSound && (
+        <div className="flex items-center gap-3 mb-3">
+            <label htmlFor="card-sound" className="flex items-center gap-1.5 text-xs font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                <Music size={12} /> Sound
+            </label>
+            <select
+                id="card-sound"
+                value={sound?.voice ?? ''}
+                onChange={(e) => updateSound({ voice: (e.target.value || undefined) as SoundVoice | undefined })}
+                className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+                <option value="">Deck ({soundVoiceLabel(deckSound.voice)})</option>
+                {SOUND_VOICES.map(({ voice, label }) => (
+                    <option key={voice} value={voice}>{label}</option>
+                ))}
+            </select>
+            <select
+                value={sound?.hz ?? ''}
+                onChange={(e) => updateSound({ hz: e.target.value ? Number(e.target.value) : undefined })}
+                aria-label="Card pitch"
+                className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+                <option value="">From steps ({noteName(cardFrequency({ data: sequence }, deckSound.baseHz))})</option>
+                {NOTE_OPTIONS.map(n => <option key={n.hz} value={n.hz}>{n.label}</option>)}
+            </select>
+        </div>
+      )}
+
       {/* Sequence Grid */}
       <div className={`grid ${gridClass} gap-2`}>
         {sequence.map((val, i) => {
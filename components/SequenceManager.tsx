@@ -1,15 +1,30 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { flushSync } from 'react-dom';
 import SequenceEditor from './SequenceEditor';
 import QRPGenerator from './QRPGenerator';
 import VideoExportModal from './VideoExportModal';
-import { RefreshCw, Plus, Trash2, List, GripVertical, ChevronUp, ChevronDown, Copy, ImageDown, Images, Image as ImageIcon, Upload, Film, Contrast, Frame, LayoutGrid } from 'lucide-react';
-import { Sequence } from '../types';
-import { compressConfig, decompressConfig } from '../utils/compression';
-import { writePngMetadata, readPngMetadata } from '../utils/png';
+import PdfExportModal from './PdfExportModal';
+import ContactSheetModal from './ContactSheetModal';
+import CsvImportModal from './CsvImportModal';
+import { RefreshCw, Plus, Trash2, List, GripVertical, ChevronUp, ChevronDown, Copy, ImageDown, Images, Image as ImageIcon, Upload, Film, Contrast, Frame, LayoutGrid, FileText, FileCode, FolderArchive, LayoutDashboard, FileSpreadsheet, Sheet } from 'lucide-react';
+import { DeckSound, Sequence, SoundVoice, Transition, TransitionType } from '../types';
+import { MIN_DURATION_MS, MAX_DURATION_MS } from '../constants';
+import { TRANSITION_OPTIONS, MIN_TRANSITION_MS, MAX_TRANSITION_MS } from '../utils/transitions';
+import { SOUND_VOICES, TONE_BASES, MIN_SOUND_XFADE_MS, MAX_SOUND_XFADE_MS } from '../utils/audio';
+import { compressConfig, decompressShareConfig } from '../utils/compression';
+import { stampDeck, validateDeck } from '../utils/deckSchema';
+import { writePngMetadata, writePngText, readPngText, PNG_DECK_KEY } from '../utils/png';
+import { STORAGE_KEYS, loadStored, saveStored } from '../utils/storage';
+import { standaloneSvg, readSvgMetadata } from '../utils/svgExport';
+import { downloadBlob } from '../utils/download';
+import { deckToCsv } from '../utils/csv';
+import { createZipWriter } from '../utils/zip';
 import { useToast } from './ui/Toast';
 import { lobeIcon, lobeColorClass } from './icons/LobeIcons';
 import LibraryModal from './LibraryModal';
 import { libraryImageUrl } from '../utils/library';
+import StorageMeter from './ui/StorageMeter';
+import { StorageStatus } from '../hooks/useSequencer';
 
 interface SequenceManagerProps {
   sequences: Sequence[];
@@ -17,6 +32,10 @@ interface SequenceManagerProps {
   isPlaying: boolean;
   timingMs: number;
   onSetTimingMs?: (ms: number) => void;
+  transition?: Transition;
+  onSetTransition?: (transition: Transition) => void;
+  sound?: DeckSound;
+  onSetSound?: (sound: DeckSound) => void;
   onUpdate: (id: number, updates: Partial<Sequence>) => void;
   onReset: () => void;
   onAdd: () => void;
@@ -25,17 +44,41 @@ interface SequenceManagerProps {
   onSelect: (index: number) => void;
   onReorder?: (from: number, to: number) => void;
   isDarkMode?: boolean;
-  onImportSequence?: (seq: Sequence) => void;
+  onImportSequence?: (seq: Sequence | Sequence[]) => void;
   onAddImageSequences?: (images: { src: string; name?: string }[]) => void;
   onSetSequenceLength?: (length: number) => void;
+  storage?: StorageStatus;
+  deckName?: string;
 }
 
+// The saved card from a PNG's full-deck chunk, if it has one.
+const deckCardFrom = (json: string | undefined): Sequence | null => {
+  if (!json) return null;
+  try {
+    const deck = JSON.parse(json);
+    const card = Array.isArray(deck.sequences) ? deck.sequences.find((s: Sequence) => s?.id === deck.card) : undefined;
+    if (!card) return null;
+    const { deck: checked, issues } = validateDeck({ ...deck, sequences: [card] });
+    if (issues.length > 0) console.warn('Repaired while loading:', issues);
+    return checked?.sequences[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Card name as a file name: "My Card" -> "my_card".
+const fileSlug = (name: string) => name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
 const SequenceManager: React.FC<SequenceManagerProps> = ({
   sequences,
   activeId,
   isPlaying,
   timingMs,
   onSetTimingMs,
+  transition,
+  onSetTransition,
+  sound,
+  onSetSound,
   onUpdate,
   onReset,
   onAdd,
@@ -46,7 +89,9 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
   isDarkMode = false,
   onImportSequence,
   onAddImageSequences,
-  onSetSequenceLength
+  onSetSequenceLength,
+  storage,
+  deckName
 }) => {
   const { showToast } = useToast();
   const activeSequence = sequences.find(s => s.id === activeId);
@@ -57,8 +102,20 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [isExportingSvg, setIsExportingSvg] = useState(false);
+  const [embedDeck, setEmbedDeck] = useState(() => loadStored<unknown>(STORAGE_KEYS.pngEmbedDeck, false) === true);
+  // Export All: cards done so far (null when idle), and the card the hidden
+  // generator shows instead of the active one while it runs.
+  const [exportAllProgress, setExportAllProgress] = useState<number | null>(null);
+  const [exportAllTheme, setExportAllTheme] = useState<'light' | 'dark' | 'both'>(isDarkMode ? 'dark' : 'light');
+  const [exportOverride, setExportOverride] = useState<{ sequence: Sequence; dark: boolean } | null>(null);
+  const exportCard = exportOverride?.sequence ?? activeSequence;
+  const exportDark = exportOverride ? exportOverride.dark : isDarkMode;
   const [isLoadingImages, setIsLoadingImages] = useState(false);
   const [showVideoExport, setShowVideoExport] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [showContactSheet, setShowContactSheet] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
   const [showLibrary, setShowLibrary] = useState(false);
 
   // Auto-scroll to active item — only when it's actually outside the list's
@@ -102,13 +159,16 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
     setDragOverIndex(null);
   };
 
-  const handleExportPng = async () => {
-    if (!activeSequence || !exportRef.current) return;
-    setIsExporting(true);
-
-    try {
-        const svgElement = exportRef.current.querySelector('svg');
-        if (!svgElement) throw new Error("SVG not found");
+  // Rasterises the card currently in the hidden export generator to a square
+  // PNG tagged with that card's QRPConfig. Shared by Save Card and Export All.
+  // With `withDeck`, the whole deck (images included) rides along in a
+  // compressed chunk beside the single-card QRPConfig.
+  const renderExportPng = (seq: Sequence, dark: boolean, withDeck = false) => new Promise<Blob>((resolve, reject) => {
+        const svgElement = exportRef.current?.querySelector('svg');
+        if (!svgElement) {
+            reject(new Error("SVG not found"));
+            return;
+        }
 
         // 1. Serialize SVG
         const serializer = new XMLSerializer();
@@ -135,10 +195,13 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
         canvas.width = EXPORT_SIZE;
         canvas.height = EXPORT_SIZE;
         const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+        if (!ctx) {
+            reject(new Error("Canvas unavailable"));
+            return;
+        }
 
         // Background
-        ctx.fillStyle = isDarkMode ? "#0f172a" : "#ffffff";
+        ctx.fillStyle = dark ? "#0f172a" : "#ffffff";
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
         // 3. Create Image from Blob
@@ -146,7 +209,7 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
         const svgBlob = new Blob([source], {type: "image/svg+xml;charset=utf-8"});
         const url = URL.createObjectURL(svgBlob);
 
-        img.onload = async () => {
+        img.onload = () => {
             // 4. Calculate Aspect Ratio Preserving Draw
             // SVG is 400x700 (approx 0.57 aspect)
             // Canvas is 1000x1000 (1.0 aspect)
@@ -163,39 +226,129 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
             // feColorMatrix filter on the <image> when exportTheme is dark and
             // the card opts in), so no canvas filter is needed here.
             ctx.drawImage(img, xOffset, yOffset, targetWidth, targetHeight);
+            URL.revokeObjectURL(url);
 
             // 5. Get PNG & Inject Metadata
             canvas.toBlob(async (blob) => {
-                if (!blob) return;
-                
-                const configString = compressConfig(activeSequence.geoConfig, [activeSequence]);
-                const buffer = await blob.arrayBuffer();
-                const taggedBlob = writePngMetadata(buffer, "QRPConfig", configString);
-
-                const downloadUrl = URL.createObjectURL(taggedBlob);
-                const a = document.createElement('a');
-                a.href = downloadUrl;
-                a.download = `${activeSequence.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.png`;
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-                URL.revokeObjectURL(downloadUrl);
-                URL.revokeObjectURL(url);
-                setIsExporting(false);
-                showToast('Card saved as PNG', { type: 'success' });
+                if (!blob) {
+                    reject(new Error("PNG encoding failed"));
+                    return;
+                }
+                try {
+                    const configString = compressConfig(seq.geoConfig, [seq]);
+                    const buffer = await blob.arrayBuffer();
+                    if (!withDeck) {
+                        resolve(writePngMetadata(buffer, "QRPConfig", configString));
+                        return;
+                    }
+                    // Same shape as Save Config, plus which card this image shows.
+                    const deck = stampDeck({ name: deckName, sequences, timingMs, transition, sound, card: seq.id });
+                    resolve(await writePngText(buffer, [
+                        { key: "QRPConfig", value: configString },
+                        { key: PNG_DECK_KEY, value: JSON.stringify(deck), compress: true },
+                    ]));
+                } catch (err) {
+                    // e.g. CompressionStream failing; settle so the caller's busy state ends.
+                    reject(err);
+                }
             }, 'image/png');
         };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Could not render the card"));
+        };
 
         // Trigger load
         img.src = url;
+  });
 
+  const handleExportPng = async () => {
+    if (!activeSequence || !exportRef.current) return;
+    setIsExporting(true);
+
+    try {
+        const taggedBlob = await renderExportPng(activeSequence, isDarkMode, embedDeck);
+        downloadBlob(taggedBlob, `${fileSlug(activeSequence.name)}.png`);
+        showToast('Card saved as PNG', { type: 'success' });
     } catch (e) {
         console.error("Export failed", e);
         showToast('Could not create the image', { type: 'error' });
+    } finally {
         setIsExporting(false);
     }
   };
 
+  // Every card, one PNG per chosen theme, packed into a ZIP with a deck.json
+  // manifest. Each card is swapped into the hidden generator in turn.
+  const handleExportAll = async () => {
+    if (!exportRef.current || sequences.length === 0) return;
+    const themes = exportAllTheme === 'both' ? [false, true] : [exportAllTheme === 'dark'];
+    const pad = String(sequences.length).length;
+    const zip = createZipWriter();
+    const cards: { name: string; files: string[] }[] = [];
+    setExportAllProgress(0);
+
+    try {
+        for (let i = 0; i < sequences.length; i++) {
+            const seq = sequences[i];
+            const files: string[] = [];
+            for (const dark of themes) {
+                flushSync(() => setExportOverride({ sequence: seq, dark }));
+                const suffix = themes.length > 1 ? (dark ? '-dark' : '-light') : '';
+                const file = `cards/${String(i + 1).padStart(pad, '0')}-${fileSlug(seq.name)}${suffix}.png`;
+                await zip.add(file, await renderExportPng(seq, dark));
+                files.push(file);
+            }
+            cards.push({ name: seq.name, files });
+            setExportAllProgress(i + 1);
+        }
+
+        // Loads back through Load Config like a saved deck; `cards` maps the files.
+        const manifest = stampDeck({ name: deckName, sequences, timingMs, transition, sound, cards });
+        await zip.add('deck.json', JSON.stringify(manifest, null, 2));
+        const slug = fileSlug(deckName ?? '').replace(/_+/g, '_');
+        downloadBlob(zip.finish(), `${slug || 'qrp'}_cards.zip`);
+        showToast(`Exported ${sequences.length} card${sequences.length === 1 ? '' : 's'}`, { type: 'success' });
+    } catch (e) {
+        console.error("Batch export failed", e);
+        showToast('Could not export the cards', { type: 'error' });
+    } finally {
+        setExportOverride(null);
+        setExportAllProgress(null);
+    }
+  };
+  // Self-contained vector copy of the card (fonts, images and config inside).
+  const handleExportSvg = async () => {
+    if (!activeSequence || !exportRef.current) return;
+    const svgElement = exportRef.current.querySelector('svg');
+    if (!svgElement) return;
+    setIsExportingSvg(true);
+    try {
+        const source = await standaloneSvg(svgElement, {
+            config: compressConfig(activeSequence.geoConfig, [activeSequence]),
+            background: isDarkMode ? "#0f172a" : "#ffffff",
+            title: activeSequence.name,
+        });
+        downloadBlob(
+            new Blob([source], { type: 'image/svg+xml;charset=utf-8' }),
+            `${fileSlug(activeSequence.name)}.svg`
+        );
+        showToast('Card saved as SVG', { type: 'success' });
+    } catch (e) {
+        console.error("SVG export failed", e);
+        showToast('Could not create the SVG', { type: 'error' });
+    } finally {
+        setIsExportingSvg(false);
+    }
+  };
+
+  // The deck as a spreadsheet (the columns the CSV import reads back).
+  const handleExportCsv = () => {
+    const slug = fileSlug(deckName ?? '').replace(/_+/g, '_');
+    downloadBlob(new Blob([deckToCsv(sequences)], { type: 'text/csv;charset=utf-8' }), `${slug || 'qrp'}_cards.csv`);
+    showToast(`Exported ${sequences.length} card${sequences.length === 1 ? '' : 's'} as CSV`, { type: 'success' });
+  };
+
   const handleImportClick = () => {
       fileInputRef.current?.click();
   };
@@ -272,18 +425,27 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0]) {
           const file = e.target.files[0];
+          // Cards come back from either export: PNG (tEXt chunk) or SVG (<metadata>).
+          const isSvg = file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
           const reader = new FileReader();
-          reader.onload = (ev) => {
+          reader.onload = async (ev) => {
               if (ev.target?.result && onImportSequence) {
-                  const buffer = ev.target.result as ArrayBuffer;
-                  const metadata = readPngMetadata(buffer, "QRPConfig");
+                  const texts = isSvg ? null : await readPngText(ev.target.result as ArrayBuffer);
+                  // A PNG saved with its deck has the card losslessly (images included).
+                  const deckCard = deckCardFrom(texts?.get(PNG_DECK_KEY));
+                  if (deckCard) {
+                      onImportSequence(deckCard);
+                      showToast('Imported 1 card', { type: 'success' });
+                      return;
+                  }
+                  const metadata = isSvg
+                      ? readSvgMetadata(ev.target.result as string)
+                      : texts?.get("QRPConfig") ?? null;
                   if (metadata) {
-                      const decoded = decompressConfig(metadata);
+                      const decoded = await decompressShareConfig(metadata);
                       if (decoded && decoded.sequences.length > 0) {
                           // Import all sequences found in the card (usually 1)
-                          decoded.sequences.forEach(seq => {
-                              onImportSequence(seq);
-                          });
+                          onImportSequence(decoded.sequences);
                           showToast(`Imported ${decoded.sequences.length} card${decoded.sequences.length === 1 ? '' : 's'}`, { type: 'success' });
                       } else {
                           showToast('No valid configuration in that image', { type: 'error' });
@@ -293,7 +455,8 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                   }
               }
           };
-          reader.readAsArrayBuffer(file);
+          if (isSvg) reader.readAsText(file);
+          else reader.readAsArrayBuffer(file);
       }
       // Reset input
       if (fileInputRef.current) fileInputRef.current.value = '';
@@ -370,6 +533,13 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                             }`}
                         />
 
+                        {/* Own display duration, when it differs from the deck timing */}
+                        {seq.durationMs !== undefined && (
+                            <span className="text-[10px] font-mono text-slate-400 dark:text-slate-500 flex-shrink-0 tabular-nums" title="Card duration">
+                                {(seq.durationMs / 1000).toFixed(1)}s
+                            </span>
+                        )}
+
                         {/* Keyboard/touch reorder — works without drag-and-drop */}
                         {onReorder && (
                             <div className="flex flex-col flex-shrink-0 opacity-60 group-hover:opacity-100 transition-opacity">
@@ -414,8 +584,8 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                 <input
                     id="card-timing"
                     type="range"
-                    min={200}
-                    max={30000}
+                    min={MIN_DURATION_MS}
+                    max={MAX_DURATION_MS}
                     step={100}
                     value={timingMs}
                     onChange={(e) => onSetTimingMs(Number(e.target.value))}
@@ -426,6 +596,77 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
             </div>
         )}
 
+        {/* Card-to-card transition (live playback and video export) */}
+        {transition && onSetTransition && (
+            <div className="flex items-center gap-3">
+                <label htmlFor="card-transition" className="text-xs font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap">Transition</label>
+                <select
+                    id="card-transition"
+                    value={transition.type}
+                    onChange={(e) => onSetTransition({ ...transition, type: e.target.value as TransitionType })}
+                    className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                    {TRANSITION_OPTIONS.map(({ type, label }) => (
+                        <option key={type} value={type}>{label}</option>
+                    ))}
+                </select>
+                {transition.type !== 'none' && (
+                    <>
+                        <input
+                            type="range"
+                            min={MIN_TRANSITION_MS}
+                            max={MAX_TRANSITION_MS}
+                            step={50}
+                            value={transition.durationMs}
+                            onChange={(e) => onSetTransition({ ...transition, durationMs: Number(e.target.value) })}
+                            aria-label="Transition length"
+                            aria-valuetext={`${(transition.durationMs / 1000).toFixed(2)} seconds`}
+                            className="flex-1 min-w-0 accent-blue-600 dark:accent-blue-500"
+                        />
+                        <span className="text-xs font-mono text-slate-700 dark:text-slate-300 w-12 text-right tabular-nums">{(transition.durationMs / 1000).toFixed(2)}s</span>
+                    </>
+                )}
+            </div>
+        )}
+
+        {/* Card sound during playback; cards can override the voice and pitch */}
+        {sound && onSetSound && (
+            <div className="flex items-center gap-3">
+                <label htmlFor="deck-sound" className="text-xs font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap">Sound</label>
+                <select
+                    id="deck-sound"
+                    value={sound.voice}
+                    onChange={(e) => onSetSound({ ...sound, voice: e.target.value as SoundVoice })}
+                    className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                    {SOUND_VOICES.map(({ voice, label }) => (
+                        <option key={voice} value={voice}>{label}</option>
+                    ))}
+                </select>
+                <select
+                    value={sound.baseHz}
+                    onChange={(e) => onSetSound({ ...sound, baseHz: Number(e.target.value) })}
+                    aria-label="Lowest note of the card scale"
+                    className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                    {TONE_BASES.map(b => <option key={b.hz} value={b.hz}>{b.label}</option>)}
+                </select>
+                <input
+                    type="range"
+                    min={MIN_SOUND_XFADE_MS}
+                    max={MAX_SOUND_XFADE_MS}
+                    step={10}
+                    value={sound.crossfadeMs}
+                    onChange={(e) => onSetSound({ ...sound, crossfadeMs: Number(e.target.value) })}
+                    aria-label="Sound crossfade"
+                    aria-valuetext={`${(sound.crossfadeMs / 1000).toFixed(2)} seconds`}
+                    title="Crossfade between cards"
+                    className="flex-1 min-w-0 accent-blue-600 dark:accent-blue-500"
+                />
+                <span className="text-xs font-mono text-slate-700 dark:text-slate-300 w-12 text-right tabular-nums">{(sound.crossfadeMs / 1000).toFixed(2)}s</span>
+            </div>
+        )}
+
         <hr className="border-slate-100 dark:border-slate-800" />
 
         {/* Active Editor */}
@@ -435,6 +676,10 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                     name={activeSequence.name}
                     description={activeSequence.description}
                     sequence={activeSequence.data}
+                    durationMs={activeSequence.durationMs}
+                    defaultDurationMs={timingMs}
+                    sound={activeSequence.sound}
+                    deckSound={sound}
                     onChange={(updates) => onUpdate(activeSequence.id, updates)}
                     onSetLength={onSetSequenceLength}
                 />
@@ -448,7 +693,7 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                             type="file"
                             ref={fileInputRef}
                             onChange={handleFileChange}
-                            accept="image/png"
+                            accept="image/png,image/svg+xml,.svg"
                             className="hidden"
                         />
                     )}
@@ -500,11 +745,21 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                                 <button
                                     onClick={handleImportClick}
                                     className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
-                                    title="Import a card from a QRP PNG"
+                                    title="Import a card from a QRP PNG or SVG"
                                 >
                                     <Upload size={16} /> Import Card
                                 </button>
                             )}
+
+                            {onImportSequence && (
+                                <button
+                                    onClick={() => setShowCsvImport(true)}
+                                    className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                                    title="Add one card per row of a CSV / TSV rate list"
+                                >
+                                    <Sheet size={16} /> Import CSV
+                                </button>
+                            )}
                         </div>
 
                         {/* Image-card display options */}
@@ -588,6 +843,93 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                             >
                                 <Film size={16} /> Export Video
                             </button>
+
+                            <button
+                                onClick={handleExportSvg}
+                                disabled={isExportingSvg}
+                                className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                                title="Save this card as a self-contained SVG"
+                            >
+                                {isExportingSvg ? (
+                                    <><RefreshCw size={16} className="animate-spin" /> Saving…</>
+                                ) : (
+                                    <><FileCode size={16} /> Save SVG</>
+                                )}
+                            </button>
+
+                            <button
+                                onClick={() => setShowPdfExport(true)}
+                                className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                                title="Export every card as a printable vector PDF"
+                            >
+                                <FileText size={16} /> Print PDF
+                            </button>
+
+                            <button
+                                onClick={() => setShowContactSheet(true)}
+                                className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                                title="Export the whole deck as one labelled thumbnail grid"
+                            >
+                                <LayoutDashboard size={16} /> Contact Sheet
+                            </button>
+
+                            <button
+                                onClick={handleExportCsv}
+                                className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                                title="Save every card's name, description, digits and preset as a spreadsheet"
+                            >
+                                <FileSpreadsheet size={16} /> Export CSV
+                            </button>
+                        </div>
+
+                        <label
+                            className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-300"
+                            title="Save Card also stores the whole deck, images included, so the PNG can restore it"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={embedDeck}
+                                onChange={(e) => {
+                                    setEmbedDeck(e.target.checked);
+                                    saveStored(STORAGE_KEYS.pngEmbedDeck, e.target.checked);
+                                }}
+                                className="accent-blue-600"
+                            />
+                            Embed the whole deck in saved PNGs
+                        </label>
+
+                        {/* Export All: every card as PNGs in one ZIP */}
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <div className="grid grid-cols-3 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Export all themes">
+                                {(['light', 'dark', 'both'] as const).map((theme) => (
+                                    <button
+                                        key={theme}
+                                        role="radio"
+                                        aria-checked={exportAllTheme === theme}
+                                        onClick={() => setExportAllTheme(theme)}
+                                        disabled={exportAllProgress !== null}
+                                        className={`py-1 rounded-md text-[11px] font-medium capitalize transition-colors ${
+                                            exportAllTheme === theme
+                                                ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm'
+                                                : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                                        }`}
+                                    >
+                                        {theme}
+                                    </button>
+                                ))}
+                            </div>
+                            <button
+                                onClick={handleExportAll}
+                                disabled={exportAllProgress !== null}
+                                className="flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                                title="Save every card as a PNG, zipped with a deck.json manifest"
+                            >
+                                {exportAllProgress !== null ? (
+                                    <><RefreshCw size={16} className="animate-spin" /> {exportAllProgress}/{sequences.length}</>
+                                ) : (
+                                    <><FolderArchive size={16} /> Export All</>
+                                )}
+                            </button>
                         </div>
                     </div>
                 </div>
@@ -598,34 +940,71 @@ const SequenceManager: React.FC<SequenceManagerProps> = ({
                     style={{ position: 'absolute', top: -9999, left: -9999, width: 1000, height: 1000, pointerEvents: 'none' }}
                 >
                     <QRPGenerator
-                        sequence={activeSequence.data}
+                        sequence={exportCard.data}
                         size={1000}
                         showLabels={false}
                         active={false}
-                        title={activeSequence.name}
-                        description={activeSequence.description}
+                        title={exportCard.name}
+                        description={exportCard.description}
                         exportMode={true}
-                        exportTheme={isDarkMode ? 'dark' : 'light'} // Dynamic Export Theme
-                        {...activeSequence.geoConfig}
-                        imageSrc={activeSequence.imageSrc}
-                        imageSrcDark={activeSequence.imageSrcDark}
-                        imageInvert={activeSequence.imageInvert}
-                        imageFrame={activeSequence.imageFrame}
+                        exportTheme={exportDark ? 'dark' : 'light'} // Dynamic Export Theme
+                        {...exportCard.geoConfig}
+                        imageSrc={exportCard.imageSrc}
+                        imageSrcDark={exportCard.imageSrcDark}
+                        imageInvert={exportCard.imageInvert}
+                        imageFrame={exportCard.imageFrame}
                     />
                 </div>
 
             </div>
         )}
 
+        {/* Where the deck is kept — warns before the browser quota is hit */}
+        {storage && <StorageMeter storage={storage} />}
+
         {/* Video Export Modal */}
         <VideoExportModal
             isOpen={showVideoExport}
             onClose={() => setShowVideoExport(false)}
             sequences={sequences}
             timingMs={timingMs}
+            transition={transition}
             isDarkMode={isDarkMode}
         />
 
+        {/* Printable PDF Modal */}
+        <PdfExportModal
+            isOpen={showPdfExport}
+            onClose={() => setShowPdfExport(false)}
+            sequences={sequences}
+        />
+
+        {/* Deck overview (contact sheet) Modal */}
+        <ContactSheetModal
+            isOpen={showContactSheet}
+            onClose={() => setShowContactSheet(false)}
+            sequences={sequences}
+            deckName={deckName}
+            timingMs={timingMs}
+            transition={transition}
+        />
+
+        {/* Spreadsheet import — one card per row */}
+        {onImportSequence && (
+            <CsvImportModal
+                isOpen={showCsvImport}
+                onClose={() => setShowCsvImport(false)}
+                baseGeoConfig={(activeSequence ?? sequences[0]).geoConfig}
+                onImport={(cards, skipped) => {
+                    onImportSequence(cards);
+                    showToast(
+                        `Imported ${cards.length} card${cards.length === 1 ? '' : 's'}${skipped ? ` — skipped ${skipped} row${skipped === 1 ? '' : 's'} with errors` : ''}`,
+                        { type: skipped ? 'info' : 'success' }
+                    );
+                }}
+            />
+        )}
+
         {/* Resource Library — add curated cards as image cards */}
         {showLibrary && (
             <LibraryModal
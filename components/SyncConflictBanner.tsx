@@ -0,0 +1,61 @@
+/**
+ * Sync Conflict Banner Component
+ * Shown when another tab changed the open deck in a way that could not be
+ * merged with the edits here (or deleted it). Nothing is saved from this tab
+ * until the user picks a side.
+ */
+
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { SyncConflict } from '../utils/tabSync';
+
+interface SyncConflictBannerProps {
+  conflict: SyncConflict;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+}
+
+const SyncConflictBanner: React.FC<SyncConflictBannerProps> = ({ conflict, onKeepMine, onTakeTheirs }) => {
+  const edited = conflict.kind === 'edited';
+  const buttonClass = 'px-3 py-1.5 rounded-md text-sm font-medium transition-colors';
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800"
+    >
+      <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0" />
+      <div className="flex-1 min-w-0 text-sm text-amber-800 dark:text-amber-300">
+        {edited ? (
+          <>
+            <p className="font-medium">This deck was changed in another tab too.</p>
+            <p className="text-xs text-amber-700 dark:text-amber-400 truncate" title={conflict.conflicts.join(', ')}>
+              Both tabs changed {conflict.conflicts.join(', ')}. Your changes here are not saved until you choose.
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="font-medium">This deck was deleted in another tab.</p>
+            <p className="text-xs text-amber-700 dark:text-amber-400">Keep it to save it again from this tab.</p>
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <button
+          onClick={onTakeTheirs}
+          className={`${buttonClass} text-slate-600 dark:text-slate-300 hover:bg-amber-100 dark:hover:bg-amber-900/40`}
+        >
+          {edited ? 'Load theirs' : 'Open another deck'}
+        </button>
+        <button
+          onClick={onKeepMine}
+          className={`${buttonClass} bg-blue-600 hover:bg-blue-700 text-white`}
+        >
+          {edited ? 'Keep mine' : 'Keep it'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictBanner;
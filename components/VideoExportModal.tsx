@@ -1,20 +1,41 @@
 /**
  * Video Export Modal Component
- * Provides UI for exporting sequences as MP4 video
+ * Provides UI for exporting sequences as MP4/WebM video (optionally with a
+ * soundtrack) or a looping GIF/APNG
  */
 
 import React, { useEffect, useCallback, useRef, useState } from 'react';
 import { flushSync, createPortal } from 'react-dom';
-import { X, Film, Download, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
-import { Sequence } from '../types';
-import { useVideoExport, isWebCodecsSupported, downloadVideo } from '../hooks/useVideoExport';
+import { X, Film, Download, Loader2, AlertCircle, CheckCircle, RotateCcw, RotateCw, Music, Upload } from 'lucide-react';
+import type { VideoCodec } from 'mediabunny';
+import { GeoConfig, Sequence, Transition } from '../types';
+import { deckDurationMs } from '../utils/timing';
+import { DEFAULT_TRANSITION, canMorph, drawTransition, easeInOut, tweenGeoConfig } from '../utils/transitions';
+import { animatedGeoConfig, hasAnimation } from '../utils/keyframes';
+import {
+  ASPECT_RATIOS, FRAME_RATES, MAX_BITRATE_MBPS, MAX_VIDEO_SIDE, MIN_BITRATE_MBPS, MIN_VIDEO_SIDE, QUALITY_OPTIONS,
+  RESOLUTIONS, VIDEO_CODEC_LABELS, VIDEO_FORMATS, VideoExportSettings, VideoFormat, cardRect, isAnimatedImage, clampVideoSide, normalizeVideoSettings,
+  rotationPerFrame, sizeFor,
+} from '../utils/videoSettings';
+import { STORAGE_KEYS, loadStored, saveStored } from '../utils/storage';
+import { compressConfig } from '../utils/compression';
+import {
+  AUDIO_LOOP_OPTIONS, AudioScene, AudioSourceKind, DEFAULT_EXPORT_AUDIO, ExportAudioSettings, TONE_BASES,
+  decodeAudioFile, renderExportAudio,
+} from '../utils/audio';
+import { useVideoExport, isWebCodecsSupported, getEncodableCodecs } from '../hooks/useVideoExport';
+import { downloadBlob } from '../utils/download';
 import QRPGenerator from './QRPGenerator';
 
+// A scene of the video: a deck card, or the generated intro / outro title card.
+type VideoScene = Sequence & { isIntro?: boolean; isOutro?: boolean };
+
 interface VideoExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   sequences: Sequence[];
   timingMs: number;
+  transition?: Transition;
   isDarkMode: boolean;
 }
 
@@ -23,8 +44,23 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
   onClose,
   sequences,
   timingMs,
+  transition = DEFAULT_TRANSITION,
   isDarkMode,
 }) => {
+  const [settings, setSettings] = useState<VideoExportSettings>(() =>
+    normalizeVideoSettings(loadStored(STORAGE_KEYS.videoExport, null))
+  );
+  const updateSettings = (patch: Partial<VideoExportSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveStored(STORAGE_KEYS.videoExport, next);
+      return next;
+    });
+  };
+  // Codecs the browser reports it can encode at the chosen size (null while probing).
+  const [encodableCodecs, setEncodableCodecs] = useState<VideoCodec[] | null>(null);
+  const [customSize, setCustomSize] = useState(false);
+
   const {
     isExporting,
     progress,
@@ -33,13 +69,14 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
     exportVideo,
     cancelExport,
     resetState,
-  } = useVideoExport({ width: 1000, height: 1000 });
+  } = useVideoExport(settings);
 
   const [exportedBlob, setExportedBlob] = useState<Blob | null>(null);
   const [currentSequenceIndex, setCurrentSequenceIndex] = useState(0);
   const [isIntroFrame, setIsIntroFrame] = useState(false);
   const [isOutroFrame, setIsOutroFrame] = useState(false);
   const [animationRotation, setAnimationRotation] = useState(0);
+  const [geoOverride, setGeoOverride] = useState<GeoConfig | null>(null); // keyframed / morphing geometry for this frame
   const renderRef = useRef<HTMLDivElement>(null);
   const rotationRef = useRef(0); // Use ref for immediate rotation value
   const imageCacheRef = useRef<Map<string, HTMLImageElement>>(new Map()); // Decoded image-card bitmaps, keyed by data URL
@@ -61,6 +98,24 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
     });
   }, []);
 
+  // Soundtrack (video formats only). The decoded file lives for the session.
+  const [audio, setAudio] = useState<ExportAudioSettings>(DEFAULT_EXPORT_AUDIO);
+  const [audioFile, setAudioFile] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const updateAudio = (patch: Partial<ExportAudioSettings>) => setAudio(prev => ({ ...prev, ...patch }));
+
+  const handleAudioFile = async (file: File) => {
+    setAudioError(null);
+    try {
+      const buffer = await decodeAudioFile(file);
+      setAudioFile({ name: file.name, buffer });
+      updateAudio({ source: 'file', trimStart: 0, trimEnd: null });
+    } catch {
+      setAudioError(`Couldn't read "${file.name}" as audio.`);
+    }
+  };
+
   // Export options
   const [loopCount, setLoopCount] = useState(3);
   const [videoName, setVideoName] = useState('QRP Sequence');
@@ -80,6 +135,16 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
     }
   }, [isOpen, resetState, sequences]);
 
+  useEffect(() => {
+    if (!isOpen || !isWebCodecsSupported()) return;
+    let cancelled = false;
+    setEncodableCodecs(null);
+    getEncodableCodecs(settings.width, settings.height)
+      .then(codecs => { if (!cancelled) setEncodableCodecs(codecs); })
+      .catch(() => { if (!cancelled) setEncodableCodecs([]); });
+    return () => { cancelled = true; };
+  }, [isOpen, settings.width, settings.height]);
+
   // Render a sequence to the canvas by updating the render container
   const renderFrame = useCallback(async (
     canvas: HTMLCanvasElement, 
@@ -107,19 +172,22 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
     ctx.fillStyle = backgroundColor;
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
+    // Title cards were laid out for 1000px; scale them with the frame.
+    const unit = Math.min(canvas.width, canvas.height) / 1000;
+
     // Handle intro/outro cards - render directly to canvas
     if (isIntro) {
       // Draw title
       ctx.fillStyle = textColor;
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.font = '300 48px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-      ctx.fillText(videoName.toUpperCase(), canvas.width / 2, canvas.height / 2 - 20);
+      ctx.font = `300 ${48 * unit}px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
+      ctx.fillText(videoName.toUpperCase(), canvas.width / 2, canvas.height / 2 - 20 * unit);
       
       // Draw subtitle
-      ctx.font = '14px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+      ctx.font = `${14 * unit}px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
       ctx.fillStyle = isDarkMode ? 'rgba(226, 232, 240, 0.5)' : 'rgba(15, 23, 42, 0.5)';
-      ctx.fillText('QUANTUM RESONANCE PATTERN', canvas.width / 2, canvas.height / 2 + 30);
+      ctx.fillText('QUANTUM RESONANCE PATTERN', canvas.width / 2, canvas.height / 2 + 30 * unit);
       
       // Wait for canvas to update
       return;
@@ -128,19 +196,19 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
     if (isOutro) {
       // Draw circle symbol directly (more reliable than text character)
       ctx.beginPath();
-      ctx.arc(canvas.width / 2, canvas.height / 2 - 30, 40, 0, Math.PI * 2);
+      ctx.arc(canvas.width / 2, canvas.height / 2 - 30 * unit, 40 * unit, 0, Math.PI * 2);
       ctx.strokeStyle = textColor;
       ctx.globalAlpha = 0.8;
-      ctx.lineWidth = 3;
+      ctx.lineWidth = 3 * unit;
       ctx.stroke();
       ctx.globalAlpha = 1;
       
       // Draw end text
-      ctx.font = '14px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+      ctx.font = `${14 * unit}px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
       ctx.fillStyle = isDarkMode ? 'rgba(226, 232, 240, 0.5)' : 'rgba(15, 23, 42, 0.5)';
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillText('END OF SEQUENCE', canvas.width / 2, canvas.height / 2 + 40);
+      ctx.fillText('END OF SEQUENCE', canvas.width / 2, canvas.height / 2 + 40 * unit);
       
       // Wait for canvas to update
       return;
@@ -154,19 +222,8 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
       // Baked theme-pair cards: draw the layer matching the theme, no filter.
       const src = sequence.imageSrcDark && isDarkMode ? sequence.imageSrcDark : sequence.imageSrc;
       const img = await loadCachedImage(src);
-      const boxAspect = 400 / 700; // QRPGenerator viewBox aspect
-      const canvasAspect = canvas.width / canvas.height;
-      let boxW: number;
-      let boxH: number;
-      if (boxAspect > canvasAspect) {
-        boxW = canvas.width;
-        boxH = canvas.width / boxAspect;
-      } else {
-        boxH = canvas.height;
-        boxW = canvas.height * boxAspect;
-      }
-      const boxX = (canvas.width - boxW) / 2;
-      const boxY = (canvas.height - boxH) / 2;
+      // The card box (QRPGenerator viewBox) as laid out in this frame
+      const { x: boxX, y: boxY, w: boxW, h: boxH } = cardRect(canvas.width, canvas.height, settings.framing);
       // Fit (contain) the image inside the card box — matches preserveAspectRatio="meet"
       const imgAspect = img.width / img.height;
       let dW: number;
@@ -221,10 +278,12 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
       source = source.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
     }
 
-    // Ensure dimensions
-    if (!source.includes('width=')) {
-      source = source.replace('<svg', '<svg width="1000" height="1000"');
-    }
+    // SVG viewBox is "0 -150 400 700" (4:7); lay the card out for this frame
+    // and rasterize it at that size so large exports stay sharp.
+    const box = cardRect(canvas.width, canvas.height, settings.framing);
+    source = source.replace(/^<svg[^>]*>/, (tag) => tag
+      .replace(/\s(width|height)="[^"]*"/g, '')
+      .replace('<svg', `<svg width="${Math.round(box.w)}" height="${Math.round(box.h)}"`));
 
     return new Promise((resolve, reject) => {
       const img = new Image();
@@ -232,28 +291,7 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
       const url = URL.createObjectURL(svgBlob);
 
       img.onload = () => {
-        // Calculate aspect-ratio preserving dimensions
-        // SVG viewBox is "0 -150 400 700" (4:7 aspect ratio)
-        const vbWidth = 400;
-        const vbHeight = 700;
-        const vbAspect = vbWidth / vbHeight;
-        const canvasAspect = canvas.width / canvas.height;
-
-        let drawWidth: number;
-        let drawHeight: number;
-
-        if (vbAspect > canvasAspect) {
-          drawWidth = canvas.width;
-          drawHeight = canvas.width / vbAspect;
-        } else {
-          drawHeight = canvas.height;
-          drawWidth = canvas.height * vbAspect;
-        }
-
-        const xOffset = (canvas.width - drawWidth) / 2;
-        const yOffset = (canvas.height - drawHeight) / 2;
-
-        ctx.drawImage(img, xOffset, yOffset, drawWidth, drawHeight);
+        ctx.drawImage(img, box.x, box.y, box.w, box.h);
         URL.revokeObjectURL(url);
         resolve();
       };
@@ -265,20 +303,21 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
 
       img.src = url;
     });
-  }, [isDarkMode, videoName, loadCachedImage]);
+  }, [isDarkMode, videoName, loadCachedImage, settings.framing]);
 
   // Start export with frame-by-frame rendering
   const handleStartExport = useCallback(async () => {
     setExportedBlob(null);
     
     // Build expanded sequence list with loops, intro, and outro
-    const expandedSequences: (Sequence & { isIntro?: boolean; isOutro?: boolean })[] = [];
+    const expandedSequences: VideoScene[] = [];
     
     // Add intro card
     expandedSequences.push({ 
       ...sequences[0], 
       id: -1, 
       name: videoName,
+      durationMs: undefined, // title cards run for the deck timing
       isIntro: true 
     });
     
@@ -294,6 +333,7 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
       ...sequences[0], 
       id: -2, 
       name: 'Outro',
+      durationMs: undefined,
       isOutro: true 
     });
     
@@ -302,55 +342,115 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
     let globalFrameIndex = 0;
     // Map scene id → original index once, instead of scanning every frame.
     const indexById = new Map(sequences.map((s, i) => [s.id, i]));
+    const isTitleCard = (seq: VideoScene) => !!(seq.isIntro || seq.isOutro);
+    // A scene's keyframed geometry at progress `t`, or null when it has none.
+    const sceneGeo = (seq: VideoScene, t: number) =>
+      !isTitleCard(seq) && hasAnimation(seq) ? animatedGeoConfig(seq.geoConfig, seq.animation, t) : null;
+
+    // Draw one scene onto `target`, optionally with its geometry replaced
+    // (keyframed values, or a morph between two scenes).
+    const drawScene = async (sequence: VideoScene, target: HTMLCanvasElement, rotation: number, geoOverride: GeoConfig | null = null) => {
+      const isIntro = !!sequence.isIntro;
+      const isOutro = !!sequence.isOutro;
+
+      // Unframed image cards render straight from a cached bitmap and never
+      // read the hidden QRPGenerator, so skip the per-frame React re-render.
+      // Framed image cards DO use the hidden QRPGenerator (for the frame), so
+      // they still need the re-render below.
+      const usesFastPath = !isIntro && !isOutro && !!sequence.imageSrc && !sequence.imageFrame;
+
+      if (!usesFastPath) {
+        // Use flushSync to ensure state updates are applied synchronously
+        flushSync(() => {
+          // Update state for rendering
+          setIsIntroFrame(isIntro);
+          setIsOutroFrame(isOutro);
+          setGeoOverride(geoOverride);
+
+          // Update both ref (immediate) and state (for React re-render)
+          rotationRef.current = rotation;
+          setAnimationRotation(rotation);
+
+          if (!isIntro && !isOutro) {
+            // Update the current sequence index to trigger re-render
+            setCurrentSequenceIndex(indexById.get(sequence.id) ?? 0);
+          }
+        });
+      }
+
+      // Render the frame with the current rotation
+      await renderFrame(target, sequence, isIntro, isOutro, rotation);
+    };
+
+    // Layered transitions render both scenes off-screen, then composite.
+    const outgoingLayer = document.createElement('canvas');
+    const incomingLayer = document.createElement('canvas');
+    const transitionFrames = transition.type === 'none' ? 0 : Math.round((transition.durationMs / 1000) * settings.fps);
+    const degreesPerFrame = rotationPerFrame(settings);
+    // Morph falls back to a crossfade wherever there's no geometry to tween.
+    const layeredType = transition.type === 'none' || transition.type === 'morph' ? 'crossfade' : transition.type;
+
+    // Soundtrack laid on the encoder's scene times; passes are the deck loops.
+    const soundtrack = audio.source === 'none' ? undefined : (scenes: { start: number; duration: number }[]) =>
+      renderExportAudio(
+        scenes.map((scene, i): AudioScene => {
+          const seq = expandedSequences[i];
+          const title = isTitleCard(seq);
+          return { ...scene, sequence: title ? null : seq, pass: title ? -1 : Math.floor((i - 1) / sequences.length) };
+        }),
+        audio,
+        audioFile?.buffer ?? null
+      );
 
     const blob = await exportVideo(
       expandedSequences,
       timingMs,
       isDarkMode,
-      async (sequence: Sequence, canvas: HTMLCanvasElement, frameInScene: number, framesPerScene: number) => {
-        const isIntro = (sequence as any).isIntro;
-        const isOutro = (sequence as any).isOutro;
-        
-        // Calculate animation rotation based on global frame index (negative for anti-clockwise)
-        // 24 seconds per full rotation at 30fps = 720 frames
-        const rotationPerFrame = 360 / (24 * 30); // degrees per frame at 30fps
-        const currentRotation = -globalFrameIndex * rotationPerFrame; // Negative for anti-clockwise
-        
+      async (sequence: VideoScene, canvas: HTMLCanvasElement, frameInScene: number, framesPerScene: number, previous?: VideoScene) => {
+        // Rotation follows the global frame index so it runs on across scenes
+        const currentRotation = globalFrameIndex * degreesPerFrame;
+
         globalFrameIndex++;
 
-        // Unframed image cards render straight from a cached bitmap and never
-        // read the hidden QRPGenerator, so skip the per-frame React re-render.
-        // Framed image cards DO use the hidden QRPGenerator (for the frame), so
-        // they still need the re-render below.
-        const usesFastPath = !isIntro && !isOutro && !!sequence.imageSrc && !sequence.imageFrame;
-
-        if (!usesFastPath) {
-          // Use flushSync to ensure state updates are applied synchronously
-          flushSync(() => {
-            // Update state for rendering
-            setIsIntroFrame(isIntro);
-            setIsOutroFrame(isOutro);
-
-            // Update both ref (immediate) and state (for React re-render)
-            rotationRef.current = currentRotation;
-            setAnimationRotation(currentRotation);
-
-            if (!isIntro && !isOutro) {
-              // Update the current sequence index to trigger re-render
-              setCurrentSequenceIndex(indexById.get(sequence.id) ?? 0);
-            }
-          });
+        // Keyframes span the scene; the live player samples the same progress.
+        const geo = sceneGeo(sequence, frameInScene / framesPerScene);
+
+        // The transition plays over the first frames of the incoming scene.
+        const framesInTransition = previous ? Math.min(transitionFrames, framesPerScene) : 0;
+        if (!previous || frameInScene >= framesInTransition) {
+          await drawScene(sequence, canvas, currentRotation, geo);
+          return;
         }
 
-        // Render the frame with the current rotation
-        await renderFrame(canvas, sequence, isIntro, isOutro, currentRotation);
-      }
+        // The outgoing scene holds its final keyframe values.
+        const previousGeo = sceneGeo(previous, 1);
+        const t = easeInOut((frameInScene + 1) / (framesInTransition + 1));
+        if (transition.type === 'morph' && !isTitleCard(previous) && !isTitleCard(sequence) && canMorph(previous, sequence)) {
+          const tween = tweenGeoConfig(previousGeo ?? previous.geoConfig, geo ?? sequence.geoConfig, t);
+          await drawScene(sequence, canvas, currentRotation, tween);
+          return;
+        }
+
+        for (const layer of [outgoingLayer, incomingLayer]) {
+          layer.width = canvas.width;
+          layer.height = canvas.height;
+        }
+        await drawScene(previous, outgoingLayer, currentRotation, previousGeo);
+        await drawScene(sequence, incomingLayer, currentRotation, geo);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+        drawTransition(ctx, layeredType, t, outgoingLayer, incomingLayer);
+      },
+      soundtrack,
+      // The deck itself (not the looped, title-carded cut) for re-import.
+      compressConfig(sequences[0].geoConfig, sequences, timingMs, transition)
     );
+    setGeoOverride(null);
     
     if (blob) {
       setExportedBlob(blob);
     }
-  }, [sequences, timingMs, isDarkMode, exportVideo, renderFrame, loopCount, videoName]);
+  }, [sequences, timingMs, transition, isDarkMode, exportVideo, renderFrame, loopCount, videoName, settings, audio, audioFile]);
 
   // Download the exported video
   const handleDownload = useCallback(() => {
@@ -360,10 +460,11 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
         .replace(/[^a-z0-9]/gi, '_')
         .replace(/_+/g, '_')
         .toLowerCase();
-      const filename = `${sanitizedName || 'qrp-sequence'}-${new Date().toISOString().slice(0, 10)}.mp4`;
-      downloadVideo(exportedBlob, filename);
+      const extension = VIDEO_FORMATS[settings.format].extension;
+      const filename = `${sanitizedName || 'qrp-sequence'}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+      downloadBlob(exportedBlob, filename);
     }
-  }, [exportedBlob, videoName]);
+  }, [exportedBlob, videoName, settings.format]);
 
   // Handle close
   const handleClose = useCallback(() => {
@@ -386,11 +487,42 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
   if (!isOpen) return null;
 
   const webCodecsSupported = isWebCodecsSupported();
+  // GIF and APNG are encoded in script; only MP4/WebM need WebCodecs.
+  const animatedImage = isAnimatedImage(settings.format);
+  const containerCodecs = VIDEO_FORMATS[settings.format].codecs;
+  const canEncode = animatedImage || webCodecsSupported;
+
+  // Which presets the current size matches (-1 for a custom size).
+  const shortSide = Math.min(settings.width, settings.height);
+  const aspectIndex = ASPECT_RATIOS.findIndex(a => {
+    const size = sizeFor(a, shortSide);
+    return size.width === settings.width && size.height === settings.height;
+  });
+  const resolutionIndex = RESOLUTIONS.findIndex(r => r.shortSide === shortSide);
+  const showCustomSize = customSize || aspectIndex < 0 || resolutionIndex < 0;
+  const selectClass = 'w-full px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+  const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+
+  const chooseAspect = (index: number) => {
+    if (index < 0) return setCustomSize(true);
+    setCustomSize(false);
+    updateSettings(sizeFor(ASPECT_RATIOS[index], RESOLUTIONS[resolutionIndex]?.shortSide ?? 1080));
+  };
+  const chooseResolution = (index: number) => {
+    if (index < 0) return setCustomSize(true);
+    setCustomSize(false);
+    const aspect = ASPECT_RATIOS[aspectIndex] ?? { w: settings.width, h: settings.height };
+    updateSettings(sizeFor(aspect, RESOLUTIONS[index].shortSide));
+  };
+  // A codec saved for another container shows (and exports) as Auto here.
+  const codecChoice = settings.codec !== 'auto' && containerCodecs.includes(settings.codec) ? settings.codec : 'auto';
+  const codecUnavailable = !animatedImage && codecChoice !== 'auto' && encodableCodecs !== null && !encodableCodecs.includes(codecChoice);
   const currentSequence = sequences[currentSequenceIndex] || sequences[0];
   
   // Calculate total duration
   const totalFrames = 1 + (sequences.length * loopCount) + 1; // intro + loops + outro
-  const totalDuration = (totalFrames * timingMs) / 1000;
+  const totalDuration = (2 * timingMs + loopCount * deckDurationMs(sequences, timingMs)) / 1000;
+  const hasCardDurations = sequences.some(s => s.durationMs !== undefined);
 
   // Portal to <body> so the fixed overlay isn't trapped inside the editor
   // column's containing block (it's rendered from within that scrolling panel).
@@ -425,9 +557,9 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
         </div>
 
         {/* Content */}
-        <div className="p-4 space-y-4">
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
           {/* Browser Support Warning */}
-          {!webCodecsSupported && (
+          {!canEncode && (
             <div className="flex items-start gap-3 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
               <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
               <div>
@@ -435,7 +567,7 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
                   Browser Not Supported
                 </p>
                 <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
-                  WebCodecs API is required for video export. Please use Chrome 94+ or Edge 94+.
+                  WebCodecs API is required for MP4 and WebM export. Please use Chrome 94+ or Edge 94+, or export a GIF or APNG.
                 </p>
               </div>
             </div>
@@ -479,6 +611,391 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
                 </span>
               </div>
             </div>
+
+            {/* Format */}
+            <div className="grid grid-cols-2 gap-2 pt-1">
+              <div className="col-span-2">
+                <span className={labelClass}>Format</span>
+                <div className="grid grid-cols-4 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Format">
+                  {(Object.keys(VIDEO_FORMATS) as VideoFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      role="radio"
+                      aria-checked={settings.format === format}
+                      onClick={() => { updateSettings({ format }); setExportedBlob(null); }}
+                      disabled={isExporting}
+                      className={`py-1 rounded-md text-xs font-medium transition-colors ${settings.format === format ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}
+                    >
+                      {VIDEO_FORMATS[format].label}
+                    </button>
+                  ))}
+                </div>
+                {animatedImage && (
+                  <p className="text-[11px] text-slate-400 dark:text-slate-500 mt-1">
+                    Loops forever. Best kept short and small: every frame is stored as an image{settings.format === 'gif' && ', in 256 colours, at up to 50 fps'}.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="video-aspect" className={labelClass}>Aspect Ratio</label>
+                <select
+                  id="video-aspect"
+                  value={customSize ? -1 : aspectIndex}
+                  onChange={(e) => chooseAspect(parseInt(e.target.value))}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  {ASPECT_RATIOS.map((a, i) => <option key={a.label} value={i}>{a.label}</option>)}
+                  <option value={-1}>Custom</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="video-resolution" className={labelClass}>Resolution</label>
+                <select
+                  id="video-resolution"
+                  value={customSize ? -1 : resolutionIndex}
+                  onChange={(e) => chooseResolution(parseInt(e.target.value))}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  {RESOLUTIONS.map((r, i) => <option key={r.label} value={i}>{r.label}</option>)}
+                  <option value={-1}>Custom size…</option>
+                </select>
+              </div>
+
+              {showCustomSize && (
+                <div className="col-span-2 flex items-center gap-2">
+                  {(['width', 'height'] as const).map((side) => (
+                    <input
+                      key={`${side}-${settings[side]}`}
+                      type="number"
+                      min={MIN_VIDEO_SIDE}
+                      max={MAX_VIDEO_SIDE}
+                      step={2}
+                      defaultValue={settings[side]}
+                      onBlur={(e) => {
+                        const px = e.target.valueAsNumber;
+                        if (!isNaN(px)) updateSettings({ [side]: clampVideoSide(px) });
+                      }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                      disabled={isExporting}
+                      aria-label={side === 'width' ? 'Width in pixels' : 'Height in pixels'}
+                      className={`${selectClass} tabular-nums`}
+                    />
+                  ))}
+                  <span className="text-xs text-slate-400 flex-shrink-0">px</span>
+                </div>
+              )}
+
+              <div className={animatedImage ? 'col-span-2' : ''}>
+                <label htmlFor="video-fps" className={labelClass}>Frame Rate</label>
+                <select
+                  id="video-fps"
+                  value={settings.fps}
+                  onChange={(e) => updateSettings({ fps: parseInt(e.target.value) })}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  {FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                </select>
+              </div>
+              {!animatedImage && (
+                <>
+                <div>
+                  <label htmlFor="video-codec" className={labelClass}>Codec</label>
+                  <select
+                    id="video-codec"
+                    value={codecChoice}
+                    onChange={(e) => updateSettings({ codec: e.target.value as VideoExportSettings['codec'] })}
+                    disabled={isExporting}
+                    className={selectClass}
+                  >
+                    <option value="auto">Auto</option>
+                    {containerCodecs.filter(codec => encodableCodecs?.includes(codec)).map(codec => (
+                      <option key={codec} value={codec}>{VIDEO_CODEC_LABELS[codec]}</option>
+                    ))}
+                    {codecUnavailable && (
+                      <option value={codecChoice} disabled>{VIDEO_CODEC_LABELS[codecChoice as VideoCodec]}</option>
+                    )}
+                  </select>
+                </div>
+                {codecUnavailable && (
+                  <p className="col-span-2 text-xs text-amber-600 dark:text-amber-400">
+                    {VIDEO_CODEC_LABELS[codecChoice as VideoCodec]} can't be encoded at {settings.width}×{settings.height} in this browser.
+                  </p>
+                )}
+
+                <div className={settings.quality === 'bitrate' ? '' : 'col-span-2'}>
+                  <label htmlFor="video-quality" className={labelClass}>Quality</label>
+                  <select
+                    id="video-quality"
+                    value={settings.quality}
+                    onChange={(e) => updateSettings({ quality: e.target.value as VideoExportSettings['quality'] })}
+                    disabled={isExporting}
+                    className={selectClass}
+                  >
+                    {QUALITY_OPTIONS.map(o => <option key={o.quality} value={o.quality}>{o.label}</option>)}
+                  </select>
+                </div>
+                {settings.quality === 'bitrate' && (
+                  <div>
+                    <label htmlFor="video-bitrate" className={labelClass}>Bitrate</label>
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        id="video-bitrate"
+                        type="number"
+                        min={MIN_BITRATE_MBPS}
+                        max={MAX_BITRATE_MBPS}
+                        step={1}
+                        value={settings.bitrateMbps}
+                        onChange={(e) => {
+                          const mbps = e.target.valueAsNumber;
+                          if (!isNaN(mbps)) updateSettings({ bitrateMbps: Math.min(MAX_BITRATE_MBPS, Math.max(MIN_BITRATE_MBPS, mbps)) });
+                        }}
+                        disabled={isExporting}
+                        className={`${selectClass} tabular-nums`}
+                      />
+                      <span className="text-xs text-slate-400 flex-shrink-0">Mbps</span>
+                    </div>
+                  </div>
+                )}
+                </>
+              )}
+
+              <div className="col-span-2">
+                <span className={labelClass}>Framing</span>
+                <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Framing">
+                  {([['card', 'Whole card'], ['fill', 'Fill frame']] as const).map(([framing, label]) => (
+                    <button
+                      key={framing}
+                      role="radio"
+                      aria-checked={settings.framing === framing}
+                      onClick={() => updateSettings({ framing })}
+                      disabled={isExporting}
+                      title={framing === 'card' ? 'Fit the whole card, with bars at the sides or top' : 'Enlarge the geometry to the frame edge, cropping the card margins'}
+                      className={`py-1 rounded-md text-xs font-medium transition-colors ${settings.framing === framing ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="col-span-2">
+                <label htmlFor="video-rotation" className={labelClass}>Rotation</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    id="video-rotation"
+                    type="range"
+                    min="0"
+                    max="60"
+                    step="1"
+                    value={settings.secondsPerTurn}
+                    onChange={(e) => updateSettings({ secondsPerTurn: parseInt(e.target.value) })}
+                    disabled={isExporting}
+                    aria-valuetext={settings.secondsPerTurn > 0 ? `${settings.secondsPerTurn} seconds per turn` : 'Off'}
+                    className="flex-1 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <span className="text-xs font-medium text-slate-800 dark:text-slate-200 w-14 text-center tabular-nums">
+                    {settings.secondsPerTurn > 0 ? `${settings.secondsPerTurn}s/turn` : 'Off'}
+                  </span>
+                  <button
+                    onClick={() => updateSettings({ clockwise: !settings.clockwise })}
+                    disabled={isExporting || settings.secondsPerTurn === 0}
+                    aria-label={settings.clockwise ? 'Rotating clockwise' : 'Rotating anti-clockwise'}
+                    title={settings.clockwise ? 'Clockwise (click for anti-clockwise)' : 'Anti-clockwise (click for clockwise)'}
+                    className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 transition-colors"
+                  >
+                    {settings.clockwise ? <RotateCw className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Soundtrack */}
+            {!animatedImage && (
+              <div className="grid grid-cols-2 gap-2 pt-3 border-t border-slate-200 dark:border-slate-800">
+                <div className="col-span-2">
+                  <span className={`${labelClass} flex items-center gap-1`}><Music className="w-3 h-3" /> Soundtrack</span>
+                  <div className="grid grid-cols-3 gap-1 p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg" role="radiogroup" aria-label="Soundtrack">
+                    {([['none', 'None'], ['file', 'Audio file'], ['tones', 'Card tones']] as [AudioSourceKind, string][]).map(([source, label]) => (
+                      <button
+                        key={source}
+                        role="radio"
+                        aria-checked={audio.source === source}
+                        onClick={() => source === 'file' && !audioFile ? audioInputRef.current?.click() : updateAudio({ source })}
+                        disabled={isExporting}
+                        className={`py-1 rounded-md text-xs font-medium transition-colors ${audio.source === source ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    ref={audioInputRef}
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleAudioFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                  {audioError && <p className="text-xs text-red-500 mt-1">{audioError}</p>}
+                </div>
+
+                {audio.source === 'file' && audioFile && (
+                  <>
+                    <div className="col-span-2 flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                      <span className="truncate flex-1" title={audioFile.name}>{audioFile.name}</span>
+                      <span className="text-slate-400 tabular-nums">{audioFile.buffer.duration.toFixed(1)}s</span>
+                      <button
+                        onClick={() => audioInputRef.current?.click()}
+                        disabled={isExporting}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                      >
+                        <Upload className="w-3 h-3" /> Replace
+                      </button>
+                    </div>
+                    <div>
+                      <label htmlFor="audio-trim-start" className={labelClass}>Trim Start (s)</label>
+                      <input
+                        id="audio-trim-start"
+                        type="number"
+                        min={0}
+                        max={audioFile.buffer.duration}
+                        step={0.1}
+                        value={audio.trimStart}
+                        onChange={(e) => {
+                          if (!isNaN(e.target.valueAsNumber)) updateAudio({ trimStart: Math.max(0, e.target.valueAsNumber) });
+                        }}
+                        disabled={isExporting}
+                        className={`${selectClass} tabular-nums`}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="audio-trim-end" className={labelClass}>Trim End (s)</label>
+                      <input
+                        id="audio-trim-end"
+                        type="number"
+                        min={0}
+                        max={audioFile.buffer.duration}
+                        step={0.1}
+                        value={audio.trimEnd ?? Number(audioFile.buffer.duration.toFixed(1))}
+                        onChange={(e) => {
+                          const end = e.target.valueAsNumber;
+                          if (!isNaN(end)) updateAudio({ trimEnd: end >= audioFile.buffer.duration ? null : Math.max(0, end) });
+                        }}
+                        disabled={isExporting}
+                        className={`${selectClass} tabular-nums`}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label htmlFor="audio-loop" className={labelClass}>Looping</label>
+                      <select
+                        id="audio-loop"
+                        value={audio.loop}
+                        onChange={(e) => updateAudio({ loop: e.target.value as ExportAudioSettings['loop'] })}
+                        disabled={isExporting}
+                        className={selectClass}
+                      >
+                        {AUDIO_LOOP_OPTIONS.map(o => <option key={o.loop} value={o.loop}>{o.label}</option>)}
+                      </select>
+                    </div>
+                  </>
+                )}
+
+                {audio.source === 'tones' && (
+                  <div className="col-span-2">
+                    <label htmlFor="audio-pitch" className={labelClass}>Pitch</label>
+                    <select
+                      id="audio-pitch"
+                      value={audio.baseHz}
+                      onChange={(e) => updateAudio({ baseHz: Number(e.target.value) })}
+                      disabled={isExporting}
+                      className={selectClass}
+                    >
+                      {TONE_BASES.map(b => <option key={b.hz} value={b.hz}>{b.label}</option>)}
+                    </select>
+                    <p className="text-[11px] text-slate-400 dark:text-slate-500 mt-1">
+                      Each card plays one note, picked from its step values.
+                    </p>
+                  </div>
+                )}
+
+                {audio.source !== 'none' && (
+                  <>
+                    <div className="col-span-2">
+                      <label htmlFor="audio-align" className={labelClass}>Plays Over</label>
+                      <select
+                        id="audio-align"
+                        value={audio.align}
+                        onChange={(e) => updateAudio({ align: e.target.value as ExportAudioSettings['align'] })}
+                        disabled={isExporting}
+                        className={selectClass}
+                      >
+                        <option value="video">Whole video (intro to outro)</option>
+                        <option value="loops">Deck loops only</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="audio-fade-in" className={labelClass}>Fade In (s)</label>
+                      <input
+                        id="audio-fade-in"
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        value={audio.fadeIn}
+                        onChange={(e) => {
+                          if (!isNaN(e.target.valueAsNumber)) updateAudio({ fadeIn: Math.max(0, e.target.valueAsNumber) });
+                        }}
+                        disabled={isExporting}
+                        className={`${selectClass} tabular-nums`}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="audio-fade-out" className={labelClass}>Fade Out (s)</label>
+                      <input
+                        id="audio-fade-out"
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        value={audio.fadeOut}
+                        onChange={(e) => {
+                          if (!isNaN(e.target.valueAsNumber)) updateAudio({ fadeOut: Math.max(0, e.target.valueAsNumber) });
+                        }}
+                        disabled={isExporting}
+                        className={`${selectClass} tabular-nums`}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label htmlFor="audio-volume" className={labelClass}>Volume</label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          id="audio-volume"
+                          type="range"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={audio.volume}
+                          onChange={(e) => updateAudio({ volume: Number(e.target.value) })}
+                          disabled={isExporting}
+                          aria-valuetext={`${Math.round(audio.volume * 100)}%`}
+                          className="flex-1 h-2 bg-slate-100 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer"
+                        />
+                        <span className="text-xs font-medium text-slate-800 dark:text-slate-200 w-10 text-center tabular-nums">
+                          {Math.round(audio.volume * 100)}%
+                        </span>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Export Info */}
@@ -489,7 +1006,9 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-slate-500 dark:text-slate-400">Frame Duration:</span>
-              <span className="text-slate-800 dark:text-slate-200 font-medium">{(timingMs / 1000).toFixed(1)}s</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium">
+                {(timingMs / 1000).toFixed(1)}s{hasCardDurations && ' (some cards vary)'}
+              </span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-slate-500 dark:text-slate-400">Total Frames:</span>
@@ -503,7 +1022,9 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-slate-500 dark:text-slate-400">Resolution:</span>
-              <span className="text-slate-800 dark:text-slate-200 font-medium">1000×1000</span>
+              <span className="text-slate-800 dark:text-slate-200 font-medium">
+                {settings.width}×{settings.height} · {settings.fps} fps
+              </span>
             </div>
           </div>
 
@@ -562,7 +1083,7 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
           {!exportedBlob ? (
             <button
               onClick={handleStartExport}
-              disabled={isExporting || !webCodecsSupported || sequences.length === 0}
+              disabled={isExporting || !canEncode || sequences.length === 0 || codecUnavailable}
               className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {isExporting ? (
@@ -583,7 +1104,7 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
               className="flex-1 px-4 py-2 text-sm font-medium text-white bg-green-500 rounded-lg hover:bg-green-600 transition-colors flex items-center justify-center gap-2"
             >
               <Download className="w-4 h-4" />
-              Download Video
+              Download {VIDEO_FORMATS[settings.format].label}
             </button>
           )}
         </div>
@@ -612,7 +1133,7 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({
               exportMode={true}
               exportTheme={isDarkMode ? 'dark' : 'light'}
               animationRotation={animationRotation}
-              {...currentSequence.geoConfig}
+              {...(geoOverride ?? currentSequence.geoConfig)}
               imageSrc={currentSequence.imageSrc}
               imageSrcDark={currentSequence.imageSrcDark}
               imageInvert={currentSequence.imageInvert}
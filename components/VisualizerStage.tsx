@@ -1,7 +1,9 @@
-import React from 'react';
-import QRPGenerator from './QRPGenerator';
-import { Maximize } from 'lucide-react';
-import { GeoConfig } from '../types';
+import React, { useState } from 'react';
+import CardTransition from './CardTransition';
+import CardCompare from './CardCompare';
+import DeckGrid from './DeckGrid';
+import { Maximize, GitCompare, LayoutGrid } from 'lucide-react';
+import { CardAnimation, GeoConfig, Sequence, Transition } from '../types';
 
 interface VisualizerStageProps {
   sequence: number[];
@@ -14,8 +16,23 @@ interface VisualizerStageProps {
   imageSrcDark?: string;
   imageInvert?: boolean;
   imageFrame?: boolean;
+  cardId: number;
+  transition?: Transition;
+  animation?: CardAnimation;
+  durationMs?: number;
+  // Compare and grid modes (hidden with fewer than two cards): the deck,
+  // the edits compare's "copy value across" buttons make, and the grid's
+  // selection and reordering.
+  cards: Sequence[];
+  activeIndex: number;
+  onUpdateGeoConfig: (id: number, geoConfig: GeoConfig) => void;
+  onUpdateSequence: (id: number, updates: Partial<Sequence>) => void;
+  onSelectCard: (index: number) => void;
+  onReorder: (fromIndex: number, toIndex: number) => void;
 }
 
+type StageMode = 'card' | 'compare' | 'grid';
+
 const VisualizerStage: React.FC<VisualizerStageProps> = ({
   sequence,
   name,
@@ -26,64 +43,125 @@ const VisualizerStage: React.FC<VisualizerStageProps> = ({
   imageSrc,
   imageSrcDark,
   imageInvert,
-  imageFrame
+  imageFrame,
+  cardId,
+  transition,
+  animation,
+  durationMs,
+  cards,
+  activeIndex,
+  onUpdateGeoConfig,
+  onUpdateSequence,
+  onSelectCard,
+  onReorder
 }) => {
+  const [stageMode, setStageMode] = useState<StageMode>('card');
+  const mode: StageMode = cards.length > 1 ? stageMode : 'card';
+  const toggleMode = (m: StageMode) => setStageMode(mode === m ? 'card' : m);
+  const toolButtonClass = (on: boolean) =>
+    `p-3 backdrop-blur-sm rounded-full shadow-sm transition-all group-hover:opacity-100 focus:opacity-100 items-center justify-center hover:scale-110 hover:shadow-md ${
+      on
+      ? 'bg-blue-600 text-white opacity-100'
+      : 'bg-white/80 dark:bg-slate-800/80 text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400 opacity-60'
+    }`;
+
   return (
     <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-xl p-4 sm:p-8 flex flex-col items-center justify-center min-h-[400px] lg:min-h-[500px] relative overflow-hidden group transition-colors duration-300">
         <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-blue-50/50 dark:from-blue-900/10 to-transparent pointer-events-none" />
         
-        {/* Expand Button */}
-        <button
-            onClick={onEnterFullScreen}
-            aria-label="Enter full screen"
-            className="absolute top-4 right-4 p-3 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-full text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400 shadow-sm transition-all opacity-60 group-hover:opacity-100 focus:opacity-100 hidden md:flex items-center justify-center z-10 hover:scale-110 hover:shadow-md"
-            title="Enter Full Screen"
-        >
-            <Maximize size={24} />
-        </button>
-
-        {/* Status Indicator */}
-        <div className="absolute top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2" aria-live="polite">
-            <div className={`w-2 h-2 rounded-full ${isPlaying ? 'bg-green-500 animate-pulse' : 'bg-slate-300 dark:bg-slate-700'}`} />
-            <span className="text-xs font-mono text-slate-500 dark:text-slate-400">
-                {isPlaying ? 'Playing' : 'Paused'}
-            </span>
+        {/* Stage Tools */}
+        <div className="absolute top-4 right-4 flex gap-2 z-10">
+            {cards.length > 1 && (
+                <>
+                    <button
+                        onClick={() => toggleMode('grid')}
+                        aria-label={mode === 'grid' ? 'Close grid view' : 'Show all cards'}
+                        aria-pressed={mode === 'grid'}
+                        className={`${toolButtonClass(mode === 'grid')} flex`}
+                        title={mode === 'grid' ? 'Close Grid' : 'Grid View'}
+                    >
+                        <LayoutGrid size={24} />
+                    </button>
+                    <button
+                        onClick={() => toggleMode('compare')}
+                        aria-label={mode === 'compare' ? 'Close compare view' : 'Compare two cards'}
+                        aria-pressed={mode === 'compare'}
+                        className={`${toolButtonClass(mode === 'compare')} flex`}
+                        title={mode === 'compare' ? 'Close Compare' : 'Compare Cards'}
+                    >
+                        <GitCompare size={24} />
+                    </button>
+                </>
+            )}
+            <button
+                onClick={onEnterFullScreen}
+                aria-label="Enter full screen"
+                className={`${toolButtonClass(false)} hidden md:flex`}
+                title="Enter Full Screen"
+            >
+                <Maximize size={24} />
+            </button>
         </div>
 
-        {/* The Shape — grows with available height (the card is portrait 4:7,
-            so height is the limit) instead of a fixed 420px cap, while never
-            exceeding the column width or shrinking below the old size. */}
-        <div className="relative z-0 transform transition-transform duration-700 ease-out w-full flex justify-center">
-            <div
-                className="w-full"
-                style={{ maxWidth: 'min(100%, max(420px, (100vh - 300px) * 4 / 7))' }}
-            >
-                <QRPGenerator
-                    sequence={sequence}
-                    size="100%"
-                    active={isPlaying}
-                    showLabels={false}
-                    title={name}
-                    description={description}
-                    {...geoConfig}
-                    imageSrc={imageSrc}
-                    imageSrcDark={imageSrcDark}
-                    imageInvert={imageInvert}
-                    imageFrame={imageFrame}
+        {mode === 'compare' ? (
+            <div className="w-full pt-12">
+                <CardCompare
+                    cards={cards}
+                    initialId={cardId}
+                    onUpdateGeoConfig={onUpdateGeoConfig}
+                    onUpdateSequence={onUpdateSequence}
                 />
             </div>
-        </div>
+        ) : mode === 'grid' ? (
+            <div className="w-full pt-12">
+                <DeckGrid
+                    cards={cards}
+                    activeIndex={activeIndex}
+                    onSelect={onSelectCard}
+                    onOpen={(index) => { onSelectCard(index); setStageMode('card'); }}
+                    onReorder={onReorder}
+                />
+            </div>
+        ) : (
+            <>
+                {/* Status Indicator */}
+                <div className="absolute top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2" aria-live="polite">
+                    <div className={`w-2 h-2 rounded-full ${isPlaying ? 'bg-green-500 animate-pulse' : 'bg-slate-300 dark:bg-slate-700'}`} />
+                    <span className="text-xs font-mono text-slate-500 dark:text-slate-400">
+                        {isPlaying ? 'Playing' : 'Paused'}
+                    </span>
+                </div>
+
+                {/* The Shape — grows with available height (the card is portrait 4:7,
+                    so height is the limit) instead of a fixed 420px cap, while never
+                    exceeding the column width or shrinking below the old size. */}
+                <div className="relative z-0 transform transition-transform duration-700 ease-out w-full flex justify-center">
+                    <div
+                        className="w-full"
+                        style={{ maxWidth: 'min(100%, max(420px, (100vh - 300px) * 4 / 7))' }}
+                    >
+                        <CardTransition
+                            cardKey={cardId}
+                            face={{ sequence, name, description, geoConfig, imageSrc, imageSrcDark, imageInvert, imageFrame, animation }}
+                            transition={transition}
+                            durationMs={durationMs}
+                            active={isPlaying}
+                        />
+                    </div>
+                </div>
         
-        {/* Only show title below if frame is NOT showing it (image cards never show the frame) */}
-        {(imageSrc || !geoConfig.showFrame || !geoConfig.frameDoubleTop) && (
-            <div className="mt-8 text-center">
-                <h2 className="text-xl sm:text-2xl font-light text-slate-800 dark:text-slate-200 mb-1">{name}</h2>
-                {!imageSrc && (
-                    <p className="font-mono text-xs sm:text-sm text-slate-400 dark:text-slate-500 bg-slate-100 dark:bg-slate-800 px-3 py-1 rounded-full inline-block">
-                        [{sequence.join(', ')}]
-                    </p>
+                {/* Only show title below if frame is NOT showing it (image cards never show the frame) */}
+                {(imageSrc || !geoConfig.showFrame || !geoConfig.frameDoubleTop) && (
+                    <div className="mt-8 text-center">
+                        <h2 className="text-xl sm:text-2xl font-light text-slate-800 dark:text-slate-200 mb-1">{name}</h2>
+                        {!imageSrc && (
+                            <p className="font-mono text-xs sm:text-sm text-slate-400 dark:text-slate-500 bg-slate-100 dark:bg-slate-800 px-3 py-1 rounded-full inline-block">
+                                [{sequence.join(', ')}]
+                            </p>
+                        )}
+                    </div>
                 )}
-            </div>
+            </>
         )}
     </div>
   );
@@ -0,0 +1,52 @@
+import React from 'react';
+import { HardDrive, AlertTriangle } from 'lucide-react';
+import { StorageStatus } from '../../hooks/useSequencer';
+import { formatBytes, STORAGE_WARN_RATIO } from '../../utils/storage';
+
+interface StorageMeterProps {
+  storage: StorageStatus;
+}
+
+// Compact "used of quota" readout for the deck's browser storage. Turns amber
+// near the quota and red once a save has actually failed.
+const StorageMeter: React.FC<StorageMeterProps> = ({ storage }) => {
+  const { usage, error } = storage;
+  if (!usage && !error) return null;
+
+  const ratio = usage ? usage.usage / usage.quota : 0;
+  const isNearFull = ratio >= STORAGE_WARN_RATIO;
+  const tone = error
+    ? 'text-red-500'
+    : isNearFull
+      ? 'text-amber-600 dark:text-amber-400'
+      : 'text-slate-400 dark:text-slate-500';
+  const barTone = error ? 'bg-red-500' : isNearFull ? 'bg-amber-500' : 'bg-slate-300 dark:bg-slate-600';
+  const Icon = error || isNearFull ? AlertTriangle : HardDrive;
+
+  return (
+    <div className="flex flex-col gap-1" title={error ?? 'Browser storage used by your saved decks and images'}>
+      <div className={`flex items-center gap-1.5 text-[10px] font-medium ${tone}`}>
+        <Icon size={12} className="flex-shrink-0" />
+        {usage ? (
+          <span className="tabular-nums">
+            Storage {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+            {isNearFull && !error && ' — almost full'}
+          </span>
+        ) : (
+          <span>Storage unavailable</span>
+        )}
+      </div>
+      {usage && (
+        <div className="h-1 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${barTone} transition-all duration-300`}
+            style={{ width: `${Math.min(100, Math.max(1, ratio * 100))}%` }}
+          />
+        </div>
+      )}
+      {error && <p className="text-[10px] text-red-500 leading-snug">{error}</p>}
+    </div>
+  );
+};
+
+export default StorageMeter;
@@ -4,6 +4,11 @@ import { GeoConfig, Sequence } from './types';
 export const MAX_CLOCK_DIVISIONS = 10;
 export const MAX_VALUE_PER_DIVISION = 5;
 
+// Range for how long a card is shown (the deck-wide timing and any per-card
+// duration alike), in ms.
+export const MIN_DURATION_MS = 200;
+export const MAX_DURATION_MS = 30000;
+
 export const SUNFLOWER_PRESET: GeoConfig = {
     showFrame: true,
     frameDoubleTop: true,
@@ -149,4 +154,55 @@ export const DEFAULT_SEQUENCES: Sequence[] = [
     data: [0, 3, 3, 0, 1, 1, 0, 2, 2, 0],
     geoConfig: { ...SUNFLOWER_PRESET, sequenceLength: 10 }
   }
-];
\ No newline at end of file
+];
+
+// Count-like GeoConfig fields: anything that interpolates them (transitions,
+// keyframes) must keep them whole.
+export const INTEGER_GEO_FIELDS = new Set<keyof GeoConfig>(['petals', 'lobeCount', 'sequenceLength']);
+
+// Human-readable names for GeoConfig fields, matching the tuner's slider labels
+// (used wherever a setting is named outside the tuner, e.g. the undo history).
+export const GEO_FIELD_LABELS: Record<keyof GeoConfig, string> = {
+  showFrame: 'Frame',
+  frameDoubleTop: 'Double Header',
+  frameSquareHeader: 'Box Header',
+  frameScale: 'Frame Size',
+  frameHeaderOffset: 'Header Offset',
+  frameTickLength: 'Tick Length',
+  frameStrokeWidth: 'Frame Stroke',
+  uiFontSize: 'Font Size',
+  uiFont: 'Font',
+  overallScale: 'Zoom',
+  mainScale: 'Content',
+  petals: 'Seed Count',
+  petalSize: 'Seed Size',
+  petalRoundness: 'Roundness',
+  lobeCount: 'Lobe Count',
+  lobeRadius: 'Lobe Radius',
+  lobeType: 'Lobe Type',
+  lobeDesign: 'Lobe Design',
+  designScale: 'Pattern Scale',
+  designOffset: 'Radial Offset',
+  centerDesign: 'Center Design',
+  centerImageSrc: 'Center Image',
+  centerImageScale: 'Center Image Size',
+  centerImageCircle: 'Center Image Crop',
+  centerImageInvert: 'Center Image Invert',
+  lobeOpacity: 'Lobe Opacity',
+  centerOpacity: 'Center Opacity',
+  geometryRotation: 'Rotation',
+  dharmaExtrusionOut: 'Stem Out',
+  dharmaExtrusionSide: 'Top Width',
+  dharmaStemWidth: 'Neck Width',
+  dharmaCapHeight: 'Base Offset',
+  ringInnerRadius: 'Ring Radius',
+  stripeSep: 'Stripe Gap',
+  stripeStart: 'Stripe Start',
+  hullValley: 'Valley',
+  hullCoverage: 'Coverage',
+  sequenceLength: 'Steps',
+  shellScale: 'Shell Scale',
+  shellStroke: 'Shell Stroke',
+  ringStroke: 'Ring Stroke',
+  stripeStroke: 'Stripe Stroke',
+};
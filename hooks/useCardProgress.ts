@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+// Progress (0–1) through a card's display duration, for keyframe animation.
+// Loops while the card stays on screen (so a paused card keeps previewing its
+// motion) and restarts from 0 whenever `resetKey` — the shown card — changes.
+// Stays at 0 without scheduling frames when the card isn't animated.
+export const useCardProgress = (enabled: boolean, durationMs: number, resetKey: unknown): number => {
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    setProgress(0);
+    if (!enabled || durationMs <= 0) return;
+    const start = performance.now();
+    let raf = 0;
+    const tick = (now: number) => {
+      setProgress(((now - start) % durationMs) / durationMs);
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [enabled, durationMs, resetKey]);
+
+  return progress;
+};
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  AudienceMessage, AudienceState, PresenterMessage, audienceUrl, newPresenterSession, presenterChannel,
+} from '../utils/presenter';
+
+export type AudienceStatus = 'waiting' | 'connected' | 'blocked';
+
+// The presenter's end of the channel while presenter mode is open: sends the
+// deck to each audience window that says hello and whenever it changes, the
+// position on every card change, and tells the audience to close when
+// presenter mode (or the page) ends.
+export const usePresenter = (state: AudienceState) => {
+  const [audience, setAudience] = useState<AudienceStatus>('waiting');
+  const [session] = useState(newPresenterSession);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const post = (message: PresenterMessage) => channelRef.current?.postMessage(message);
+  const postDeck = () => {
+    const { sequences, timingMs, transition, isDarkMode } = stateRef.current;
+    post({ type: 'deck', deck: { sequences, timingMs, transition, isDarkMode } });
+  };
+  const postPosition = () => {
+    const { activeIndex, isPlaying } = stateRef.current;
+    post({ type: 'position', position: { activeIndex, isPlaying } });
+  };
+
+  useEffect(() => {
+    const channel = new BroadcastChannel(presenterChannel(session));
+    channelRef.current = channel;
+
+    channel.onmessage = (e: MessageEvent<AudienceMessage>) => {
+      if (e.data?.type === 'hello') {
+        setAudience('connected');
+        postDeck();
+        postPosition();
+      } else if (e.data?.type === 'bye') {
+        setAudience('waiting');
+      }
+    };
+
+    const end = () => post({ type: 'end' });
+    window.addEventListener('pagehide', end);
+    return () => {
+      window.removeEventListener('pagehide', end);
+      end();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [session]);
+
+  const { sequences, activeIndex, isPlaying, timingMs, transition, isDarkMode } = state;
+  useEffect(postDeck, [sequences, timingMs, transition, isDarkMode]);
+  useEffect(postPosition, [activeIndex, isPlaying]);
+
+  // Needs a user gesture (or to follow one closely) or the browser blocks it.
+  // Reuses this session's window if it is still open.
+  const openAudience = () => {
+    const win = window.open(audienceUrl(session), `qrp-audience-${session}`, 'popup,width=960,height=720');
+    if (!win) setAudience('blocked');
+    else if (audience === 'blocked') setAudience('waiting');
+  };
+
+  return { audience, openAudience };
+};
@@ -1,110 +1,762 @@
 import { useState, useEffect, useRef } from 'react';
-import { DEFAULT_SEQUENCES, SUNFLOWER_PRESET } from '../constants';
-import { Sequence, GeoConfig } from '../types';
-import { isPersistenceEnabled, loadStored, saveStored, STORAGE_KEYS } from '../utils/storage';
+import { DEFAULT_SEQUENCES, SUNFLOWER_PRESET, GEO_FIELD_LABELS } from '../constants';
+import { Sequence, GeoConfig, Transition, DeckSound } from '../types';
+import { cardDurationMs } from '../utils/timing';
+import { DEFAULT_TRANSITION, normalizeTransition, transitionLabel } from '../utils/transitions';
+import { DEFAULT_DECK_SOUND, normalizeDeckSound, soundVoiceLabel } from '../utils/audio';
+import {
+  isPersistenceEnabled, loadStored, saveStored, removeStored, STORAGE_KEYS,
+  getStorageUsage, requestPersistentStorage, StorageUsage,
+} from '../utils/storage';
+import {
+  DEFAULT_DECK_ID, DeckSummary, StoredDeck, isIndexedDbAvailable, newDeckId,
+  loadDeck, loadDeckRevision, saveDeck, listDecks, migrateLegacyDeck,
+  renameDeck as renameStoredDeck, deleteDeck as deleteStoredDeck,
+} from '../utils/db';
+import { DECK_SCHEMA_VERSION, validateDeck } from '../utils/deckSchema';
+import { ImportMode, ImportPlan, planImport } from '../utils/deckImport';
+import { formatGeoValue } from '../utils/cardDiff';
+import {
+  DeckContent, SyncConflict, TAB_SYNC_CHANNEL, TabSyncMessage, isTabSyncSupported, isUnchanged, mergeDeckContent,
+} from '../utils/tabSync';
 
 // Next free card id (max existing + 1).
 const nextSeqId = (seqs: Sequence[]) =>
   seqs.length > 0 ? Math.max(...seqs.map(s => s.id)) + 1 : 1;
 
+// Persistence health, surfaced in the editor so a full disk is noticed before
+// edits are lost rather than after.
+export interface StorageStatus {
+  usage: StorageUsage | null;
+  error: string | null;
+}
+
+const describeSaveError = (err: unknown): string =>
+  err instanceof DOMException && err.name === 'QuotaExceededError'
+    ? 'Browser storage is full — recent changes are not saved. Save Config to keep a copy, then remove unused image cards.'
+    : 'Could not save your deck — recent changes only exist in this tab.';
+
+// Each deck remembers its own selected card. The index churns every tick during
+// playback, so it lives in localStorage rather than in the IndexedDB deck record.
+// The default deck keeps the original bare key so existing sessions carry over.
+const activeIndexKey = (deckId: string) =>
+  deckId === DEFAULT_DECK_ID ? STORAGE_KEYS.activeIndex : `${STORAGE_KEYS.activeIndex}:${deckId}`;
+
+const loadActiveIndex = (deckId: string, deckLength: number) => {
+  const stored = loadStored<number>(activeIndexKey(deckId), 0);
+  return Number.isInteger(stored) && stored >= 0 && stored < deckLength ? stored : 0;
+};
+
+// Without IndexedDB the one deck is a handful of localStorage keys. Saves are
+// compare-and-swap on a revision key, like saveDeck (see utils/tabSync.ts).
+const loadLocalDeck = (): DeckContent | null => {
+  const { deck } = validateDeck({
+    sequences: loadStored<unknown>(STORAGE_KEYS.sequences, null),
+    schemaVersion: loadStored(STORAGE_KEYS.schemaVersion, null),
+  });
+  if (!deck) return null;
+  return {
+    name: 'My Deck',
+    sequences: deck.sequences,
+    timingMs: loadStored<number>(STORAGE_KEYS.timingMs, 1500),
+    transition: normalizeTransition(loadStored(STORAGE_KEYS.transition, DEFAULT_TRANSITION)),
+    sound: normalizeDeckSound(loadStored(STORAGE_KEYS.sound, DEFAULT_DECK_SOUND)),
+  };
+};
+
+const saveLocalDeck = (deck: DeckContent, expectedRevision: number): number | null => {
+  const stored = loadStored<number>(STORAGE_KEYS.revision, 0);
+  if (stored !== expectedRevision) return null;
+  saveStored(STORAGE_KEYS.sequences, deck.sequences);
+  saveStored(STORAGE_KEYS.schemaVersion, DECK_SCHEMA_VERSION);
+  saveStored(STORAGE_KEYS.timingMs, deck.timingMs);
+  saveStored(STORAGE_KEYS.transition, deck.transition);
+  saveStored(STORAGE_KEYS.sound, deck.sound);
+  saveStored(STORAGE_KEYS.revision, stored + 1);
+  return stored + 1;
+};
+
+// "Name", "Name 2", "Name 3", … — first one not already taken.
+const uniqueDeckName = (base: string, taken: DeckSummary[]) => {
+  const names = new Set(taken.map(d => d.name.toLowerCase()));
+  if (!names.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (names.has(`${base} ${n}`.toLowerCase())) n++;
+  return `${base} ${n}`;
+};
+
+// --- Undo history ---
+// Every deck edit records the state it replaced. Entries hold whole-deck
+// snapshots, which is cheap: unchanged cards (and their image data URLs) are
+// shared between snapshots rather than copied.
+
+export interface DeckSnapshot {
+  sequences: Sequence[];
+  activeIndex: number;
+  timingMs: number;
+  transition: Transition;
+  sound: DeckSound;
+}
+
+export interface HistoryEntry {
+  label: string;  // what the step changed, e.g. "Seed Size 1.1 → 1.4"
+  card?: string;  // name of the card it changed, when it was a single card
+  group?: string; // consecutive edits with the same group merge into one step
+  at: number;     // time of the latest edit merged into this step
+  state: DeckSnapshot;
+}
+
+export interface HistoryLog {
+  past: HistoryEntry[];   // oldest first; the last entry is what undo reverts
+  future: HistoryEntry[]; // nearest first; emptied by any new edit
+}
+
+const HISTORY_LIMIT = 100;
+// A slider drag (or a burst of typing) fires an update per frame/keystroke;
+// edits to the same control closer together than this become one step.
+const GROUP_WINDOW_MS = 1000;
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const changedGeoKeys = (before: GeoConfig, after: GeoConfig) =>
+  (Object.keys(after) as (keyof GeoConfig)[]).filter(k => before[k] !== after[k]);
+
+// "Seed Size 1.1 → 1.4", "Preset: Dharma", "Changed Zoom, Content".
+const describeGeoChange = (before: GeoConfig, after: GeoConfig, keys: (keyof GeoConfig)[]) => {
+  if (keys.includes('lobeType')) return `Preset: ${capitalize(after.lobeType)}`;
+  if (keys.length === 1) {
+    const [k] = keys;
+    return `${GEO_FIELD_LABELS[k]} ${formatGeoValue(before[k])} → ${formatGeoValue(after[k])}`;
+  }
+  const names = keys.map(k => GEO_FIELD_LABELS[k]);
+  return `Changed ${names.slice(0, 3).join(', ')}${names.length > 3 ? ` +${names.length - 3}` : ''}`;
+};
+
+const describeSequenceUpdate = (before: Sequence, updates: Partial<Sequence>): string => {
+  if (updates.data) {
+    const changed = updates.data
+      .map((v, i) => (v !== before.data[i] ? i : -1))
+      .filter(i => i >= 0);
+    if (changed.length === 1) {
+      const i = changed[0];
+      return `Step ${i + 1}: ${before.data[i] ?? 0} → ${updates.data[i]}`;
+    }
+    return updates.data.every(v => v === 0) ? 'Cleared steps' : `Edited ${changed.length} steps`;
+  }
+  if (updates.name !== undefined) return `Renamed to "${updates.name}"`;
+  if (updates.description !== undefined) return 'Edited description';
+  if ('imageSrc' in updates) {
+    if (!updates.imageSrc) return 'Removed image';
+    return before.imageSrc ? 'Replaced image' : 'Added image';
+  }
+  if ('durationMs' in updates) {
+    const seconds = (ms?: number) => (ms === undefined ? 'deck timing' : `${ms / 1000}s`);
+    return `Duration ${seconds(before.durationMs)} → ${seconds(updates.durationMs)}`;
+  }
+  if ('animation' in updates) return updates.animation ? 'Edited animation' : 'Removed animation';
+  if ('sound' in updates) return updates.sound ? 'Changed card sound' : 'Card sound follows the deck';
+  if (updates.imageInvert !== undefined) return `Image invert ${formatGeoValue(updates.imageInvert !== false)}`;
+  if (updates.imageFrame !== undefined) return `Image frame ${formatGeoValue(updates.imageFrame)}`;
+  return 'Edited card';
+};
+
+// Pad or trim a card's steps to a new sequence length.
+const resizeData = (data: number[], length: number) =>
+  data.length > length
+    ? data.slice(0, length)
+    : [...data, ...new Array(length - data.length).fill(0)];
+
 export const useSequencer = () => {
-  // Restore the previous session's deck/timing from localStorage so the user
-  // doesn't have to save/load each time. Skipped for shared ?c= links (view-only).
-  const persist = isPersistenceEnabled();
+  // Restore the previous session's deck/timing so the user doesn't have to
+  // save/load each time. Skipped for shared ?c= links (view-only). Decided
+  // once per page load: a share hash arriving later reloads the page (App).
+  const [persist] = useState(isPersistenceEnabled);
+  // Decks live in IndexedDB and load asynchronously; browsers without it keep
+  // the old synchronous localStorage path (a single deck, no switcher).
+  const [useIdb] = useState(() => persist && isIndexedDbAvailable());
+
+  const [deckId, setDeckId] = useState(() =>
+    useIdb ? loadStored<string>(STORAGE_KEYS.activeDeck, DEFAULT_DECK_ID) : DEFAULT_DECK_ID
+  );
+  const [deckName, setDeckName] = useState('My Deck');
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
 
   const [sequences, setSequences] = useState<Sequence[]>(() => {
-    if (!persist) return DEFAULT_SEQUENCES;
-    const stored = loadStored<Sequence[]>(STORAGE_KEYS.sequences, DEFAULT_SEQUENCES);
+    if (!persist || useIdb) return DEFAULT_SEQUENCES;
+    const stored = loadStored<unknown>(STORAGE_KEYS.sequences, null);
+    if (stored === null) return DEFAULT_SEQUENCES;
     // Guard against a corrupted/empty deck (every action assumes >= 1 card).
-    return Array.isArray(stored) && stored.length > 0 ? stored : DEFAULT_SEQUENCES;
-  });
-  const [activeIndex, setActiveIndex] = useState(() => {
-    if (!persist) return 0;
-    const stored = loadStored<number>(STORAGE_KEYS.activeIndex, 0);
-    // Clamp to the restored deck (it may have fewer cards than last session).
-    if (Number.isInteger(stored) && stored >= 0 && stored < sequences.length) return stored;
-    return 0;
+    const { deck, issues } = validateDeck({ sequences: stored, schemaVersion: loadStored(STORAGE_KEYS.schemaVersion, null) });
+    if (issues.length > 0) console.warn('Repaired while loading the saved deck:', issues);
+    return deck ? deck.sequences : DEFAULT_SEQUENCES;
   });
+  // Clamp to the restored deck (it may have fewer cards than last session).
+  // The IndexedDB path clamps again once the deck has loaded.
+  const [activeIndex, setActiveIndex] = useState(() =>
+    persist && !useIdb ? loadActiveIndex(DEFAULT_DECK_ID, sequences.length) : 0
+  );
   const [isPlaying, setIsPlaying] = useState(false);
   const [timingMs, setTimingMs] = useState(() =>
-    persist ? loadStored<number>(STORAGE_KEYS.timingMs, 1500) : 1500
+    persist && !useIdb ? loadStored<number>(STORAGE_KEYS.timingMs, 1500) : 1500
+  );
+  const [transition, setTransition] = useState<Transition>(() =>
+    persist && !useIdb ? normalizeTransition(loadStored(STORAGE_KEYS.transition, DEFAULT_TRANSITION)) : DEFAULT_TRANSITION
   );
+  const [sound, setSound] = useState<DeckSound>(() =>
+    persist && !useIdb ? normalizeDeckSound(loadStored(STORAGE_KEYS.sound, DEFAULT_DECK_SOUND)) : DEFAULT_DECK_SOUND
+  );
+  // Nothing is written back until the stored deck has been read, otherwise the
+  // defaults shown during the load would overwrite it.
+  const [isLoaded, setIsLoaded] = useState(!useIdb);
+  // Stored decks exist but none could be read: the defaults on screen must not
+  // be saved over them. Lifted by the first edit (or a deck that does load).
+  const loadFailedRef = useRef(false);
+  const [storage, setStorage] = useState<StorageStatus>({ usage: null, error: null });
+  const [history, setHistory] = useState<HistoryLog>({ past: [], future: [] });
+  // Another tab changed the open deck in a way that could not be merged.
+  const [syncConflict, setSyncConflict] = useState<SyncConflict | null>(null);
+  // When changes from another tab were last merged into unsaved edits here.
+  const [mergedAt, setMergedAt] = useState<number | null>(null);
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The open deck as last written or received, i.e. what this tab and the
+  // others agree on; the base of the merge when both have changed it, and the
+  // revision the next save expects to replace. The localStorage deck starts
+  // out as read; the IndexedDB one once it has loaded (applyDeck).
+  const [initialSynced] = useState(() => persist && !useIdb
+    ? { deckId: DEFAULT_DECK_ID, deck: { name: deckName, sequences, timingMs, transition, sound }, revision: loadStored<number>(STORAGE_KEYS.revision, 0) }
+    : null);
+  const syncedRef = useRef<{ deckId: string; deck: DeckContent; revision: number } | null>(initialSynced);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const refreshUsage = () => {
+    getStorageUsage().then(usage => setStorage(prev => ({ ...prev, usage })));
+  };
 
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const refreshDecks = () =>
+    listDecks()
+      .then(setDecks)
+      .catch(err => console.warn('Could not list decks', err));
 
   // --- Persistence ---
+  useEffect(() => {
+    if (!useIdb) return;
+    let alive = true;
+    (async () => {
+      let deck = await loadDeck(deckId);
+      let stored = 0;
+      if (!deck) {
+        // The remembered deck is gone (deleted in another tab) or unreadable:
+        // open the first other one that loads.
+        const others = await listDecks();
+        stored = others.length;
+        for (const other of others) {
+          deck = other.id === deckId ? null : await loadDeck(other.id);
+          if (deck) break;
+        }
+      }
+      if (!deck && stored === 0) deck = await migrateLegacyDeck();
+      if (!alive) return;
+      if (!deck || deck.sequences.length === 0) {
+        if (stored > 0) {
+          loadFailedRef.current = true;
+          setStorage(prev => ({ ...prev, error: 'Could not read your saved decks — they are left untouched until you edit this one.' }));
+        }
+        return;
+      }
+      applyDeck(deck);
+    })()
+      .catch(err => {
+        console.warn('Could not load the saved deck', err);
+        loadFailedRef.current = true;
+        if (alive) setStorage(prev => ({ ...prev, error: 'Could not open your saved deck — this browser may be blocking site storage.' }));
+      })
+      .finally(() => {
+        if (!alive) return;
+        setIsLoaded(true);
+        refreshDecks();
+      });
+    requestPersistentStorage();
+    refreshUsage();
+    return () => { alive = false; };
+  }, [useIdb]);
+
+  const currentContent = (): DeckContent => ({ name: deckName, sequences, timingMs, transition, sound });
+  const currentDeck = () => ({ id: deckId, ...currentContent() });
+
+  const markSynced = (id: string, deck: DeckContent, revision: number) => {
+    syncedRef.current = { deckId: id, deck, revision };
+  };
+
+  const announce = (message: TabSyncMessage) => channelRef.current?.postMessage(message);
+
+  // Resolves to the revision written, or null if `expectedRevision` was given
+  // and another tab saved the deck first (nothing is written then).
+  const writeDeck = (deck: Omit<StoredDeck, 'updatedAt'>, expectedRevision?: number) =>
+    saveDeck(deck, expectedRevision)
+      .then(revision => {
+        setStorage(prev => (prev.error ? { ...prev, error: null } : prev));
+        refreshUsage();
+        const { id, name, sequences, timingMs, transition, sound } = deck;
+        if (revision !== null) {
+          announce({ type: 'saved', deckId: id, deck: { name, sequences, timingMs, transition, sound }, revision });
+        }
+        return revision;
+      })
+      .catch(err => {
+        console.warn('Could not persist the deck', err);
+        setStorage(prev => ({ ...prev, error: describeSaveError(err) }));
+        throw err;
+      });
+
   // Deck + timing are slider/edit driven and can fire many updates in quick
   // succession, so writes are debounced to avoid serialising the whole deck on
   // every keystroke. Active-card index is tiny but also debounced to skip churn
-  // during playback (it advances every tick).
+  // during playback (it advances every tick). Nothing is written while a
+  // conflict with another tab waits for the user, or when the deck is what
+  // was last written or received (so adopting another tab's save does not
+  // echo it back).
   useEffect(() => {
-    if (!persist) return;
+    if (!persist || !isLoaded || loadFailedRef.current || syncConflict) return;
+    const deck = currentContent();
+    const synced = syncedRef.current?.deckId === deckId ? syncedRef.current : null;
+    if (synced && isUnchanged(deck, synced.deck)) return;
     const t = setTimeout(() => {
-      saveStored(STORAGE_KEYS.sequences, sequences);
-      saveStored(STORAGE_KEYS.timingMs, timingMs);
+      commitDeck(deckId, deck, synced ? synced.revision : 0).catch(() => {});
     }, 300);
     return () => clearTimeout(t);
-  }, [persist, sequences, timingMs]);
+  }, [persist, useIdb, isLoaded, syncConflict, deckId, deckName, sequences, timingMs, transition, sound]);
+
+  // Save the open deck over the revision it was based on. If another tab got
+  // there first, its version is read back and handled like its announcement
+  // (merged into these edits, which are then saved on top, or a conflict).
+  // Resolves to whether this deck was written.
+  const commitDeck = async (
+    id: string, deck: DeckContent, expectedRevision: number, retried = false
+  ): Promise<boolean> => {
+    let revision: number | null;
+    if (useIdb) {
+      revision = await writeDeck({ id, ...deck }, expectedRevision);
+    } else {
+      revision = saveLocalDeck(deck, expectedRevision);
+      if (revision !== null) announce({ type: 'saved', deckId: id, deck, revision });
+    }
+    if (revision !== null) {
+      const synced = syncedRef.current;
+      if (!synced || synced.deckId !== id || synced.revision < revision) markSynced(id, deck, revision);
+      return true;
+    }
+    let theirs: DeckContent | null;
+    let storedRevision: number;
+    if (useIdb) {
+      const stored = await loadDeck(id);
+      theirs = stored && {
+        name: stored.name,
+        sequences: stored.sequences,
+        timingMs: stored.timingMs,
+        transition: normalizeTransition(stored.transition),
+        sound: normalizeDeckSound(stored.sound),
+      };
+      storedRevision = stored ? stored.revision ?? 0 : await loadDeckRevision(id);
+    } else {
+      theirs = loadLocalDeck();
+      storedRevision = loadStored<number>(STORAGE_KEYS.revision, 0);
+    }
+    // Unreadable (or just deleted), so there is nothing to merge with: write
+    // over it once. Losing that race too means storage is misbehaving.
+    if (!theirs) {
+      if (!retried) return commitDeck(id, deck, storedRevision, true);
+      setStorage(prev => ({ ...prev, error: describeSaveError(null) }));
+      return false;
+    }
+    syncHandlerRef.current({ type: 'saved', deckId: id, deck: theirs, revision: storedRevision });
+    return false;
+  };
 
   useEffect(() => {
     if (!persist) return;
-    const t = setTimeout(() => saveStored(STORAGE_KEYS.activeIndex, activeIndex), 300);
+    const t = setTimeout(() => saveStored(activeIndexKey(deckId), activeIndex), 300);
     return () => clearTimeout(t);
-  }, [persist, activeIndex]);
-
-  // Undo history for destructive actions (delete / reset). Snapshot is taken
-  // before the mutation; undo() restores the most recent one.
-  const historyRef = useRef<{ sequences: Sequence[]; activeIndex: number }[]>([]);
-  const snapshot = () => {
-    historyRef.current.push({ sequences, activeIndex });
-    if (historyRef.current.length > 20) historyRef.current.shift();
-  };
-  const undo = () => {
-    const snap = historyRef.current.pop();
-    if (!snap) return;
-    setSequences(snap.sequences);
-    setActiveIndex(snap.activeIndex);
+  }, [persist, deckId, activeIndex]);
+
+  // --- Decks ---
+  // Switching always writes the open deck's unsaved edits first (rather than
+  // trusting the debounce) so no edit is lost on the way out. That write is
+  // checked against other tabs like any other, so it resolves to false (and
+  // the deck stays open) while a conflict waits for the user, or when
+  // another tab's save just got merged in or raised one.
+
+  const flushDeck = async () => {
+    if (syncConflict) return false;
+    const synced = syncedRef.current?.deckId === deckId ? syncedRef.current : null;
+    if (synced && isUnchanged(currentContent(), synced.deck)) return true;
+    return commitDeck(deckId, currentContent(), synced ? synced.revision : 0);
+  };
+
+  const applyDeck = (deck: Omit<StoredDeck, 'updatedAt'>) => {
+    const content: DeckContent = {
+      name: deck.name,
+      sequences: deck.sequences,
+      timingMs: deck.timingMs,
+      transition: normalizeTransition(deck.transition),
+      sound: normalizeDeckSound(deck.sound),
+    };
+    setDeckId(deck.id);
+    setDeckName(content.name);
+    setSequences(content.sequences);
+    setTimingMs(content.timingMs);
+    setTransition(content.transition);
+    setSound(content.sound);
+    setActiveIndex(loadActiveIndex(deck.id, deck.sequences.length));
     setIsPlaying(false);
+    setHistory({ past: [], future: [] }); // undo never crosses decks
+    setSyncConflict(null);
+    loadFailedRef.current = false;
+    markSynced(deck.id, content, deck.revision ?? 0);
+    saveStored(STORAGE_KEYS.activeDeck, deck.id);
   };
 
-  // Animation Loop
-  useEffect(() => {
-    if (isPlaying) {
-      timerRef.current = setInterval(() => {
-        setActiveIndex((prev) => (prev + 1) % sequences.length);
-      }, timingMs);
+  const switchDeck = async (id: string) => {
+    if (!useIdb || id === deckId) return;
+    if (!(await flushDeck())) return;
+    const deck = await loadDeck(id);
+    if (!deck || deck.sequences.length === 0) return;
+    applyDeck(deck);
+    await refreshDecks();
+  };
+
+  // Resolve to false when nothing was created (see flushDeck).
+  const createDeck = async (name?: string) => {
+    if (!useIdb || !(await flushDeck())) return false;
+    const deck = {
+      id: newDeckId(),
+      name: name?.trim() || uniqueDeckName('New Deck', decks),
+      sequences: DEFAULT_SEQUENCES,
+      timingMs: 1500,
+      transition: DEFAULT_TRANSITION,
+      sound: DEFAULT_DECK_SOUND,
+    };
+    const revision = await writeDeck(deck);
+    applyDeck({ ...deck, revision });
+    await refreshDecks();
+    return true;
+  };
+
+  const duplicateDeck = async (id: string) => {
+    if (!useIdb || !(await flushDeck())) return false;
+    const source = id === deckId ? currentDeck() : await loadDeck(id);
+    if (!source) return false;
+    const copy = {
+      ...source,
+      id: newDeckId(),
+      name: uniqueDeckName(`${source.name} (Copy)`, decks),
+    };
+    const revision = await writeDeck(copy);
+    applyDeck({ ...copy, revision });
+    await refreshDecks();
+    return true;
+  };
+
+  const renameDeck = async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!useIdb || !trimmed) return;
+    if (id === deckId) {
+      setDeckName(trimmed); // the save effect persists it
     } else {
-      if (timerRef.current) clearInterval(timerRef.current);
+      await renameStoredDeck(id, trimmed);
+      announce({ type: 'renamed' });
     }
+    setDecks(prev => prev.map(d => (d.id === id ? { ...d, name: trimmed } : d)));
+  };
 
+  // Returns the removed deck (with its images) so the caller can offer Undo.
+  const deleteDeck = async (id: string): Promise<Omit<StoredDeck, 'updatedAt'> | null> => {
+    if (!useIdb || decks.length <= 1) return null;
+    const removed = id === deckId ? currentDeck() : await loadDeck(id);
+    if (!removed) return null;
+    if (id === deckId) {
+      const next = decks.find(d => d.id !== id);
+      const deck = next && await loadDeck(next.id);
+      if (!deck) return null;
+      applyDeck(deck);
+    }
+    await deleteStoredDeck(id);
+    announce({ type: 'deleted', deckId: id });
+    removeStored(activeIndexKey(id));
+    await refreshDecks();
+    return removed;
+  };
+
+  const restoreDeck = async (deck: Omit<StoredDeck, 'updatedAt'>) => {
+    if (!useIdb) return;
+    if (!(await flushDeck())) return;
+    const revision = await writeDeck(deck);
+    applyDeck({ ...deck, revision });
+    await refreshDecks();
+  };
+
+  // --- Other tabs ---
+  // Every write is announced (see writeDeck and the save effect). A save of
+  // the open deck is adopted when this tab has no unsaved edits, merged into
+  // them when it has, and left to the user when both changed the same thing.
+
+  // Takes another tab's version as an undoable step, keeping the selected card.
+  const adoptContent = (deck: DeckContent) => {
+    record('Changes from another tab');
+    const activeId = sequences[activeIndex]?.id;
+    const index = deck.sequences.findIndex(s => s.id === activeId);
+    setDeckName(deck.name);
+    setSequences(deck.sequences);
+    setTimingMs(deck.timingMs);
+    setTransition(deck.transition);
+    setSound(deck.sound);
+    setActiveIndex(index >= 0 ? index : Math.min(activeIndex, deck.sequences.length - 1));
+  };
+
+  const handleSyncMessage = (message: TabSyncMessage) => {
+    if (!isLoaded) return; // the load reads the latest anyway
+    if (message.type === 'renamed' || message.deckId !== deckId) {
+      if (useIdb) refreshDecks();
+      return;
+    }
+    if (message.type === 'deleted') {
+      setSyncConflict({ kind: 'deleted' });
+      refreshDecks();
+      return;
+    }
+    if (useIdb) refreshDecks();
+
+    const base = syncedRef.current?.deckId === deckId ? syncedRef.current : null;
+    // Already seen, or overtaken by a later save (whose tab merged this one).
+    if (base && message.revision <= base.revision) return;
+    const theirs = message.deck;
+    const mine = currentContent();
+    markSynced(deckId, theirs, message.revision);
+    if (syncConflict) {
+      // Still waiting on the user: offer their latest version instead.
+      if (syncConflict.kind === 'edited') setSyncConflict({ ...syncConflict, deck: theirs });
+      return;
+    }
+    if (!base || isUnchanged(mine, base.deck)) {
+      adoptContent(theirs);
+      return;
+    }
+    const merged = mergeDeckContent(base.deck, mine, theirs);
+    if (merged.deck) {
+      // Differs from what was just received, so the save effect writes it
+      // and the other tab picks up the merge in turn.
+      adoptContent(merged.deck);
+      setMergedAt(Date.now());
+    } else {
+      setSyncConflict({ kind: 'edited', deck: theirs, conflicts: merged.conflicts });
+    }
+  };
+
+  const syncHandlerRef = useRef(handleSyncMessage);
+  syncHandlerRef.current = handleSyncMessage;
+
+  useEffect(() => {
+    if (!persist || !isTabSyncSupported()) return;
+    const channel = new BroadcastChannel(TAB_SYNC_CHANNEL);
+    channelRef.current = channel;
+    channel.onmessage = (e: MessageEvent<TabSyncMessage>) => syncHandlerRef.current(e.data);
     return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
+      channel.close();
+      channelRef.current = null;
     };
-  }, [isPlaying, timingMs, sequences.length]);
+  }, [persist]);
+
+  // Overwrite the other tab's version (or bring back the deck it deleted).
+  const keepMine = () => {
+    if (!syncConflict) return;
+    if (syncConflict.kind === 'deleted') syncedRef.current = null;
+    setSyncConflict(null);
+  };
+
+  const takeTheirs = async () => {
+    if (!syncConflict) return;
+    if (syncConflict.kind === 'edited') {
+      adoptContent(syncConflict.deck);
+      setSyncConflict(null);
+      return;
+    }
+    const [first] = await listDecks();
+    const deck = first && await loadDeck(first.id);
+    if (deck && deck.sequences.length > 0) applyDeck(deck);
+    await refreshDecks();
+  };
+
+  // Animation Loop. Cards can have their own duration, so each advance is a
+  // one-shot timer sized to the card being shown rather than a fixed interval.
+  const currentDurationMs = cardDurationMs(sequences[activeIndex] ?? {}, timingMs);
+  useEffect(() => {
+    if (!isPlaying) return;
+    timerRef.current = setTimeout(() => {
+      setActiveIndex((prev) => (prev + 1) % sequences.length);
+    }, currentDurationMs);
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [isPlaying, activeIndex, currentDurationMs, sequences.length]);
+
+  // --- Undo / redo ---
+
+  // Call before applying an edit. `label` may be a function of the state the
+  // step started from, so a merged slider drag reads "Zoom 1 → 1.4" rather
+  // than naming only its last frame. Returns the new step (see undoStep);
+  // only meaningful for edits without a group, which never merge.
+  const record = (
+    label: string | ((before: DeckSnapshot) => string),
+    opts: { card?: string; group?: string } = {}
+  ) => {
+    loadFailedRef.current = false;
+    const now = Date.now();
+    const current: DeckSnapshot = { sequences, activeIndex, timingMs, transition, sound };
+    const describe = (before: DeckSnapshot) => (typeof label === 'function' ? label(before) : label);
+    const entry: HistoryEntry = { label: describe(current), card: opts.card, group: opts.group, at: now, state: current };
+    setHistory(prev => {
+      const last = prev.past[prev.past.length - 1];
+      if (opts.group && last?.group === opts.group && now - last.at < GROUP_WINDOW_MS) {
+        const merged = { ...last, label: describe(last.state), at: now };
+        return { past: [...prev.past.slice(0, -1), merged], future: [] };
+      }
+      return { past: [...prev.past, entry].slice(-HISTORY_LIMIT), future: [] };
+    });
+    return entry;
+  };
+
+  const restore = (snap: DeckSnapshot) => {
+    setSequences(snap.sequences);
+    setActiveIndex(Math.min(snap.activeIndex, snap.sequences.length - 1));
+    setTimingMs(snap.timingMs);
+    setTransition(snap.transition);
+    // Mute and volume are how loud the room is, not part of the deck's
+    // edit history; undo only brings back the voicing.
+    setSound(prev => ({ ...snap.sound, muted: prev.muted, volume: prev.volume }));
+    setIsPlaying(false);
+  };
+
+  // An undone/redone step never absorbs the next edit, even a quick one.
+  const sealed = (entries: HistoryEntry[]) =>
+    entries.map((e, i) => (i === entries.length - 1 && e.group ? { ...e, group: undefined } : e));
+
+  // Undo `steps` edits at once (the history panel jumps straight to a step).
+  // Each undone entry moves to the redo stack holding the state it produced.
+  const undo = (steps = 1) => {
+    const n = Math.min(steps, history.past.length);
+    if (n <= 0) return;
+    let state: DeckSnapshot = { sequences, activeIndex, timingMs, transition, sound };
+    const undone: HistoryEntry[] = [];
+    for (let i = history.past.length - 1; i >= history.past.length - n; i--) {
+      const entry = history.past[i];
+      undone.unshift({ ...entry, group: undefined, state });
+      state = entry.state;
+    }
+    setHistory({ past: sealed(history.past.slice(0, -n)), future: [...undone, ...history.future] });
+    restore(state);
+  };
+
+  // Undo one particular step, but only while it is still the latest: an Undo
+  // offered for a deletion must not take back an edit made after it.
+  // Returns whether it did.
+  const undoStep = (entry: HistoryEntry) => {
+    if (history.past[history.past.length - 1] !== entry) return false;
+    undo();
+    return true;
+  };
+
+  const redo = (steps = 1) => {
+    const n = Math.min(steps, history.future.length);
+    if (n <= 0) return;
+    let state: DeckSnapshot = { sequences, activeIndex, timingMs, transition, sound };
+    const redone: HistoryEntry[] = [];
+    for (const entry of history.future.slice(0, n)) {
+      redone.push({ ...entry, state });
+      state = entry.state;
+    }
+    setHistory({ past: sealed([...history.past, ...redone]), future: history.future.slice(n) });
+    restore(state);
+  };
+
+  // --- Edits ---
 
   const handleSequenceUpdate = (id: number, updates: Partial<Sequence>) => {
+    const card = sequences.find(s => s.id === id);
+    if (!card) return;
+    const keys = Object.keys(updates) as (keyof Sequence)[];
+    if (keys.every(k => card[k] === updates[k])) return;
+    // Typing in the name/description fields is one step per burst, not per key.
+    const group = updates.name !== undefined
+      ? `name:${id}`
+      : updates.description !== undefined
+        ? `description:${id}`
+        : 'durationMs' in updates
+          ? `duration:${id}`
+          : 'animation' in updates
+            ? `animation:${id}`
+            : 'sound' in updates ? `sound:${id}` : undefined;
+    record(
+      before => describeSequenceUpdate(before.sequences.find(s => s.id === id) ?? card, updates),
+      { card: card.name, group }
+    );
     setSequences(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
   };
 
-  // Resize a specific sequence's data array to match a new length
-  const resizeSequence = (id: number, length: number) => {
-    setSequences(prev => prev.map(seq => {
-        if (seq.id !== id) return seq;
-        if (seq.data.length === length) return seq;
-
-        let newData;
-        if (seq.data.length > length) {
-            // Trim
-            newData = seq.data.slice(0, length);
-        } else {
-            // Pad with zeros
-            const diff = length - seq.data.length;
-            newData = [...seq.data, ...new Array(diff).fill(0)];
-        }
-        return { ...seq, data: newData };
+  // Replace a card's geometry, resizing its steps when the sequence length
+  // changes. Slider-only changes to the same control merge into one step.
+  const updateGeoConfig = (id: number, geoConfig: GeoConfig) => {
+    const card = sequences.find(s => s.id === id);
+    if (!card) return;
+    const keys = changedGeoKeys(card.geoConfig, geoConfig);
+    if (keys.length === 0) return;
+    const resize = keys.includes('sequenceLength');
+    const isSlider = !resize && keys.every(k => typeof geoConfig[k] === 'number');
+    record(
+      before => describeGeoChange(before.sequences.find(s => s.id === id)?.geoConfig ?? card.geoConfig, geoConfig, keys),
+      { card: card.name, group: isSlider ? `geo:${id}:${keys.join(',')}` : undefined }
+    );
+    setSequences(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const data = resize && s.data.length !== geoConfig.sequenceLength
+        ? resizeData(s.data, geoConfig.sequenceLength)
+        : s.data;
+      return { ...s, geoConfig, data };
     }));
   };
 
+  const changeTimingMs = (ms: number) => {
+    if (ms === timingMs) return;
+    record(before => `Timing ${before.timingMs} → ${ms} ms`, { group: 'timing' });
+    setTimingMs(ms);
+  };
+
+  const changeTransition = (next: Transition) => {
+    if (next.type === transition.type && next.durationMs === transition.durationMs) return;
+    if (next.type !== transition.type) {
+      record(`Transition: ${transitionLabel(next.type)}`);
+    } else {
+      record(
+        before => `Transition length ${before.transition.durationMs / 1000}s → ${next.durationMs / 1000}s`,
+        { group: 'transition' }
+      );
+    }
+    setTransition(next);
+  };
+
+  // Voice, pitch and crossfade are deck edits (undoable); mute and volume
+  // just change.
+  const changeSound = (next: DeckSound) => {
+    if (next.voice !== sound.voice) {
+      record(`Sound: ${soundVoiceLabel(next.voice)}`);
+    } else if (next.baseHz !== sound.baseHz) {
+      record(before => `Sound pitch ${before.sound.baseHz} → ${next.baseHz} Hz`, { group: 'sound:pitch' });
+    } else if (next.crossfadeMs !== sound.crossfadeMs) {
+      record(before => `Sound crossfade ${before.sound.crossfadeMs / 1000}s → ${next.crossfadeMs / 1000}s`, { group: 'sound:crossfade' });
+    }
+    setSound(next);
+  };
+
   const addSequence = () => {
     const newId = nextSeqId(sequences);
     // Clone configuration from the currently active sequence for continuity
@@ -122,6 +774,7 @@ export const useSequencer = () => {
         geoConfig: baseConfig
     };
     
+    record('Added card', { card: newSeq.name });
     const newSequences = [...sequences, newSeq];
     setSequences(newSequences);
     // Select the new sequence
@@ -129,20 +782,38 @@ export const useSequencer = () => {
     setIsPlaying(false);
   };
 
-  const importSequence = (importedSeq: Sequence) => {
-      const newId = nextSeqId(sequences);
-
-      const newSeq: Sequence = {
-          ...importedSeq,
-          id: newId,
-          // If name collides? we just append (Copy) or keep original? 
-          // Keeping original name is usually better for imports.
-      };
+  // Append one or more cards (from a PNG, SVG or spreadsheet) with fresh ids,
+  // in one state update and one undo step, and select the first of them.
+  const importSequence = (imported: Sequence | Sequence[]) => {
+      const list = Array.isArray(imported) ? imported : [imported];
+      if (list.length === 0) return;
+      // Fresh ids; a name already in the deck gets a number ("Card (2)").
+      const plan = planImport(sequences, list, 'append');
+
+      record(
+          list.length === 1 ? 'Imported card' : `Imported ${list.length} cards`,
+          { card: list.length === 1 ? plan.cards[0].name : undefined }
+      );
+      setSequences(plan.sequences);
+      setActiveIndex(sequences.length);
+      setIsPlaying(false);
+  };
 
-      const newSequences = [...sequences, newSeq];
-      setSequences(newSequences);
-      setActiveIndex(newSequences.length - 1);
+  // Another deck's cards added to this one (see utils/deckImport.ts), as one
+  // undo step. Timing, transition and sound stay this deck's. Selects the
+  // first incoming card.
+  const mergeSequences = (incoming: Sequence[], mode: Exclude<ImportMode, 'replace'>): ImportPlan | null => {
+      if (incoming.length === 0) return null;
+      const plan = planImport(sequences, incoming, mode);
+      const parts = [
+          plan.added > 0 ? `added ${plan.added}` : '',
+          plan.updated > 0 ? `updated ${plan.updated}` : '',
+      ].filter(Boolean).join(', ');
+      record(`Imported cards (${parts})`, { card: incoming.length === 1 ? plan.cards[0].name : undefined });
+      setSequences(plan.sequences);
+      setActiveIndex(plan.cards[0].index);
       setIsPlaying(false);
+      return plan;
   };
 
   // Add one new card per supplied image (data URL). Each card renders the
@@ -152,6 +823,10 @@ export const useSequencer = () => {
   const addImageSequences = (images: { src: string; name?: string; srcDark?: string }[]) => {
       if (images.length === 0) return;
 
+      record(
+        images.length === 1 ? 'Added image card' : `Added ${images.length} image cards`,
+        { card: images.length === 1 ? images[0].name : undefined }
+      );
       setSequences(prev => {
           let nextId = nextSeqId(prev);
           const activeSeq = prev[activeIndex] || prev[0];
@@ -191,6 +866,7 @@ export const useSequencer = () => {
           geoConfig: { ...sourceSeq.geoConfig }
       };
 
+      record('Duplicated card', { card: sourceSeq.name });
       const newSequences = [...sequences, newSeq];
       setSequences(newSequences);
       setActiveIndex(newSequences.length - 1);
@@ -203,7 +879,7 @@ export const useSequencer = () => {
     const idxToDelete = sequences.findIndex(s => s.id === id);
     if (idxToDelete === -1) return;
 
-    snapshot();
+    const step = record('Deleted card', { card: sequences[idxToDelete].name });
 
     const newSequences = sequences.filter(s => s.id !== id);
     setSequences(newSequences);
@@ -216,11 +892,13 @@ export const useSequencer = () => {
         // If we deleted something before the current one, shift index left
         setActiveIndex(activeIndex - 1);
     }
+    return step;
   };
 
   const reorderSequences = (fromIndex: number, toIndex: number) => {
       if (fromIndex === toIndex) return;
 
+      record(`Moved card ${fromIndex + 1} → ${toIndex + 1}`, { card: sequences[fromIndex].name });
       const activeId = sequences[activeIndex].id;
       const newSequences = [...sequences];
       const [moved] = newSequences.splice(fromIndex, 1);
@@ -236,14 +914,21 @@ export const useSequencer = () => {
   };
 
   const resetSequences = () => {
-      snapshot();
+      const step = record('Reset all cards');
       setSequences(DEFAULT_SEQUENCES);
       setActiveIndex(0);
       setIsPlaying(false);
+      return step;
   };
 
-  const loadSequences = (newSequences: Sequence[]) => {
+  // Replace the whole deck (a loaded config or link), optionally with its
+  // timing, transition and sound. A loaded deck never unmutes the player.
+  const loadSequences = (newSequences: Sequence[], newTimingMs?: number, newTransition?: Transition, newSound?: DeckSound) => {
+      record(`Loaded ${newSequences.length} card${newSequences.length === 1 ? '' : 's'}`);
       setSequences(newSequences);
+      if (newTimingMs) setTimingMs(newTimingMs);
+      if (newTransition) setTransition(normalizeTransition(newTransition));
+      if (newSound) setSound(prev => ({ ...normalizeDeckSound(newSound), muted: prev.muted, volume: prev.volume }));
       setActiveIndex(0);
       setIsPlaying(false); // Let the caller decide if they want to start playing
   };
@@ -263,11 +948,16 @@ export const useSequencer = () => {
     isPlaying,
     setPlaying,
     timingMs,
-    setTimingMs,
+    setTimingMs: changeTimingMs,
+    transition,
+    setTransition: changeTransition,
+    sound,
+    setSound: changeSound,
     updateSequence: handleSequenceUpdate,
-    resizeSequence,
+    updateGeoConfig,
     addSequence,
     importSequence,
+    mergeSequences,
     addImageSequences,
     duplicateSequence,
     deleteSequence,
@@ -276,6 +966,30 @@ export const useSequencer = () => {
     loadSequences,
     togglePlay,
     selectSequence,
-    undo
+    history,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo,
+    undoStep,
+    redo,
+    isLoaded,
+    storage,
+    // Decks (named workspaces). Unavailable without IndexedDB.
+    decksEnabled: useIdb,
+    deckId,
+    deckName,
+    // The open deck's live name/count override its last-saved summary (and it
+    // is listed even before its first save lands).
+    decks: decks.some(d => d.id === deckId)
+      ? decks.map(d => (d.id === deckId ? { ...d, name: deckName, cardCount: sequences.length } : d))
+      : [{ id: deckId, name: deckName, cardCount: sequences.length, updatedAt: Date.now() }, ...decks],
+    switchDeck,
+    createDeck,
+    duplicateDeck,
+    renameDeck,
+    deleteDeck,
+    restoreDeck,
+    // Other tabs editing the same deck.
+    sync: { conflict: syncConflict, mergedAt, keepMine, takeTheirs },
   };
 };
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { DeckSound, Sequence } from '../types';
+import { Voice, cardPitch, cardVoice, createVoice } from '../utils/audio';
+
+// Sounds the shown card while the player is unmuted. The AudioContext is only
+// created on the first unmute (browsers refuse audio before a click), a new
+// card crossfades from the old one's voice over `sound.crossfadeMs`, and
+// volume / mute ramp the master gain so neither clicks. Cards that voice the
+// same note hold it rather than restarting.
+export const useSoundEngine = (card: Sequence | undefined, sound: DeckSound) => {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const masterRef = useRef<GainNode | null>(null);
+  const playingRef = useRef<{ key: string; voice: Voice } | null>(null);
+
+  const voice = card ? cardVoice(card, sound.voice) : null;
+  const hz = card ? cardPitch(card, sound.baseHz) : 0;
+  const key = voice ? `${voice}:${hz}` : '';
+
+  // Fade the sounding voice out and let it stop itself.
+  const release = (seconds: number) => {
+    const ctx = ctxRef.current;
+    const playing = playingRef.current;
+    if (!ctx || !playing) return;
+    const t = ctx.currentTime;
+    playing.voice.gain.cancelScheduledValues(t);
+    playing.voice.gain.setValueAtTime(playing.voice.gain.value, t);
+    playing.voice.gain.linearRampToValueAtTime(0, t + seconds);
+    playing.voice.stop(t + seconds + 0.05);
+    playingRef.current = null;
+  };
+
+  useEffect(() => {
+    if (sound.muted && !ctxRef.current) return;
+    if (!ctxRef.current) {
+      const ctx = new AudioContext();
+      const master = ctx.createGain();
+      master.gain.value = 0;
+      master.connect(ctx.destination);
+      ctxRef.current = ctx;
+      masterRef.current = master;
+    }
+    const ctx = ctxRef.current;
+    if (!sound.muted) ctx.resume().catch(() => {});
+    masterRef.current!.gain.setTargetAtTime(sound.muted ? 0 : sound.volume, ctx.currentTime, 0.05);
+  }, [sound.muted, sound.volume]);
+
+  useEffect(() => {
+    const ctx = ctxRef.current;
+    if (!ctx || sound.muted || !voice) {
+      release(0.2);
+      return;
+    }
+    if (playingRef.current?.key === key) return;
+    const fade = sound.crossfadeMs / 1000;
+    release(fade);
+    const next = createVoice(ctx, voice, hz, masterRef.current!);
+    const t = ctx.currentTime;
+    next.gain.setValueAtTime(0, t);
+    next.gain.linearRampToValueAtTime(1, t + fade);
+    next.start(t);
+    playingRef.current = { key, voice: next };
+  }, [key, sound.muted]);
+
+  useEffect(() => () => {
+    ctxRef.current?.close().catch(() => {});
+  }, []);
+};
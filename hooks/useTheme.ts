@@ -1,16 +1,17 @@
 import { useState, useEffect } from 'react';
+import { readShareParams } from '../utils/shareLink';
 import { isPersistenceEnabled, loadStored, saveStored, STORAGE_KEYS } from '../utils/storage';
 
 export const useTheme = () => {
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
       // 1. Check URL override first to prevent flashing or system override
-      const params = new URLSearchParams(window.location.search);
+      const params = readShareParams();
       const themeParam = params.get('t');
       if (themeParam === 'dark') return true;
       if (themeParam === 'light') return false;
 
-      // 2. Restore the user's saved preference (skipped for shared ?c= links)
+      // 2. Restore the user's saved preference (skipped for shared links)
       if (isPersistenceEnabled()) {
         const stored = loadStored<string | null>(STORAGE_KEYS.theme, null);
         if (stored === 'dark') return true;
@@ -1,20 +1,38 @@
 /**
  * Video Export Hook for QRP Generator
- * Handles rendering sequences to video using mediabunny
+ * Handles rendering sequences to video (MP4/WebM via mediabunny) or to
+ * animated GIF/APNG
  */
 
 import { useRef, useCallback, useState } from 'react';
 import {
   Output,
   Mp4OutputFormat,
+  WebMOutputFormat,
   BufferTarget,
   CanvasSource,
+  AudioBufferSource,
   VideoEncodingConfig,
+  Quality,
+  QUALITY_LOW,
+  QUALITY_MEDIUM,
   QUALITY_HIGH,
+  QUALITY_VERY_HIGH,
   getFirstEncodableVideoCodec,
+  getFirstEncodableAudioCodec,
   VideoCodec,
+  Input,
+  BlobSource,
+  ALL_FORMATS,
 } from 'mediabunny';
 import { Sequence } from '../types';
+import { cardDurationMs } from '../utils/timing';
+import {
+  DEFAULT_VIDEO_SETTINGS, VIDEO_CODEC_LABELS, VIDEO_CODEC_ORDER, VIDEO_FORMATS, VideoExportSettings,
+  VideoQuality, isAnimatedImage,
+} from '../utils/videoSettings';
+import { createGifWriter } from '../utils/gif';
+import { createApngWriter } from '../utils/png';
 
 export interface VideoExportState {
   isExporting: boolean;
@@ -23,13 +41,194 @@ export interface VideoExportState {
   error: string | null;
 }
 
-export interface UseVideoExportOptions {
-  width?: number;
-  height?: number;
+export type UseVideoExportOptions = Partial<Pick<VideoExportSettings, 'format' | 'width' | 'height' | 'fps' | 'quality' | 'bitrateMbps' | 'codec'>>;
+
+const QUALITY_PRESETS: Record<VideoQuality, Quality> = {
+  low: QUALITY_LOW,
+  medium: QUALITY_MEDIUM,
+  high: QUALITY_HIGH,
+  'very-high': QUALITY_VERY_HIGH,
+};
+
+// A scene's place in the output, in seconds, from its rounded frame count.
+export interface ExportScene {
+  start: number;
+  duration: number;
+}
+
+// Copy of `buffer` between two sample frames.
+const sliceAudio = (buffer: AudioBuffer, from: number, to: number) => {
+  const slice = new AudioBuffer({
+    length: to - from,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    slice.copyToChannel(buffer.getChannelData(ch).subarray(from, to), ch);
+  }
+  return slice;
+};
+
+// Where rendered frames go. Each call to `add` takes whatever is on the
+// canvas at that moment; times are in seconds.
+interface FrameSink {
+  add: (timestamp: number, duration: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  cancel: () => Promise<void>;
 }
 
+// Metadata tag carrying the compressed deck config (compressConfig output),
+// so a video can be dropped back onto Load Configuration like a PNG card.
+// MP4 stores it as a 'qrpc' item in moov/udta/meta/ilst (item names are four
+// characters); WebM as a SimpleTag of the same name.
+export const VIDEO_CONFIG_TAG = 'qrpc';
+
+const createVideoSink = async (
+  canvas: HTMLCanvasElement,
+  format: 'mp4' | 'webm',
+  encodingConfig: VideoEncodingConfig,
+  framerate: number,
+  audio: AudioBuffer | null,
+  config?: string
+): Promise<FrameSink> => {
+  const target = new BufferTarget();
+  const outputFormat = format === 'webm' ? new WebMOutputFormat() : new Mp4OutputFormat({ fastStart: 'in-memory' });
+  const output = new Output({ format: outputFormat, target });
+  if (config) {
+    output.setMetadataTags({ comment: 'Made with QRP', raw: { [VIDEO_CONFIG_TAG]: config } });
+  }
+
+  // Create canvas source for video
+  const canvasSource = new CanvasSource(canvas, encodingConfig);
+
+  // Add video track
+  output.addVideoTrack(canvasSource, {
+    frameRate: framerate,
+    name: 'QRP Sequence Animation',
+  });
+
+  let audioSource: AudioBufferSource | null = null;
+  if (audio) {
+    const audioCodec = await getFirstEncodableAudioCodec(outputFormat.getSupportedAudioCodecs(), {
+      numberOfChannels: audio.numberOfChannels,
+      sampleRate: audio.sampleRate,
+      bitrate: QUALITY_HIGH,
+    });
+    if (!audioCodec) {
+      throw new Error(`This browser can't encode audio for ${VIDEO_FORMATS[format].label}. Export without audio, or try another format.`);
+    }
+    audioSource = new AudioBufferSource({ codec: audioCodec, bitrate: QUALITY_HIGH });
+    output.addAudioTrack(audioSource, { name: 'QRP Soundtrack' });
+  }
+
+  // Start output
+  await output.start();
+
+  // Audio goes in about a second at a time, just ahead of the video, so the
+  // muxer interleaves the two tracks as it goes.
+  let audioFed = 0; // sample frames
+  const feedAudio = async (untilSeconds: number) => {
+    if (!audio || !audioSource) return;
+    const until = Math.min(audio.length, Math.ceil(untilSeconds * audio.sampleRate));
+    while (audioFed < until) {
+      const next = Math.min(until, audioFed + audio.sampleRate);
+      await audioSource.add(sliceAudio(audio, audioFed, next));
+      audioFed = next;
+    }
+  };
+
+  return {
+    add: async (timestamp, duration) => {
+      await canvasSource.add(timestamp, duration);
+      await feedAudio(timestamp + duration + 1);
+    },
+    finish: async () => {
+      await feedAudio(Infinity);
+      audioSource?.close();
+      canvasSource.close();
+      await output.finalize();
+      // Create blob from buffer
+      const buffer = target.buffer;
+      if (!buffer) {
+        throw new Error('Failed to create video buffer');
+      }
+      return new Blob([buffer], { type: VIDEO_FORMATS[format].mimeType });
+    },
+    cancel: () => output.cancel(),
+  };
+};
+
+// Longest a merged GIF/APNG frame may be held (APNG delays are 16-bit ms).
+const MAX_HOLD_SECONDS = 60;
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) return reject(new Error('Could not encode frame'));
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/png');
+  });
+
+const sameBytes = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+// GIF/APNG. Runs of identical frames (a held card with rotation off) are
+// merged into one longer frame, which keeps the files small. Delays come from
+// rounded absolute times so they don't drift over a long loop.
+const createAnimatedImageSink = (canvas: HTMLCanvasElement, format: 'gif' | 'apng'): FrameSink => {
+  const gif = format === 'gif' ? createGifWriter(canvas.width, canvas.height) : null;
+  const apng = format === 'apng' ? createApngWriter() : null;
+  let pending: { frame: Uint8Array | Uint8ClampedArray; start: number; end: number } | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    const { frame, start, end } = pending;
+    if (gif) gif.addFrame(frame as Uint8ClampedArray, Math.round(end * 100) - Math.round(start * 100));
+    else apng!.addFrame(frame as Uint8Array, Math.round(end * 1000) - Math.round(start * 1000));
+    pending = null;
+  };
+
+  return {
+    add: async (timestamp, duration) => {
+      let frame: Uint8Array | Uint8ClampedArray;
+      if (gif) {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+        frame = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+      } else {
+        frame = await canvasToPng(canvas);
+      }
+      const end = timestamp + duration;
+      if (pending && end - pending.start <= MAX_HOLD_SECONDS && sameBytes(pending.frame, frame)) {
+        pending.end = end;
+        return;
+      }
+      flush();
+      pending = { frame, start: timestamp, end };
+    },
+    finish: async () => {
+      flush();
+      return gif ? gif.finish() : apng!.finish();
+    },
+    cancel: async () => {
+      pending = null;
+    },
+  };
+};
+
 export const useVideoExport = (options: UseVideoExportOptions = {}) => {
-  const { width = 1000, height = 1000 } = options;
+  const {
+    format = DEFAULT_VIDEO_SETTINGS.format,
+    width = DEFAULT_VIDEO_SETTINGS.width,
+    height = DEFAULT_VIDEO_SETTINGS.height,
+    fps = DEFAULT_VIDEO_SETTINGS.fps,
+    quality = DEFAULT_VIDEO_SETTINGS.quality,
+    bitrateMbps = DEFAULT_VIDEO_SETTINGS.bitrateMbps,
+    codec: preferredCodec = DEFAULT_VIDEO_SETTINGS.codec,
+  } = options;
   
   const [state, setState] = useState<VideoExportState>({
     isExporting: false,
@@ -45,27 +244,34 @@ export const useVideoExport = (options: UseVideoExportOptions = {}) => {
   }, []);
 
   const createEncodingConfig = useCallback(async (): Promise<VideoEncodingConfig> => {
-    const codecOrder: VideoCodec[] = ['avc', 'hevc', 'vp9', 'av1', 'vp8'];
-    const codec = await getFirstEncodableVideoCodec(codecOrder, { width, height, bitrate: QUALITY_HIGH });
+    const bitrate = quality === 'bitrate' ? Math.round(bitrateMbps * 1_000_000) : QUALITY_PRESETS[quality];
+    // A codec the container can't hold falls back to the container's own order.
+    const containerCodecs = VIDEO_FORMATS[format].codecs;
+    const codecOrder = preferredCodec !== 'auto' && containerCodecs.includes(preferredCodec) ? [preferredCodec] : containerCodecs;
+    const codec = await getFirstEncodableVideoCodec(codecOrder, { width, height, bitrate });
 
     if (!codec) {
-      throw new Error('No supported video codec found. Please use a modern browser with WebCodecs support.');
+      throw new Error(codecOrder.length > 1
+        ? 'No supported video codec found. Please use a modern browser with WebCodecs support.'
+        : `This browser can't encode ${VIDEO_CODEC_LABELS[preferredCodec]} at ${width}×${height}. Try another codec or a smaller size.`);
     }
 
     return {
       codec,
-      bitrate: 8_000_000,
+      bitrate,
       keyFrameInterval: 2,
       latencyMode: 'quality',
       bitrateMode: 'variable',
     };
-  }, [width, height]);
+  }, [format, width, height, quality, bitrateMbps, preferredCodec]);
 
-  const exportVideo = useCallback(async (
-    sequences: Sequence[],
+  const exportVideo = useCallback(async <S extends Sequence>(
+    sequences: S[],
     timingMs: number,
     isDarkMode: boolean,
-    renderFrame: (sequence: Sequence, canvas: HTMLCanvasElement, frameIndex: number, totalFramesPerScene: number) => Promise<void>
+    renderFrame: (sequence: S, canvas: HTMLCanvasElement, frameIndex: number, totalFramesPerScene: number, previous?: S) => Promise<void>,
+    soundtrack?: (scenes: ExportScene[]) => Promise<AudioBuffer | null>,
+    config?: string
   ): Promise<Blob | null> => {
     if (sequences.length === 0) {
       setState(prev => ({ ...prev, error: 'No sequences to export' }));
@@ -83,85 +289,77 @@ export const useVideoExport = (options: UseVideoExportOptions = {}) => {
     });
 
     try {
-      const framerate = 30; // Fixed 30fps
+      const framerate = fps;
       const frameDuration = 1 / framerate; // Duration of each frame in seconds
-      const sceneDuration = timingMs / 1000; // Duration of each scene in seconds
-      const framesPerScene = Math.round(sceneDuration * framerate); // Number of frames per scene
-
-      updateProgress(5, 'Creating video encoder...');
-
-      // Create encoding config
-      const encodingConfig = await createEncodingConfig();
-
-      // Create output components
-      const target = new BufferTarget();
-      const format = new Mp4OutputFormat({ fastStart: 'in-memory' });
-      const output = new Output({ format, target });
+      // Cards may set their own duration; the rest use the deck timing.
+      const sceneFrames = sequences.map(seq =>
+        Math.max(1, Math.round((cardDurationMs(seq, timingMs) / 1000) * framerate))
+      );
+      const totalFrames = sceneFrames.reduce((sum, n) => sum + n, 0);
+      let elapsedFrames = 0;
+      const scenes: ExportScene[] = sceneFrames.map(n => {
+        const scene = { start: elapsedFrames / framerate, duration: n / framerate };
+        elapsedFrames += n;
+        return scene;
+      });
 
       // Create canvas for rendering
       const canvas = document.createElement('canvas');
       canvas.width = width;
       canvas.height = height;
 
-      // Create canvas source for video
-      const canvasSource = new CanvasSource(canvas, encodingConfig);
-
-      // Add video track
-      output.addVideoTrack(canvasSource, {
-        frameRate: framerate,
-        name: 'QRP Sequence Animation',
-      });
-
-      // Start output
-      await output.start();
+      let sink: FrameSink;
+      if (format === 'gif' || format === 'apng') {
+        sink = createAnimatedImageSink(canvas, format);
+      } else {
+        // Animated images have no audio track; video takes the soundtrack if one is set.
+        let audio: AudioBuffer | null = null;
+        if (soundtrack) {
+          updateProgress(2, 'Rendering audio...');
+          audio = await soundtrack(scenes);
+        }
+        updateProgress(5, 'Creating video encoder...');
+        sink = await createVideoSink(canvas, format, await createEncodingConfig(), framerate, audio, config);
+      }
 
       updateProgress(10, 'Starting frame capture...');
 
       // Process each sequence
       let currentTimestamp = 0;
-      const totalScenes = sequences.length;
       let globalFrameIndex = 0;
 
       for (let sceneIndex = 0; sceneIndex < sequences.length; sceneIndex++) {
         if (abortController.signal.aborted) {
-          await output.cancel();
+          await sink.cancel();
           setState(prev => ({ ...prev, error: 'Export cancelled' }));
           return null;
         }
 
         const sequence = sequences[sceneIndex];
-        
+        const framesPerScene = sceneFrames[sceneIndex];
+
         // Render all frames for this scene
         for (let frameInScene = 0; frameInScene < framesPerScene; frameInScene++) {
-          const progress = 10 + ((globalFrameIndex / (totalScenes * framesPerScene)) * 85);
+          const progress = 10 + ((globalFrameIndex / totalFrames) * 85);
           updateProgress(progress, `Rendering frame ${globalFrameIndex + 1}...`);
 
           // Render the frame using the provided callback
-          await renderFrame(sequence, canvas, frameInScene, framesPerScene);
+          // (the previous scene lets the callback draw a transition into this one)
+          await renderFrame(sequence, canvas, frameInScene, framesPerScene, sequences[sceneIndex - 1]);
 
-          // Add frame to video
-          await canvasSource.add(currentTimestamp, frameDuration);
+          // Add frame to the output
+          await sink.add(currentTimestamp, frameDuration);
           currentTimestamp += frameDuration;
           globalFrameIndex++;
         }
       }
 
-      updateProgress(95, 'Finalizing video...');
+      updateProgress(95, isAnimatedImage(format) ? `Writing ${VIDEO_FORMATS[format].label}...` : 'Finalizing video...');
 
-      // Close source and finalize
-      canvasSource.close();
-      await output.finalize();
+      const blob = await sink.finish();
 
       updateProgress(100, 'Export complete!');
 
-      // Create blob from buffer
-      const buffer = target.buffer;
-      if (!buffer) {
-        throw new Error('Failed to create video buffer');
-      }
-
-      const blob = new Blob([buffer], { type: 'video/mp4' });
-
       setState(prev => ({ ...prev, isExporting: false }));
       return blob;
 
@@ -170,7 +368,7 @@ export const useVideoExport = (options: UseVideoExportOptions = {}) => {
       setState(prev => ({ ...prev, isExporting: false, error: message }));
       return null;
     }
-  }, [width, height, updateProgress, createEncodingConfig]);
+  }, [format, width, height, fps, updateProgress, createEncodingConfig]);
 
   const cancelExport = useCallback(() => {
     if (abortControllerRef.current) {
@@ -203,15 +401,26 @@ export const isWebCodecsSupported = (): boolean => {
 };
 
 /**
- * Triggers download of a video blob
+ * Codecs this browser can encode at the given size, in preference order
+ */
+export const getEncodableCodecs = async (width: number, height: number): Promise<VideoCodec[]> => {
+  const results = await Promise.all(
+    VIDEO_CODEC_ORDER.map(codec => getFirstEncodableVideoCodec([codec], { width, height }))
+  );
+  return results.filter((codec): codec is VideoCodec => codec !== null);
+};
+
+/**
+ * Reads the deck config stored by an MP4 / WebM export; null when the file has none
  */
-export const downloadVideo = (blob: Blob, filename: string): void => {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+export const readVideoConfig = async (file: Blob): Promise<string | null> => {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  try {
+    const value = (await input.getMetadataTags()).raw?.[VIDEO_CONFIG_TAG];
+    return typeof value === 'string' ? value : null;
+  } catch {
+    return null;
+  } finally {
+    input.dispose();
+  }
 };
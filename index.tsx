@@ -2,7 +2,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './src/styles.css';
 import App from './App';
+import AudienceView from './components/AudienceView';
 import { ToastProvider } from './components/ui/Toast';
+import { isAudienceWindow } from './utils/presenter';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,7 +15,8 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ToastProvider>
-      <App />
+      {/* The projector window of presenter mode draws only what it is sent. */}
+      {isAudienceWindow() ? <AudienceView /> : <App />}
     </ToastProvider>
   </React.StrictMode>
 );
\ No newline at end of file
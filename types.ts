@@ -60,8 +60,9 @@ export interface Sequence {
     data: number[];
     geoConfig: GeoConfig;
     // Optional uploaded image (data URL). When set, the card renders this image
-    // instead of the generated geometry. Not included in share URLs (too large);
-    // persisted only via JSON save and exported PNG/MP4 frames.
+    // instead of the generated geometry. Share URLs carry library images by id
+    // and leave uploaded ones out (too large); those persist only via JSON save
+    // and exported PNG/MP4 frames.
     imageSrc?: string;
     // Library line-art cards ship a theme pair: imageSrc is the light layer
     // (black ink) and imageSrcDark the dark layer (white ink). When imageSrcDark
@@ -73,4 +74,52 @@ export interface Sequence {
     imageInvert?: boolean;
     // Draw a frame around the image card. Default off.
     imageFrame?: boolean;
-}
\ No newline at end of file
+    // How long this card is shown (ms) in playback and video export. When
+    // unset the card uses the deck-wide timing.
+    durationMs?: number;
+    // Keyframed geometry over the card's duration (see utils/keyframes.ts).
+    animation?: CardAnimation;
+    // What this card sounds like during playback. Unset fields follow the
+    // deck's sound settings (see utils/audio.ts).
+    sound?: CardSound;
+}
+
+// How playback (and video export) moves from one card to the next.
+export type TransitionType = 'none' | 'crossfade' | 'wipe' | 'zoom' | 'morph';
+
+export interface Transition {
+    type: TransitionType;
+    durationMs: number; // taken from the start of the incoming card's time
+}
+
+// Live sound: each card plays a single tone, a triad or a low drone.
+export type SoundVoice = 'tone' | 'chord' | 'drone';
+
+export interface CardSound {
+    voice?: SoundVoice; // unset: the deck's voice
+    hz?: number;        // root pitch; unset: derived from the card's steps
+}
+
+export interface DeckSound {
+    muted: boolean;
+    volume: number;      // 0–1
+    voice: SoundVoice;   // for cards without their own
+    baseHz: number;      // lowest note of the scale derived pitches use
+    crossfadeMs: number; // overlap when the card changes
+}
+
+// GeoConfig fields that hold a number (the ones that can be keyframed).
+export type NumericGeoKey = {
+    [K in keyof GeoConfig]-?: NonNullable<GeoConfig[K]> extends number ? K : never
+}[keyof GeoConfig];
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export interface Keyframe {
+    at: number;      // position within the card's duration, 0–1
+    value: number;
+    easing?: Easing; // curve from the previous keyframe into this one (default linear)
+}
+
+// One keyframe track per animated field, keyframes sorted by `at`.
+export type CardAnimation = Partial<Record<NumericGeoKey, Keyframe[]>>;
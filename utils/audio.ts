@@ -0,0 +1,312 @@
+// Card sound. Live playback voices the active card through an AudioContext
+// (hooks/useSoundEngine.ts); exported video gets a soundtrack, either an
+// uploaded audio file or a tone bed with one note per card, rendered offline
+// to a single AudioBuffer that follows the export's intro / deck loops /
+// outro timeline. Both build their notes with createVoice below.
+
+import { CardSound, DeckSound, Sequence, SoundVoice } from '../types';
+
+export const EXPORT_SAMPLE_RATE = 48000;
+
+export type AudioSourceKind = 'none' | 'file' | 'tones';
+export type AudioLoopMode = 'off' | 'continuous' | 'per-pass';
+export type AudioAlign = 'video' | 'loops';
+
+export interface ExportAudioSettings {
+  source: AudioSourceKind;
+  align: AudioAlign; // whole video, or only the deck loops (title cards silent)
+  trimStart: number; // seconds into the file
+  trimEnd: number | null; // seconds into the file; null plays to its end
+  loop: AudioLoopMode; // 'per-pass' restarts the clip at every pass through the deck
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  volume: number; // 0–1
+  baseHz: number; // tone bed: pitch of the lowest note
+}
+
+export const DEFAULT_EXPORT_AUDIO: ExportAudioSettings = {
+  source: 'none',
+  align: 'video',
+  trimStart: 0,
+  trimEnd: null,
+  loop: 'continuous',
+  fadeIn: 1,
+  fadeOut: 2,
+  volume: 0.8,
+  baseHz: 220,
+};
+
+export const AUDIO_LOOP_OPTIONS: { loop: AudioLoopMode; label: string }[] = [
+  { loop: 'off', label: 'Play once' },
+  { loop: 'continuous', label: 'Loop' },
+  { loop: 'per-pass', label: 'Restart each deck loop' },
+];
+
+export const TONE_BASES: { hz: number; label: string }[] = [
+  { hz: 110, label: 'A2 (low)' },
+  { hz: 220, label: 'A3' },
+  { hz: 261.63, label: 'C4' },
+  { hz: 440, label: 'A4 (high)' },
+];
+
+// Major pentatonic over two octaves, so any two cards sound consonant.
+const PENTATONIC = [0, 2, 4, 7, 9, 12, 14, 16, 19, 21];
+
+// A card's note: its step values pick a degree of the scale above `baseHz`.
+export const cardFrequency = (seq: Pick<Sequence, 'data'>, baseHz: number) => {
+  const sum = seq.data.reduce((n, v) => n + v, 0);
+  return baseHz * Math.pow(2, PENTATONIC[sum % PENTATONIC.length] / 12);
+};
+
+// A card's own pitch, when it has one, else the note its steps pick.
+export const cardPitch = (seq: Pick<Sequence, 'data' | 'sound'>, baseHz: number) =>
+  seq.sound?.hz ?? cardFrequency(seq, baseHz);
+
+export const cardVoice = (seq: Pick<Sequence, 'sound'>, fallback: SoundVoice) =>
+  seq.sound?.voice ?? fallback;
+
+// --- Voices ---
+
+interface VoicePartial {
+  ratio: number; // frequency relative to the card's pitch
+  level: number;
+  type: OscillatorType;
+  detune?: number; // cents
+}
+
+// Levels are balanced so every voice sounds about as loud as the others.
+const VOICES: Record<SoundVoice, { partials: VoicePartial[]; lowpassHz?: number }> = {
+  // A sine with a quiet octave above, for a little warmth.
+  tone: {
+    partials: [
+      { ratio: 1, level: 0.5, type: 'sine' },
+      { ratio: 2, level: 0.075, type: 'sine' },
+    ],
+  },
+  // Major triad on the card's pitch.
+  chord: {
+    partials: [
+      { ratio: 1, level: 0.22, type: 'triangle' },
+      { ratio: 5 / 4, level: 0.17, type: 'triangle' },
+      { ratio: 3 / 2, level: 0.17, type: 'triangle' },
+      { ratio: 2, level: 0.05, type: 'sine' },
+    ],
+  },
+  // Root and fifth an octave down, two slightly detuned saws under a lowpass.
+  drone: {
+    partials: [
+      { ratio: 0.25, level: 0.25, type: 'sine' },
+      { ratio: 0.5, level: 0.15, type: 'sawtooth' },
+      { ratio: 0.5, level: 0.15, type: 'sawtooth', detune: 8 },
+      { ratio: 0.75, level: 0.1, type: 'sawtooth' },
+    ],
+    lowpassHz: 700,
+  },
+};
+
+export const SOUND_VOICES: { voice: SoundVoice; label: string }[] = [
+  { voice: 'tone', label: 'Tone' },
+  { voice: 'chord', label: 'Chord' },
+  { voice: 'drone', label: 'Drone' },
+];
+
+export const soundVoiceLabel = (voice: SoundVoice) =>
+  SOUND_VOICES.find(o => o.voice === voice)?.label ?? voice;
+
+const isVoice = (v: unknown): v is SoundVoice => SOUND_VOICES.some(o => o.voice === v);
+
+export interface Voice {
+  gain: AudioParam; // envelope, silent until ramped up
+  start: (at: number) => void;
+  stop: (at: number) => void;
+}
+
+// One note's oscillators, summed through an envelope gain into `destination`.
+// The graph disconnects itself once stopped.
+export const createVoice = (ctx: BaseAudioContext, voice: SoundVoice, hz: number, destination: AudioNode): Voice => {
+  const { partials, lowpassHz } = VOICES[voice];
+  const env = ctx.createGain();
+  env.gain.value = 0;
+  env.connect(destination);
+  let input: AudioNode = env;
+  if (lowpassHz) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = lowpassHz;
+    filter.connect(env);
+    input = filter;
+  }
+  const oscillators = partials.map(p => {
+    const osc = ctx.createOscillator();
+    const g = ctx.createGain();
+    osc.type = p.type;
+    osc.frequency.value = hz * p.ratio;
+    if (p.detune) osc.detune.value = p.detune;
+    g.gain.value = p.level;
+    osc.connect(g).connect(input);
+    return osc;
+  });
+  oscillators[0].onended = () => env.disconnect();
+  return {
+    gain: env.gain,
+    start: at => oscillators.forEach(o => o.start(at)),
+    stop: at => oscillators.forEach(o => o.stop(at)),
+  };
+};
+
+// --- Live playback settings (saved with the deck) ---
+
+// Muted until asked for: browsers only start audio after a click anyway.
+export const DEFAULT_DECK_SOUND: DeckSound = {
+  muted: true,
+  volume: 0.5,
+  voice: 'tone',
+  baseHz: 220,
+  crossfadeMs: 400,
+};
+
+export const MIN_SOUND_XFADE_MS = 20;
+export const MAX_SOUND_XFADE_MS = 3000;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const midiName = (midi: number) => `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+
+// Nearest note to a pitch, e.g. "A3".
+export const noteName = (hz: number) => midiName(Math.round(69 + 12 * Math.log2(hz / 440)));
+
+// Fixed pitches a card can be set to, A2–A5.
+export const NOTE_OPTIONS: { hz: number; label: string }[] = Array.from({ length: 37 }, (_, i) => {
+  const midi = 45 + i;
+  return { hz: Math.round(440 * Math.pow(2, (midi - 69) / 12) * 100) / 100, label: midiName(midi) };
+});
+
+const num = (n: unknown, fallback: number) => (typeof n === 'number' && isFinite(n) ? n : fallback);
+
+// Accept deck sound settings from a saved file / older deck, falling back to
+// the default for anything missing or out of range.
+export const normalizeDeckSound = (value: unknown): DeckSound => {
+  const v = (value && typeof value === 'object' ? value : {}) as Partial<DeckSound>;
+  return {
+    muted: typeof v.muted === 'boolean' ? v.muted : DEFAULT_DECK_SOUND.muted,
+    volume: Math.min(1, Math.max(0, num(v.volume, DEFAULT_DECK_SOUND.volume))),
+    voice: isVoice(v.voice) ? v.voice : DEFAULT_DECK_SOUND.voice,
+    baseHz: Math.min(2000, Math.max(20, num(v.baseHz, DEFAULT_DECK_SOUND.baseHz))),
+    crossfadeMs: Math.round(Math.min(MAX_SOUND_XFADE_MS, Math.max(MIN_SOUND_XFADE_MS, num(v.crossfadeMs, DEFAULT_DECK_SOUND.crossfadeMs)))),
+  };
+};
+
+// A card's sound from a file or link; undefined when nothing valid is set.
+export const normalizeCardSound = (value: unknown): CardSound | undefined => {
+  const v = (value && typeof value === 'object' ? value : {}) as Partial<CardSound>;
+  const sound: CardSound = {};
+  if (isVoice(v.voice)) sound.voice = v.voice;
+  if (typeof v.hz === 'number' && v.hz >= 20 && v.hz <= 2000) sound.hz = v.hz;
+  return Object.keys(sound).length > 0 ? sound : undefined;
+};
+
+// One scene of the export timeline, in seconds, as the encoder lays it out.
+export interface AudioScene {
+  start: number;
+  duration: number;
+  sequence: Sequence | null; // null for the intro/outro title cards
+  pass: number; // which pass through the deck; -1 for title cards
+}
+
+export const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, 1, EXPORT_SAMPLE_RATE);
+  return ctx.decodeAudioData(await file.arrayBuffer());
+};
+
+// Card-to-card tone crossfade, and the declick at every clip edge.
+const TONE_XFADE = 0.05;
+const DECLICK = 0.01;
+
+export const renderExportAudio = async (
+  scenes: AudioScene[],
+  settings: ExportAudioSettings,
+  file: AudioBuffer | null
+): Promise<AudioBuffer | null> => {
+  if (settings.source === 'none' || scenes.length === 0) return null;
+  if (settings.source === 'file' && !file) return null;
+
+  const last = scenes[scenes.length - 1];
+  const total = last.start + last.duration;
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(total * EXPORT_SAMPLE_RATE)), EXPORT_SAMPLE_RATE);
+
+  // The span the soundtrack covers; fades apply at its edges.
+  const cardScenes = scenes.filter(s => s.sequence);
+  const regionStart = settings.align === 'loops' && cardScenes.length ? cardScenes[0].start : 0;
+  const lastCard = cardScenes[cardScenes.length - 1];
+  const regionEnd = settings.align === 'loops' && lastCard ? lastCard.start + lastCard.duration : total;
+  const regionLength = regionEnd - regionStart;
+  if (regionLength <= 0) return null;
+
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+  const fadeIn = Math.min(settings.fadeIn, regionLength / 2);
+  const fadeOut = Math.min(settings.fadeOut, regionLength / 2);
+  master.gain.setValueAtTime(0, 0);
+  master.gain.setValueAtTime(fadeIn > 0 ? 0 : settings.volume, regionStart);
+  master.gain.linearRampToValueAtTime(settings.volume, regionStart + Math.max(fadeIn, DECLICK));
+  master.gain.setValueAtTime(settings.volume, regionEnd - Math.max(fadeOut, DECLICK));
+  master.gain.linearRampToValueAtTime(0, regionEnd);
+
+  if (settings.source === 'file' && file) {
+    const clipStart = Math.min(Math.max(0, settings.trimStart), file.duration);
+    const clipEnd = Math.min(file.duration, Math.max(clipStart, settings.trimEnd ?? file.duration));
+    const clipLength = clipEnd - clipStart;
+    if (clipLength <= 0) return null;
+
+    const play = (from: number, to: number, loop: boolean) => {
+      const src = ctx.createBufferSource();
+      src.buffer = file;
+      src.loop = loop;
+      src.loopStart = clipStart;
+      src.loopEnd = clipEnd;
+      const end = loop ? to : from + Math.min(clipLength, to - from);
+      // Declick the edges of every run.
+      const edge = ctx.createGain();
+      edge.gain.setValueAtTime(0, from);
+      edge.gain.linearRampToValueAtTime(1, from + DECLICK);
+      edge.gain.setValueAtTime(1, end - DECLICK);
+      edge.gain.linearRampToValueAtTime(0, end);
+      src.connect(edge).connect(master);
+      src.start(from, clipStart);
+      src.stop(end);
+    };
+
+    if (settings.loop === 'per-pass') {
+      // One run per pass through the deck, cut at the pass boundary. With the
+      // whole video aligned, the intro and outro each get a run of their own.
+      const segments = new Map<string, { start: number; end: number }>();
+      scenes.forEach((s, i) => {
+        if (!s.sequence && settings.align === 'loops') return;
+        const key = s.sequence ? `pass:${s.pass}` : `title:${i}`;
+        const seg = segments.get(key);
+        const end = s.start + s.duration;
+        segments.set(key, seg ? { start: seg.start, end } : { start: s.start, end });
+      });
+      segments.forEach(({ start, end }) => play(start, end, false));
+    } else {
+      play(regionStart, regionEnd, settings.loop === 'continuous');
+    }
+  } else {
+    // Tone bed: each card scene sounds its note, overlapping the next by a
+    // short crossfade so changes don't click.
+    cardScenes.forEach(scene => {
+      const seq = scene.sequence!;
+      const start = Math.max(0, scene.start - TONE_XFADE / 2);
+      const end = Math.min(total, scene.start + scene.duration + TONE_XFADE / 2);
+      const voice = createVoice(ctx, cardVoice(seq, 'tone'), cardPitch(seq, settings.baseHz), master);
+      voice.gain.setValueAtTime(0, start);
+      voice.gain.linearRampToValueAtTime(1, start + TONE_XFADE);
+      voice.gain.setValueAtTime(1, end - TONE_XFADE);
+      voice.gain.linearRampToValueAtTime(0, end);
+      voice.start(start);
+      voice.stop(end);
+    });
+  }
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,54 @@
+// Field-by-field differences between two cards, for the compare view: every
+// geometry setting and every step whose value differs, and the update that
+// copies one card's value onto the other.
+
+import { GeoConfig, Sequence } from '../types';
+import { GEO_FIELD_LABELS } from '../constants';
+
+// "1.25", "on", "none", "image" (data URLs are far too long to show).
+export const formatGeoValue = (value: unknown): string => {
+  if (typeof value === 'number') return String(Math.round(value * 1000) / 1000);
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (value === undefined || value === '') return 'none';
+  if (typeof value === 'string' && value.startsWith('data:')) return 'image';
+  return String(value);
+};
+
+export type CardDifference =
+  | { kind: 'geo'; field: keyof GeoConfig; label: string; a: string; b: string }
+  | { kind: 'step'; step: number; label: string; a: string; b: string };
+
+export const diffCards = (a: Sequence, b: Sequence): CardDifference[] => {
+  const fields = Object.keys(GEO_FIELD_LABELS) as (keyof GeoConfig)[];
+  const geo: CardDifference[] = fields
+    .filter(field => a.geoConfig[field] !== b.geoConfig[field])
+    .map(field => ({
+      kind: 'geo',
+      field,
+      label: GEO_FIELD_LABELS[field],
+      a: formatGeoValue(a.geoConfig[field]),
+      b: formatGeoValue(b.geoConfig[field]),
+    }));
+
+  const steps: CardDifference[] = [];
+  for (let i = 0; i < Math.max(a.data.length, b.data.length); i++) {
+    if (a.data[i] === b.data[i]) continue;
+    steps.push({ kind: 'step', step: i, label: `Step ${i + 1}`, a: String(a.data[i] ?? '—'), b: String(b.data[i] ?? '—') });
+  }
+  return [...geo, ...steps];
+};
+
+// A step only copies between cards that both have it (copy Steps first).
+export const canCopyDifference = (diff: CardDifference, from: Sequence, to: Sequence) =>
+  diff.kind === 'geo' || (diff.step < from.data.length && diff.step < to.data.length);
+
+// What `to` becomes with `from`'s value for this difference: a new geometry
+// (applied with updateGeoConfig, which resizes steps when Steps changes) or
+// new step data.
+export const copyDifference = (diff: CardDifference, from: Sequence, to: Sequence):
+  { geoConfig: GeoConfig } | { data: number[] } => {
+  if (diff.kind === 'geo') return { geoConfig: { ...to.geoConfig, [diff.field]: from.geoConfig[diff.field] } };
+  const data = [...to.data];
+  data[diff.step] = from.data[diff.step];
+  return { data };
+};
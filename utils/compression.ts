@@ -1,6 +1,10 @@
-
-import { GeoConfig, Sequence } from '../types';
+import { CardAnimation, Easing, GeoConfig, Keyframe, NumericGeoKey, Sequence, Transition } from '../types';
 import { SUNFLOWER_PRESET } from '../constants';
+import { hasAnimation, sortKeyframes } from './keyframes';
+import { normalizeTransition } from './transitions';
+import { normalizeCardSound } from './audio';
+import { SchemaIssue, validateDeck } from './deckSchema';
+import { LIBRARY_REF_PREFIX, libraryIdForUrl, libraryImageUrl, loadLibraryManifest } from './library';
 
 // Map long keys to short keys for URL minification
 const GEO_KEY_MAP: Record<keyof GeoConfig, string> = {
@@ -98,6 +102,35 @@ const inflateGeoDiff = (minDiff: any, baseline: GeoConfig): GeoConfig => {
     return newGeo;
 };
 
+// Keyframe tracks as { shortKey: [[at, value, easing?], ...] }
+const minifyAnimation = (animation: CardAnimation) => {
+    const out: Record<string, any[]> = {};
+    (Object.keys(animation) as NumericGeoKey[]).forEach(key => {
+        const track = animation[key];
+        if (!track || track.length === 0) return;
+        out[GEO_KEY_MAP[key]] = track.map(k => {
+            const row: any[] = [smartRound(k.at), smartRound(k.value)];
+            if (k.easing && k.easing !== 'linear') row.push(k.easing);
+            return row;
+        });
+    });
+    return out;
+};
+
+const inflateAnimation = (minAnim: any): CardAnimation | undefined => {
+    if (!minAnim || typeof minAnim !== 'object') return undefined;
+    const animation: CardAnimation = {};
+    for (const shortKey in minAnim) {
+        const fullKey = REV_GEO_KEY_MAP[shortKey] as NumericGeoKey | undefined;
+        if (!fullKey || !Array.isArray(minAnim[shortKey])) continue;
+        const track: Keyframe[] = minAnim[shortKey]
+            .filter((row: any) => Array.isArray(row) && typeof row[0] === 'number' && typeof row[1] === 'number')
+            .map((row: any[]) => (row[2] ? { at: row[0], value: row[1], easing: row[2] as Easing } : { at: row[0], value: row[1] }));
+        if (track.length > 0) animation[fullKey] = sortKeyframes(track);
+    }
+    return Object.keys(animation).length > 0 ? animation : undefined;
+};
+
 // Legacy Inflator for V1/V2/V3 (Non-diff based)
 const inflateGeoLegacy = (minGeo: any): GeoConfig => {
     const geoConfig: any = { ...SUNFLOWER_PRESET };
@@ -112,7 +145,14 @@ const inflateGeoLegacy = (minGeo: any): GeoConfig => {
     return geoConfig;
 };
 
-export const compressConfig = (geoConfig: GeoConfig, sequences: Sequence[], timingMs: number = 1500) => {
+// A library center image becomes a ref; any other (uploaded) image is dropped.
+const withCenterRef = (geo: GeoConfig): GeoConfig => {
+    if (!geo.centerImageSrc) return geo;
+    const id = libraryIdForUrl(geo.centerImageSrc);
+    return { ...geo, centerImageSrc: id ? LIBRARY_REF_PREFIX + id : undefined };
+};
+
+const buildPayload = (geoConfig: GeoConfig, sequences: Sequence[], timingMs: number, transition?: Transition) => {
     // V4 Strategy:
     // 1. Establish a "Global Geometry" based on the ACTIVE (passed in) geoConfig (or the first sequence).
     //    We diff this against the SUNFLOWER_PRESET to minimize it.
@@ -120,12 +160,12 @@ export const compressConfig = (geoConfig: GeoConfig, sequences: Sequence[], timi
     //    In 99% of cases, they are identical, resulting in an empty object (which we can omit or make null).
     
     // The 'geoConfig' arg passed here is usually the active one. Let's use that as the Global Base.
-    const globalBase = geoConfig;
+    const globalBase = withCenterRef(geoConfig);
     const minGlobalGeo = minifyGeoDiff(globalBase, SUNFLOWER_PRESET);
 
     const minSequences = sequences.map(s => {
         // Diff this sequence's geo against the global base
-        const seqDiff = minifyGeoDiff(s.geoConfig, globalBase);
+        const seqDiff = minifyGeoDiff(withCenterRef(s.geoConfig), globalBase);
         
         const seqObj: any = {
             i: s.id,
@@ -135,6 +175,20 @@ export const compressConfig = (geoConfig: GeoConfig, sequences: Sequence[], timi
 
         // Only add description if it exists and is not empty
         if (s.description) seqObj.d = s.description;
+        // Per-card display duration (ms), only when it overrides the deck timing
+        if (s.durationMs !== undefined) seqObj.ms = s.durationMs;
+        // Keyframe animation, only when the card has one
+        if (s.animation && hasAnimation(s)) seqObj.a = minifyAnimation(s.animation);
+        // Card sound as [voice, hz], 0 where it follows the deck
+        if (s.sound) seqObj.so = [s.sound.voice ?? 0, s.sound.hz ?? 0];
+        // Library image card by id, plus its image options when not the defaults.
+        // Uploaded images are left out (too large).
+        const libraryId = libraryIdForUrl(s.imageSrc);
+        if (libraryId) {
+            seqObj.L = libraryId;
+            if (s.imageInvert === false) seqObj.Li = 0;
+            if (s.imageFrame) seqObj.Lf = 1;
+        }
 
         // Only add geometry diff if there ARE differences
         if (Object.keys(seqDiff).length > 0) {
@@ -144,101 +198,235 @@ export const compressConfig = (geoConfig: GeoConfig, sequences: Sequence[], timi
         return seqObj;
     });
 
-    const payload = {
+    const payload: any = {
         v: 4, 
         t: timingMs,
         G: minGlobalGeo, // Global Geo Diff (vs Preset)
         s: minSequences
     };
+    // Transition as [type, ms]; omitted for a plain cut
+    if (transition && transition.type !== 'none') payload.x = [transition.type, transition.durationMs];
+    return payload;
+};
 
-    const jsonStr = JSON.stringify(payload);
+export const compressConfig = (geoConfig: GeoConfig, sequences: Sequence[], timingMs: number = 1500, transition?: Transition) => {
+    const jsonStr = JSON.stringify(buildPayload(geoConfig, sequences, timingMs, transition));
     // Use standard base64 but URI encoded to be URL safe
     return btoa(unescape(encodeURIComponent(jsonStr)));
 };
 
-export const decompressConfig = (encoded: string): { geoConfig: Partial<GeoConfig>, sequences: Sequence[], timingMs?: number } | null => {
+// --- VERSION 5 (share links) ---
+// The v4 payload, deflate-raw compressed and base64url encoded, behind a
+// "5." prefix ('.' is outside both base64 alphabets, so it can't be mistaken
+// for a v1-v4 string). Async because CompressionStream is. Browsers without
+// it get a v4 string, which every version decodes.
+
+const V5_PREFIX = '5.';
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const compressConfigV5 = async (geoConfig: GeoConfig, sequences: Sequence[], timingMs: number = 1500, transition?: Transition): Promise<string> => {
+    if (typeof CompressionStream === 'undefined') return compressConfig(geoConfig, sequences, timingMs, transition);
+    const payload = { ...buildPayload(geoConfig, sequences, timingMs, transition), v: 5 };
+    const packed = await pipeBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+    return V5_PREFIX + toBase64Url(packed);
+};
+
+type DecodedConfig = { geoConfig: Partial<GeoConfig>, sequences: Sequence[], timingMs?: number, transition?: Transition, issues?: SchemaIssue[] };
+
+const isLibraryRef = (src: string | undefined): src is string => !!src && src.startsWith(LIBRARY_REF_PREFIX);
+
+// Turns library refs back into image URLs through the manifest: both theme
+// layers for image cards, the file for center mandalas. Refs the manifest
+// doesn't know (or all of them, offline) are dropped, so the card shows its
+// geometry instead of a broken image.
+const resolveLibraryRefs = async (decoded: DecodedConfig): Promise<DecodedConfig> => {
+    const hasRefs = (geo: Partial<GeoConfig>) => isLibraryRef(geo.centerImageSrc);
+    if (!hasRefs(decoded.geoConfig) && !decoded.sequences.some(s => isLibraryRef(s.imageSrc) || hasRefs(s.geoConfig))) {
+        return decoded;
+    }
+
+    const cards = new Map<string, { file: string, fileDark?: string }>();
+    try {
+        (await loadLibraryManifest()).categories.forEach(cat => cat.cards.forEach(c => cards.set(c.id, c)));
+    } catch (e) {
+        console.error("Library unavailable; shared library images are skipped", e);
+    }
+    const card = (ref: string) => cards.get(ref.slice(LIBRARY_REF_PREFIX.length));
+    const resolveGeo = <T extends Partial<GeoConfig>>(geo: T): T => {
+        if (!isLibraryRef(geo.centerImageSrc)) return geo;
+        const found = card(geo.centerImageSrc);
+        return { ...geo, centerImageSrc: found ? libraryImageUrl(found.file) : undefined };
+    };
+
+    const sequences = decoded.sequences.map(s => {
+        const out: Sequence = { ...s, geoConfig: resolveGeo(s.geoConfig) };
+        if (isLibraryRef(s.imageSrc)) {
+            const found = card(s.imageSrc);
+            delete out.imageSrc;
+            if (found) {
+                out.imageSrc = libraryImageUrl(found.file);
+                if (found.fileDark) out.imageSrcDark = libraryImageUrl(found.fileDark);
+            }
+        }
+        return out;
+    });
+    return { ...decoded, geoConfig: resolveGeo(decoded.geoConfig), sequences };
+};
+
+// Any compressed config (share link, or PNG / SVG / video metadata), ready to
+// load: v5 is inflated here, v1-v4 go to decompressConfig, and library image
+// refs are resolved.
+export const decompressShareConfig = async (encoded: string): Promise<DecodedConfig | null> => {
+    let decoded: DecodedConfig | null;
+    if (!encoded.startsWith(V5_PREFIX)) {
+        decoded = decompressConfig(encoded);
+    } else {
+        try {
+            const json = await pipeBytes(fromBase64Url(encoded.slice(V5_PREFIX.length)), new DecompressionStream('deflate-raw'));
+            decoded = checkedPayload(JSON.parse(new TextDecoder().decode(json)));
+        } catch (e) {
+            console.error("Failed to decompress URL config", e);
+            return null;
+        }
+    }
+    return decoded && resolveLibraryRefs(decoded);
+};
+
+// Synchronous v1-v4 decoding. Library images come back as LIBRARY_REF_PREFIX
+// refs; use decompressShareConfig to get loadable URLs.
+export const decompressConfig = (encoded: string): DecodedConfig | null => {
     try {
         const jsonStr = decodeURIComponent(escape(atob(encoded)));
-        const payload = JSON.parse(jsonStr);
-        
-        let sequences: Sequence[] = [];
-        const timingMs = payload.t;
+        return checkedPayload(JSON.parse(jsonStr));
+    } catch (e) {
+        console.error("Failed to decompress URL config", e);
+        return null;
+    }
+};
 
-        // --- VERSION 4 (Diff Inheritance) ---
-        if (payload.v === 4) {
-             // 1. Reconstruct Global Base from Preset + Diff
-             const globalBase = inflateGeoDiff(payload.G, SUNFLOWER_PRESET);
+// Decoded payloads go through the same checks as JSON saves: a hand-edited or
+// truncated link can still carry NaN steps or duplicate ids. `issues` lists
+// what was repaired.
+const checkedPayload = (payload: any): DecodedConfig | null => {
+    const decoded = parsePayload(payload);
+    if (!decoded) return null;
+    const { deck, issues } = validateDeck({ sequences: decoded.sequences, timingMs: decoded.timingMs, transition: decoded.transition });
+    if (!deck) {
+        console.error("Invalid URL config", issues);
+        return null;
+    }
+    return {
+        ...decoded,
+        sequences: deck.sequences,
+        timingMs: decoded.timingMs === undefined ? undefined : deck.timingMs,
+        transition: decoded.transition && deck.transition,
+        issues,
+    };
+};
 
-             sequences = payload.s.map((s: any) => {
-                // 2. Reconstruct Sequence Geo from Global Base + Seq Diff
-                const seqGeo = s.g ? inflateGeoDiff(s.g, globalBase) : { ...globalBase };
+const parsePayload = (payload: any): DecodedConfig | null => {
+    let sequences: Sequence[] = [];
+    const timingMs = payload.t;
 
-                let data: number[] = [];
-                if (typeof s.D === 'string') {
-                    data = s.D.split('').map((c: string) => parseInt(c, 10));
-                } else if (Array.isArray(s.D)) {
-                    data = s.D;
-                }
+    // --- VERSION 4 (Diff Inheritance) and 5 (the same, deflated) ---
+    if (payload.v === 4 || payload.v === 5) {
+         // 1. Reconstruct Global Base from Preset + Diff
+         const globalBase = inflateGeoDiff(payload.G, SUNFLOWER_PRESET);
 
-                return {
-                    id: s.i || Math.random(),
-                    name: s.n || "Sequence",
-                    description: s.d || "",
-                    data: data,
-                    geoConfig: seqGeo
-                };
-             });
+         sequences = payload.s.map((s: any) => {
+            // 2. Reconstruct Sequence Geo from Global Base + Seq Diff
+            const seqGeo = s.g ? inflateGeoDiff(s.g, globalBase) : { ...globalBase };
 
-             return { geoConfig: globalBase, sequences, timingMs };
-        }
+            let data: number[] = [];
+            if (typeof s.D === 'string') {
+                data = s.D.split('').map((c: string) => parseInt(c, 10));
+            } else if (Array.isArray(s.D)) {
+                data = s.D;
+            }
+
+            const seq: Sequence = {
+                id: s.i, // checked (and renumbered if need be) by validateDeck
+                name: s.n || "Sequence",
+                description: s.d || "",
+                data: data,
+                geoConfig: seqGeo
+            };
+            if (typeof s.ms === 'number' && s.ms > 0) seq.durationMs = s.ms;
+            const animation = inflateAnimation(s.a);
+            if (animation) seq.animation = animation;
+            const sound = Array.isArray(s.so) ? normalizeCardSound({ voice: s.so[0], hz: s.so[1] }) : undefined;
+            if (sound) seq.sound = sound;
+            if (typeof s.L === 'string') {
+                seq.imageSrc = LIBRARY_REF_PREFIX + s.L;
+                if (s.Li === 0) seq.imageInvert = false;
+                if (s.Lf) seq.imageFrame = true;
+            }
+            return seq;
+         });
+
+         const transition = Array.isArray(payload.x)
+             ? normalizeTransition({ type: payload.x[0], durationMs: payload.x[1] })
+             : undefined;
+
+         return { geoConfig: globalBase, sequences, timingMs, transition };
+    }
+
+    // --- VERSION 3/2 (Embedded Geo, No inheritance) ---
+    if ((payload.v === 3 || payload.v === 2) && Array.isArray(payload.s)) {
+        sequences = payload.s.map((s: any) => {
+            let data: number[] = [];
+            if (typeof s.D === 'string') {
+                data = s.D.split('').map((c: string) => parseInt(c, 10));
+            } else if (Array.isArray(s.D)) {
+                data = s.D;
+            }
 
-        // --- VERSION 3/2 (Embedded Geo, No inheritance) ---
-        if ((payload.v === 3 || payload.v === 2) && Array.isArray(payload.s)) {
+            return {
+                id: s.i, // checked (and renumbered if need be) by validateDeck
+                name: s.n || "Sequence",
+                description: s.d || "",
+                data: data,
+                geoConfig: inflateGeoLegacy(s.g)
+            };
+        });
+        
+        return { geoConfig: sequences[0]?.geoConfig || {}, sequences, timingMs };
+    }
+
+    // --- VERSION 1 (Global Geo) ---
+    if (payload.g) {
+        const globalGeo = inflateGeoLegacy(payload.g);
+        
+        if (payload.s && Array.isArray(payload.s)) {
             sequences = payload.s.map((s: any) => {
                 let data: number[] = [];
-                if (typeof s.D === 'string') {
-                    data = s.D.split('').map((c: string) => parseInt(c, 10));
-                } else if (Array.isArray(s.D)) {
-                    data = s.D;
-                }
+                if (Array.isArray(s.D)) data = s.D;
+                else if (typeof s.D === 'string') data = s.D.split('').map(Number);
 
                 return {
-                    id: s.i || Math.random(),
+                    id: s.i, // checked (and renumbered if need be) by validateDeck
                     name: s.n || "Sequence",
                     description: s.d || "",
                     data: data,
-                    geoConfig: inflateGeoLegacy(s.g)
+                    geoConfig: { ...globalGeo }
                 };
             });
-            
-            return { geoConfig: sequences[0]?.geoConfig || {}, sequences, timingMs };
         }
-
-        // --- VERSION 1 (Global Geo) ---
-        if (payload.g) {
-            const globalGeo = inflateGeoLegacy(payload.g);
-            
-            if (payload.s && Array.isArray(payload.s)) {
-                sequences = payload.s.map((s: any) => {
-                    let data: number[] = [];
-                    if (Array.isArray(s.D)) data = s.D;
-                    else if (typeof s.D === 'string') data = s.D.split('').map(Number);
-
-                    return {
-                        id: s.i || Math.random(),
-                        name: s.n || "Sequence",
-                        description: s.d || "",
-                        data: data,
-                        geoConfig: { ...globalGeo }
-                    };
-                });
-            }
-            return { geoConfig: globalGeo, sequences, timingMs };
-        }
-
-        return null;
-    } catch (e) {
-        console.error("Failed to decompress URL config", e);
-        return null;
+        return { geoConfig: globalGeo, sequences, timingMs };
     }
+
+    return null;
 };
\ No newline at end of file
@@ -0,0 +1,166 @@
+// Contact sheet: the whole deck as one labelled thumbnail grid, for review
+// and sharing. Cards are rendered by QRPGenerator (exportMode), made
+// self-contained (utils/svgExport.ts) and nested into a single sheet SVG,
+// which is saved as-is or rasterised to PNG. Settings are remembered.
+
+export interface ContactSheetSettings {
+  columns: number;
+  spacing: number;     // sheet units (1 = 1 px at 1×) between thumbnails and around the edge
+  theme: 'light' | 'dark';
+  format: 'png' | 'svg';
+  title: string;       // empty: the deck name
+  showDate: boolean;
+  showCount: boolean;
+  showLabels: boolean; // card number and name under each thumbnail
+}
+
+export const DEFAULT_CONTACT_SHEET: ContactSheetSettings = {
+  columns: 5,
+  spacing: 24,
+  theme: 'light',
+  format: 'png',
+  title: '',
+  showDate: true,
+  showCount: true,
+  showLabels: true,
+};
+
+export const MIN_SHEET_COLUMNS = 1;
+export const MAX_SHEET_COLUMNS = 12;
+export const MAX_SHEET_SPACING = 96;
+
+export const normalizeContactSheet = (value: unknown): ContactSheetSettings => {
+  const v = { ...DEFAULT_CONTACT_SHEET, ...(value && typeof value === 'object' ? value : {}) } as ContactSheetSettings;
+  const num = (n: unknown, fallback: number) => (typeof n === 'number' && isFinite(n) ? n : fallback);
+  return {
+    columns: Math.round(Math.min(MAX_SHEET_COLUMNS, Math.max(MIN_SHEET_COLUMNS, num(v.columns, DEFAULT_CONTACT_SHEET.columns)))),
+    spacing: Math.min(MAX_SHEET_SPACING, Math.max(0, num(v.spacing, DEFAULT_CONTACT_SHEET.spacing))),
+    theme: v.theme === 'dark' ? 'dark' : 'light',
+    format: v.format === 'svg' ? 'svg' : 'png',
+    title: typeof v.title === 'string' ? v.title : '',
+    showDate: v.showDate !== false,
+    showCount: v.showCount !== false,
+    showLabels: v.showLabels !== false,
+  };
+};
+
+// Sheet colours per theme, matching QRPGenerator's export palette.
+export const SHEET_COLORS = {
+  light: { background: '#ffffff', text: '#0f172a', secondary: '#94a3b8' },
+  dark: { background: '#0f172a', text: '#e2e8f0', secondary: '#94a3b8' },
+};
+
+export const SHEET_FONT = 'Inter';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const THUMB_WIDTH = 240;
+const THUMB_HEIGHT = 420; // card art is 4:7
+const LABEL_HEIGHT = 36;
+const HEADER_HEIGHT = 96;
+const EDGE = 32;          // minimum margin, so spacing 0 still leaves a border
+
+export interface ContactSheetHeader {
+  title: string;
+  subtitle: string; // date and / or card count; empty to omit
+}
+
+export const contactSheetSize = (count: number, s: ContactSheetSettings, hasHeader: boolean) => {
+  const cols = Math.max(1, Math.min(s.columns, count));
+  const rows = Math.ceil(count / cols);
+  const edge = Math.max(EDGE, s.spacing);
+  const cellHeight = THUMB_HEIGHT + (s.showLabels ? LABEL_HEIGHT : 0);
+  return {
+    cols,
+    edge,
+    top: edge + (hasHeader ? HEADER_HEIGHT : 0),
+    cellHeight,
+    width: 2 * edge + cols * THUMB_WIDTH + (cols - 1) * s.spacing,
+    height: edge + (hasHeader ? HEADER_HEIGHT : 0) + rows * cellHeight + Math.max(0, rows - 1) * s.spacing + edge,
+  };
+};
+
+const el = (name: string, attrs: Record<string, string | number>, text?: string) => {
+  const node = document.createElementNS(SVG_NS, name);
+  Object.entries(attrs).forEach(([k, v]) => node.setAttribute(k, String(v)));
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+// Lays the (self-contained) card clones out on one sheet. `labels` pairs with
+// `cards`; `fontCss` is the embedded @font-face data, if any.
+export const contactSheetSvg = (
+  cards: SVGSVGElement[],
+  labels: string[],
+  s: ContactSheetSettings,
+  header: ContactSheetHeader,
+  fontCss = ''
+): SVGSVGElement => {
+  const colors = SHEET_COLORS[s.theme];
+  const hasHeader = !!(header.title || header.subtitle);
+  const { cols, edge, top, cellHeight, width, height } = contactSheetSize(cards.length, s, hasHeader);
+  const root = el('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}` }) as SVGSVGElement;
+
+  if (fontCss) root.appendChild(el('defs', {})).appendChild(el('style', {}, fontCss));
+  root.appendChild(el('rect', { width, height, fill: colors.background }));
+
+  const font = `${SHEET_FONT}, sans-serif`;
+  if (header.title) {
+    root.appendChild(el('text', { x: edge, y: edge + 38, 'font-family': font, 'font-size': 34, 'font-weight': 600, fill: colors.text }, header.title));
+  }
+  if (header.subtitle) {
+    root.appendChild(el('text', { x: edge, y: edge + (header.title ? 70 : 38), 'font-family': font, 'font-size': 16, fill: colors.secondary }, header.subtitle));
+  }
+
+  const pad = String(cards.length).length;
+  cards.forEach((card, i) => {
+    const x = edge + (i % cols) * (THUMB_WIDTH + s.spacing);
+    const y = top + Math.floor(i / cols) * (cellHeight + s.spacing);
+    card.setAttribute('x', String(x));
+    card.setAttribute('y', String(y));
+    card.setAttribute('width', String(THUMB_WIDTH));
+    card.setAttribute('height', String(THUMB_HEIGHT));
+    root.appendChild(el('rect', {
+      x: x + 0.5, y: y + 0.5, width: THUMB_WIDTH - 1, height: THUMB_HEIGHT - 1, rx: 8,
+      fill: 'none', stroke: colors.secondary, 'stroke-opacity': 0.35,
+    }));
+    root.appendChild(card);
+
+    if (s.showLabels) {
+      const label = el('text', { x, y: y + THUMB_HEIGHT + 24, 'font-family': font, 'font-size': 15, 'font-weight': 500, fill: colors.text });
+      label.appendChild(el('tspan', { fill: colors.secondary }, `${String(i + 1).padStart(pad, '0')}  `));
+      label.appendChild(document.createTextNode(labels[i] ?? ''));
+      root.appendChild(label);
+    }
+  });
+  return root;
+};
+
+// Canvas limits differ by browser; stay well inside all of them.
+const MAX_CANVAS_SIDE = 8192;
+const MAX_CANVAS_PIXELS = 40_000_000;
+
+// Renders a serialized sheet to PNG at up to 2× (smaller for huge decks).
+export const rasterizeSheet = (source: string, width: number, height: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const scale = Math.min(2, MAX_CANVAS_SIDE / Math.max(width, height), Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Canvas unavailable'));
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([source], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the sheet'));
+    };
+    img.src = url;
+  });
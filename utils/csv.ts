@@ -0,0 +1,195 @@
+// Spreadsheet rate lists in and out. One card per row: a name, an optional
+// description, the digits and optionally the preset (lobe type) to draw it
+// with. Quoting follows RFC 4180; the delimiter — comma, semicolon (Excel in
+// many European locales) or tab (copied straight from a sheet) — is detected.
+
+import { GeoConfig, Sequence } from '../types';
+import { DHARMA_PRESET, LOTUS_PRESET, MAX_VALUE_PER_DIVISION, SUNFLOWER_PRESET } from '../constants';
+import { MAX_SEQUENCE_STEPS } from './deckSchema';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// The candidate that occurs most often (outside quotes) in the first line.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === '\n' || ch === '\r')) break;
+    else if (!quoted && ch in counts) counts[ch as CsvDelimiter]++;
+  }
+  return (Object.keys(counts) as CsvDelimiter[]).reduce((best, d) => (counts[d] > counts[best] ? d : best), ',');
+};
+
+// Rows of cells. Blank lines are skipped; a leading byte-order mark is dropped.
+export const parseDelimited = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(c => c.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (src[i + 1] === '"') cell += src[i++];
+      else quoted = false;
+    } else if (ch === '"' && cell.trim() === '') {
+      cell = '';
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const quoteCell = (value: string, delimiter: CsvDelimiter) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const toDelimited = (rows: string[][], delimiter: CsvDelimiter = ',') =>
+  rows.map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter)).join('\r\n');
+
+// --- Column mapping ---
+
+export type CsvField = 'name' | 'description' | 'digits' | 'preset';
+
+// Column index per field; -1 when the field isn't in the file.
+export type CsvMapping = Record<CsvField, number>;
+
+export const CSV_FIELDS: { field: CsvField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: false },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'digits', label: 'Digits', required: true },
+  { field: 'preset', label: 'Preset', required: false },
+];
+
+// Header names each field is recognised by (lower case, spaces removed).
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  name: ['name', 'title', 'card', 'remedy', 'item'],
+  description: ['description', 'desc', 'notes', 'note', 'comment', 'comments'],
+  digits: ['digits', 'rate', 'rates', 'sequence', 'steps', 'code', 'value', 'values'],
+  preset: ['preset', 'lobetype', 'lobe', 'type', 'style'],
+};
+
+// Fields matched by header name; null when the first row doesn't look like a
+// header (no digits column found by name).
+export const mappingFromHeader = (header: string[]): CsvMapping | null => {
+  const keys = header.map(h => h.toLowerCase().replace(/[\s_-]+/g, ''));
+  const mapping = Object.fromEntries(
+    CSV_FIELDS.map(({ field }) => [field, keys.findIndex(k => HEADER_ALIASES[field].includes(k))])
+  ) as CsvMapping;
+  return mapping.digits >= 0 ? mapping : null;
+};
+
+// Without a header: the first column that reads as digits, the column before
+// it as the name and the one after as the description.
+export const guessMapping = (rows: string[][]): CsvMapping => {
+  const sample = rows.slice(0, 10);
+  const width = Math.max(0, ...sample.map(r => r.length));
+  let digits = -1;
+  for (let c = 0; c < width && digits < 0; c++) {
+    if (sample.every(r => 'data' in parseDigits(r[c] ?? ''))) digits = c;
+  }
+  if (digits < 0) digits = Math.min(1, width - 1);
+  const name = digits > 0 ? digits - 1 : -1;
+  const description = digits + 1 < width ? digits + 1 : -1;
+  return { name, description, digits, preset: -1 };
+};
+
+// --- Rows to cards ---
+
+export type CsvPreset = GeoConfig['lobeType'];
+
+const PRESETS: Record<CsvPreset, GeoConfig> = {
+  sunflower: SUNFLOWER_PRESET,
+  lotus: LOTUS_PRESET,
+  dharma: DHARMA_PRESET,
+};
+
+// "0103", "0 1 0 3", "0-1-0-3" or "0,1,0,3" (quoted in a comma file).
+export const parseDigits = (cell: string): { data: number[] } | { error: string } => {
+  const text = cell.trim();
+  if (!text) return { error: 'No digits' };
+  const tokens = /[\s,;.\-/|]/.test(text) ? text.split(/[\s,;.\-/|]+/).filter(Boolean) : Array.from(text);
+  if (tokens.length > MAX_SEQUENCE_STEPS) return { error: `${tokens.length} digits — at most ${MAX_SEQUENCE_STEPS}` };
+  const data: number[] = [];
+  for (const token of tokens) {
+    if (!/^\d+$/.test(token)) return { error: `"${token}" is not a digit` };
+    const value = Number(token);
+    if (value > MAX_VALUE_PER_DIVISION) return { error: `${value} is above ${MAX_VALUE_PER_DIVISION}` };
+    data.push(value);
+  }
+  return { data };
+};
+
+export interface CsvCard {
+  line: number; // 1-based row in the file, for messages
+  name: string;
+  description: string;
+  data: number[];
+  preset?: CsvPreset;
+  errors: string[]; // rows with errors are not imported
+}
+
+export const readCsvCards = (rows: string[][], mapping: CsvMapping, hasHeader: boolean): CsvCard[] =>
+  rows.slice(hasHeader ? 1 : 0).map((row, i) => {
+    const cell = (field: CsvField) => (mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '');
+    const line = i + (hasHeader ? 2 : 1);
+    const errors: string[] = [];
+
+    const digits = parseDigits(cell('digits'));
+    if ('error' in digits) errors.push(digits.error);
+
+    let preset: CsvPreset | undefined;
+    const presetCell = cell('preset').toLowerCase();
+    if (presetCell) {
+      if (Object.hasOwn(PRESETS, presetCell)) preset = presetCell as CsvPreset;
+      else errors.push(`Unknown preset "${cell('preset')}" (use ${Object.keys(PRESETS).join(', ')})`);
+    }
+
+    return {
+      line,
+      name: cell('name') || `Card ${line}`,
+      description: cell('description'),
+      data: 'data' in digits ? digits.data : [],
+      preset,
+      errors,
+    };
+  });
+
+// A new card for a row: the row's preset if it names one, otherwise the given
+// geometry, sized to the row's digits. The id is assigned on import.
+export const csvCardToSequence = (card: CsvCard, base: GeoConfig): Sequence => ({
+  id: 0,
+  name: card.name,
+  description: card.description,
+  data: card.data,
+  geoConfig: { ...(card.preset ? PRESETS[card.preset] : base), sequenceLength: card.data.length },
+});
+
+// The deck as a CSV readCsvCards reads back. Digits are space separated so
+// spreadsheets keep them as text (a bare "0103" would open as 103). The BOM
+// makes Excel read the file as UTF-8.
+export const deckToCsv = (sequences: Sequence[]) =>
+  '\uFEFF' + toDelimited([
+    ['Name', 'Description', 'Digits', 'Preset'],
+    ...sequences.map(s => [s.name, s.description ?? '', s.data.join(' '), s.geoConfig.lobeType]),
+  ]);
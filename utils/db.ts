@@ -0,0 +1,364 @@
+// IndexedDB persistence for decks and their image cards.
+//
+// localStorage only holds a few MB of text, and a deck with a dozen photo cards
+// (each a base64 data URL) blows straight through that. IndexedDB stores Blobs
+// natively and its quota is a share of free disk, so decks live here:
+//   - `images`: one Blob per distinct image, keyed by a content hash, so a photo
+//     used on several cards (or in several decks) is only stored once.
+//   - `decks`: the deck itself, with every data URL swapped for an
+//     `qrp-image:<hash>` reference into `images`.
+// Small settings (theme, active index) stay in localStorage (see storage.ts).
+
+import { DeckSound, Sequence, Transition } from '../types';
+import { loadStored, removeStored, STORAGE_KEYS } from './storage';
+import { stampDeck, validateDeck } from './deckSchema';
+
+const DB_NAME = 'qrp';
+const DB_VERSION = 1;
+const DECKS = 'decks';
+const IMAGES = 'images';
+
+// Placeholder written in place of a data URL inside a stored deck.
+export const IMAGE_REF_PREFIX = 'qrp-image:';
+
+export const DEFAULT_DECK_ID = 'default';
+
+export interface StoredDeck {
+  id: string;
+  name: string;
+  sequences: Sequence[]; // image data URLs replaced by IMAGE_REF_PREFIX refs
+  timingMs: number;
+  transition?: Transition; // absent on decks saved before transitions existed
+  sound?: DeckSound;        // likewise for live sound
+  schemaVersion?: number;   // see utils/deckSchema.ts; absent before versioning
+  revision?: number;        // bumped by every save, see saveDeck; absent before tab sync
+  updatedAt: number;
+}
+
+// What the deck switcher lists (no card payloads).
+export interface DeckSummary {
+  id: string;
+  name: string;
+  cardCount: number;
+  updatedAt: number;
+}
+
+export const newDeckId = (): string =>
+  `deck-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isIndexedDbAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+};
+
+// --- Low-level helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(DECKS)) db.createObjectStore(DECKS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((err) => {
+      dbPromise = null; // allow a retry (e.g. after the user frees space)
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T,>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Resolves once every write in the transaction is durable. Quota errors surface
+// here (as an abort), not on the individual put() requests.
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// --- Image blobs ---
+
+const isDataUrl = (src: string | undefined): src is string => !!src && src.startsWith('data:');
+const isImageRef = (src: string | undefined): src is string => !!src && src.startsWith(IMAGE_REF_PREFIX);
+
+// Memo caches so an unchanged deck isn't re-hashed / re-read on every save.
+const idByDataUrl = new Map<string, string>();
+const dataUrlById = new Map<string, string>();
+const storedImageIds = new Set<string>();
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+const hashDataUrl = async (dataUrl: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(dataUrl);
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return toHex(new Uint8Array(digest).subarray(0, 16));
+  }
+  // SubtleCrypto is missing on non-secure origins (plain http on a LAN IP).
+  // FNV-1a plus the length is plenty to tell a user's images apart.
+  let h = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    h ^= bytes[i];
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${(h >>> 0).toString(16)}-${bytes.length.toString(16)}`;
+};
+
+const imageIdFor = async (dataUrl: string): Promise<string> => {
+  let id = idByDataUrl.get(dataUrl);
+  if (!id) {
+    id = await hashDataUrl(dataUrl);
+    idByDataUrl.set(dataUrl, id);
+    dataUrlById.set(id, dataUrl);
+  }
+  return id;
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Apply `fn` to every image-bearing field of a card (full-card image, its dark
+// layer and the center image). Untouched fields keep their identity.
+const mapCardImages = async (
+  seq: Sequence,
+  fn: (src: string | undefined) => Promise<string | undefined>
+): Promise<Sequence> => {
+  const [imageSrc, imageSrcDark, centerImageSrc] = await Promise.all([
+    fn(seq.imageSrc),
+    fn(seq.imageSrcDark),
+    fn(seq.geoConfig.centerImageSrc),
+  ]);
+  const out: Sequence = { ...seq, imageSrc, imageSrcDark };
+  if (imageSrc === undefined) delete out.imageSrc;
+  if (imageSrcDark === undefined) delete out.imageSrcDark;
+  if (centerImageSrc !== seq.geoConfig.centerImageSrc) {
+    out.geoConfig = { ...seq.geoConfig, centerImageSrc };
+  }
+  return out;
+};
+
+const collectRefs = (sequences: Sequence[], into = new Set<string>()) => {
+  for (const s of sequences) {
+    for (const src of [s.imageSrc, s.imageSrcDark, s.geoConfig.centerImageSrc]) {
+      if (isImageRef(src)) into.add(src.slice(IMAGE_REF_PREFIX.length));
+    }
+  }
+  return into;
+};
+
+// --- Decks ---
+
+// Refs each deck held at its last save; when one disappears the image store is
+// swept for blobs no deck uses any more.
+const lastRefsByDeck = new Map<string, Set<string>>();
+
+// Resolves to the revision written. With `expectedRevision` the write only
+// happens if the stored deck is still at that revision (0 for none yet);
+// otherwise another tab saved first and this resolves to null. Revisions are
+// bumped inside the write transaction, so they order saves exactly as they
+// landed.
+export const saveDeck = async (
+  deck: Omit<StoredDeck, 'updatedAt'>,
+  expectedRevision?: number
+): Promise<number | null> => {
+  const srcById = new Map<string, string>(); // image id → its data URL
+  const sequences = await Promise.all(deck.sequences.map((s) =>
+    mapCardImages(s, async (src) => {
+      if (!isDataUrl(src)) return src;
+      const id = await imageIdFor(src);
+      srcById.set(id, src);
+      return IMAGE_REF_PREFIX + id;
+    })
+  ));
+
+  // `storedImageIds` is only a hint: a prune in another tab (or one still
+  // running here for another deck) can delete a blob after it was cached. The
+  // blobs it vouches for are re-checked inside the transaction that writes the
+  // deck, and any that are gone are written too on a second pass, so a saved
+  // deck never points at a missing image.
+  let pending = Array.from(srcById.keys()).filter((id) => !storedImageIds.has(id));
+  let revision: number;
+  for (;;) {
+    // Blobs must be built before the transaction opens: awaiting anything other
+    // than an IDB request inside it would let it auto-commit.
+    const blobs = await Promise.all(
+      pending.map(async (id) => [id, await dataUrlToBlob(srcById.get(id)!)] as const)
+    );
+    const cached = Array.from(srcById.keys()).filter((id) => !pending.includes(id));
+
+    const db = await openDb();
+    const tx = db.transaction([DECKS, IMAGES], 'readwrite');
+    const decks = tx.objectStore(DECKS);
+    const stored = await requestToPromise(decks.get(deck.id)) as StoredDeck | undefined;
+    const storedRevision = stored?.revision ?? 0;
+    if (expectedRevision !== undefined && storedRevision !== expectedRevision) {
+      tx.abort();
+      return null;
+    }
+    const images = tx.objectStore(IMAGES);
+    for (const [id, blob] of blobs) images.put(blob, id);
+    const found = await Promise.all(cached.map((id) => requestToPromise(images.getKey(id))));
+    const missing = cached.filter((_, i) => found[i] === undefined);
+    if (missing.length > 0) {
+      tx.abort();
+      missing.forEach((id) => storedImageIds.delete(id));
+      pending = [...pending, ...missing];
+      continue;
+    }
+    revision = storedRevision + 1;
+    const record: StoredDeck = stampDeck({ ...deck, sequences, revision, updatedAt: Date.now() });
+    decks.put(record);
+    await transactionDone(tx);
+    blobs.forEach(([id]) => storedImageIds.add(id));
+    break;
+  }
+
+  const refs = collectRefs(sequences);
+  const previous = lastRefsByDeck.get(deck.id);
+  lastRefsByDeck.set(deck.id, refs);
+  if (previous && Array.from(previous).some((id) => !refs.has(id))) {
+    await pruneImages().catch((err) => console.warn('Could not prune unused images', err));
+  }
+  return revision;
+};
+
+// Load a deck and swap its image refs back to data URLs. A ref whose blob has
+// gone missing is dropped (the card falls back to its generated geometry).
+// The result is migrated and checked like any imported deck; null if nothing
+// in it is loadable.
+export const loadDeck = async (id: string): Promise<StoredDeck | null> => {
+  const db = await openDb();
+  const record = await requestToPromise(
+    db.transaction(DECKS, 'readonly').objectStore(DECKS).get(id)
+  ) as StoredDeck | undefined;
+  if (!record) return null;
+
+  lastRefsByDeck.set(id, collectRefs(record.sequences));
+
+  const sequences = await Promise.all(record.sequences.map((s) =>
+    mapCardImages(s, async (src) => {
+      if (!isImageRef(src)) return src;
+      const imageId = src.slice(IMAGE_REF_PREFIX.length);
+      const cached = dataUrlById.get(imageId);
+      if (cached) return cached;
+      const blob = await requestToPromise(
+        db.transaction(IMAGES, 'readonly').objectStore(IMAGES).get(imageId)
+      ) as Blob | undefined;
+      if (!blob) {
+        console.warn(`Stored image ${imageId} is missing`);
+        return undefined;
+      }
+      const dataUrl = await blobToDataUrl(blob);
+      storedImageIds.add(imageId);
+      idByDataUrl.set(dataUrl, imageId);
+      dataUrlById.set(imageId, dataUrl);
+      return dataUrl;
+    })
+  ));
+  const { deck, issues } = validateDeck({ ...record, sequences });
+  if (issues.length > 0) console.warn(`Repaired while loading deck "${record.name}":`, issues);
+  if (!deck) return null;
+  return { ...record, sequences: deck.sequences, timingMs: deck.timingMs, transition: deck.transition, sound: deck.sound };
+};
+
+// The revision on a deck's record as stored. Unlike loadDeck this still
+// answers for a record too damaged to load (0 if there is none).
+export const loadDeckRevision = async (id: string): Promise<number> => {
+  const db = await openDb();
+  const record = await requestToPromise(
+    db.transaction(DECKS, 'readonly').objectStore(DECKS).get(id)
+  ) as StoredDeck | undefined;
+  return record?.revision ?? 0;
+};
+
+export const listDecks = async (): Promise<DeckSummary[]> => {
+  const db = await openDb();
+  const decks = await requestToPromise(
+    db.transaction(DECKS, 'readonly').objectStore(DECKS).getAll()
+  ) as StoredDeck[];
+  return decks
+    .map(({ id, name, sequences, updatedAt }) => ({ id, name, cardCount: sequences.length, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+};
+
+// Rename without touching the cards (no image re-hashing for a deck that isn't open).
+export const renameDeck = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(DECKS, 'readwrite');
+  const store = tx.objectStore(DECKS);
+  const record = await requestToPromise(store.get(id)) as StoredDeck | undefined;
+  if (record) store.put({ ...record, name, revision: (record.revision ?? 0) + 1, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const deleteDeck = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(DECKS, 'readwrite');
+  tx.objectStore(DECKS).delete(id);
+  await transactionDone(tx);
+  lastRefsByDeck.delete(id);
+  await pruneImages().catch((err) => console.warn('Could not prune unused images', err));
+};
+
+// Delete image blobs that no stored deck references.
+const pruneImages = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([DECKS, IMAGES], 'readwrite');
+  const decks = await requestToPromise(tx.objectStore(DECKS).getAll()) as StoredDeck[];
+  const used = new Set<string>();
+  decks.forEach((d) => collectRefs(d.sequences, used));
+  const images = tx.objectStore(IMAGES);
+  const keys = await requestToPromise(images.getAllKeys());
+  for (const key of keys) {
+    if (!used.has(String(key))) {
+      images.delete(key);
+      storedImageIds.delete(String(key));
+    }
+  }
+  await transactionDone(tx);
+};
+
+// One-time move of the pre-IndexedDB deck out of localStorage. The old keys are
+// only removed once the deck is safely written, so a failed write retries on
+// the next load instead of losing the deck.
+export const migrateLegacyDeck = async (): Promise<StoredDeck | null> => {
+  const legacy = loadStored<Sequence[] | null>(STORAGE_KEYS.sequences, null);
+  if (!Array.isArray(legacy) || legacy.length === 0) return null;
+  const { deck: checked, issues } = validateDeck(legacy);
+  if (issues.length > 0) console.warn('Repaired while migrating the saved deck:', issues);
+  if (!checked) return null;
+  const deck = {
+    id: DEFAULT_DECK_ID,
+    name: 'My Deck',
+    sequences: checked.sequences,
+    timingMs: loadStored<number>(STORAGE_KEYS.timingMs, 1500),
+  };
+  const revision = await saveDeck(deck);
+  removeStored(STORAGE_KEYS.sequences);
+  removeStored(STORAGE_KEYS.timingMs);
+  return { ...deck, revision, updatedAt: Date.now() };
+};
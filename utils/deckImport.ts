@@ -0,0 +1,135 @@
+// Loading someone else's cards: decode whatever was pasted or dropped (JSON
+// config, share link, embedded config) into a checked deck, then plan how its
+// cards join the open deck — replace it, append to it, or merge by card name.
+
+import { Sequence } from '../types';
+import { decompressShareConfig } from './compression';
+import { readShareParams } from './shareLink';
+import { DeckData, SchemaIssue, summarizeIssues, validateDeck } from './deckSchema';
+import { DEFAULT_TRANSITION } from './transitions';
+
+export interface DecodedImport {
+  deck: DeckData;
+  issues: SchemaIssue[];       // repairs made while checking the deck
+  theme?: 'light' | 'dark';    // a share link's ?t=
+}
+
+// A compressed config as found in a link's `c` or in PNG / SVG / video metadata.
+export const decodeSharedConfig = async (encoded: string): Promise<DecodedImport> => {
+  const loaded = await decompressShareConfig(encoded);
+  if (!loaded) throw new Error('That config is damaged or from an unsupported version');
+  return {
+    deck: { sequences: loaded.sequences, timingMs: loaded.timingMs ?? 1500, transition: loaded.transition ?? DEFAULT_TRANSITION },
+    issues: loaded.issues ?? [],
+  };
+};
+
+// Pasted text: a JSON config or a QRP link (full, relative, ?c= or #c=).
+// Rejects with a message for the user.
+export const decodeImport = async (input: string): Promise<DecodedImport> => {
+  const text = input.trim();
+
+  if (text.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Not valid JSON, fall through to URL
+    }
+    if (data !== undefined) {
+      // Older saves are migrated and broken fields repaired (see utils/deckSchema.ts).
+      const { deck, issues } = validateDeck(data);
+      if (!deck) throw new Error(`Could not load that config — ${summarizeIssues(issues)}`);
+      return { deck, issues };
+    }
+  }
+
+  let url: URL | null = null;
+  try {
+    url = new URL(text);
+  } catch {
+    // If relative path or partial
+    if (text.includes('c=')) url = new URL(window.location.origin + (text.startsWith('/') ? '' : '/') + text);
+  }
+
+  if (!url) throw new Error('Unrecognized input — paste a QRP link or JSON config');
+
+  const params = readShareParams(url);
+  const config = params.get('c');
+  if (!config) throw new Error('No configuration found in that URL');
+  const t = params.get('t');
+  try {
+    const decoded = await decodeSharedConfig(config);
+    return t === 'dark' || t === 'light' ? { ...decoded, theme: t } : decoded;
+  } catch {
+    throw new Error('That URL has invalid configuration data');
+  }
+};
+
+// --- Combining decks ---
+
+export type ImportMode = 'replace' | 'append' | 'merge';
+
+export const IMPORT_MODES: { mode: ImportMode; label: string; hint: string }[] = [
+  { mode: 'replace', label: 'Replace', hint: 'The imported cards become the whole deck.' },
+  { mode: 'append', label: 'Append', hint: 'Added after your cards; clashing names get a number.' },
+  { mode: 'merge', label: 'Merge', hint: 'A card with the same name as one of yours updates it in place; the rest are added.' },
+];
+
+export interface PlannedCard {
+  index: number;                // position in the resulting deck
+  name: string;                 // after renaming, if the name was taken
+  action: 'add' | 'update';     // update: replaces the open deck's card of that name
+  renamedFrom?: string;
+}
+
+export interface ImportPlan {
+  sequences: Sequence[];        // the deck after the import
+  cards: PlannedCard[];         // per incoming card, in order
+  added: number;
+  updated: number;
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// "Name", "Name (2)", "Name (3)", … — first one not in `taken`.
+const freeName = (name: string, taken: Set<string>) => {
+  if (!taken.has(nameKey(name))) return name;
+  const base = name.replace(/\s*\(\d+\)$/, '');
+  let n = 2;
+  while (taken.has(nameKey(`${base} (${n})`))) n++;
+  return `${base} (${n})`;
+};
+
+// Appended cards always get fresh ids (after the open deck's highest), so a
+// colleague's card 3 never collides with ours. Merged cards keep the id and
+// position of the card they update.
+export const planImport = (current: Sequence[], incoming: Sequence[], mode: ImportMode): ImportPlan => {
+  if (mode === 'replace') {
+    const cards = incoming.map((s, index): PlannedCard => ({ index, name: s.name, action: 'add' }));
+    return { sequences: incoming, cards, added: incoming.length, updated: 0 };
+  }
+
+  const sequences = [...current];
+  const byName = new Map(current.map((s, i) => [nameKey(s.name), i]));
+  const taken = new Set(byName.keys());
+  const updatedNames = new Set<string>();
+  let nextId = current.length > 0 ? Math.max(...current.map(s => s.id)) + 1 : 1;
+
+  const cards = incoming.map((seq): PlannedCard => {
+    const key = nameKey(seq.name);
+    const target = mode === 'merge' && !updatedNames.has(key) ? byName.get(key) : undefined;
+    if (target !== undefined) {
+      updatedNames.add(key);
+      sequences[target] = { ...seq, id: current[target].id, name: current[target].name };
+      return { index: target, name: current[target].name, action: 'update' };
+    }
+    const name = freeName(seq.name, taken);
+    taken.add(nameKey(name));
+    const index = sequences.push({ ...seq, id: nextId++, name }) - 1;
+    return name === seq.name ? { index, name, action: 'add' } : { index, name, action: 'add', renamedFrom: seq.name };
+  });
+
+  const updated = cards.filter(c => c.action === 'update').length;
+  return { sequences, cards, added: cards.length - updated, updated };
+};
@@ -0,0 +1,315 @@
+// Deck schema: one validator and migration chain for every deck that comes in
+// from outside the running app — JSON saves, share links and embedded configs,
+// and the browser's own stored decks. Broken fields are repaired where that is
+// safe (defaults, clamping, renumbering) and each repair is reported, so a bad
+// file loads what it can instead of NaN steps, half a geoConfig or two cards
+// with the same id. Saves are stamped with `schemaVersion`, which decides the
+// migrations an older file needs.
+
+import { CardAnimation, DeckSound, Easing, GeoConfig, Keyframe, Sequence, Transition } from '../types';
+import { GEO_FIELD_LABELS, INTEGER_GEO_FIELDS, MAX_VALUE_PER_DIVISION, SUNFLOWER_PRESET } from '../constants';
+import { ANIMATABLE_GEO_KEYS, EASING_OPTIONS, sortKeyframes } from './keyframes';
+import { DEFAULT_TRANSITION, normalizeTransition } from './transitions';
+import { normalizeCardSound, normalizeDeckSound } from './audio';
+
+export const DECK_SCHEMA_VERSION = 2;
+
+export interface SchemaIssue {
+  path: string;    // where, e.g. "sequences[2].geoConfig.petals"
+  message: string; // what was wrong and what was done about it
+  fixed: boolean;  // false: the deck could not be loaded at all
+}
+
+export interface DeckData {
+  name?: string;
+  sequences: Sequence[];
+  timingMs: number;
+  transition: Transition;
+  sound?: DeckSound; // only when the source had one (share links don't)
+}
+
+export interface DeckValidation {
+  deck: DeckData | null; // null when nothing loadable was found
+  issues: SchemaIssue[];
+}
+
+type RawDeck = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version n-1 deck to version n. Saves without a
+// stamp are version 1.
+
+const MIGRATIONS: Record<number, (deck: RawDeck) => RawDeck> = {
+  // The first JSON saves kept one geoConfig for the whole deck.
+  2: deck => {
+    const shared = deck.geoConfig;
+    if (!isObject(shared) || !Array.isArray(deck.sequences)) return deck;
+    const { geoConfig: _, ...rest } = deck;
+    return {
+      ...rest,
+      sequences: deck.sequences.map((s: unknown) =>
+        isObject(s) && !s.geoConfig ? { ...s, geoConfig: shared } : s
+      ),
+    };
+  },
+};
+
+const migrate = (deck: RawDeck, issues: SchemaIssue[]): RawDeck => {
+  const version = deck.schemaVersion;
+  const from = isNum(version) && Number.isInteger(version) && version > 0 ? version : 1;
+  if (from > DECK_SCHEMA_VERSION) {
+    issues.push({
+      path: 'schemaVersion',
+      message: `Saved by a newer version of QRP (schema ${from}) — fields this version doesn't know are ignored`,
+      fixed: true,
+    });
+  }
+  let out = deck;
+  for (let v = from + 1; v <= DECK_SCHEMA_VERSION; v++) out = MIGRATIONS[v](out);
+  return out;
+};
+
+// Marks a deck for saving with the schema version it was written in (first,
+// so it heads the JSON).
+export const stampDeck = <T extends object>(deck: T): T & { schemaVersion: number } => {
+  const { schemaVersion: _, ...rest } = deck as T & { schemaVersion?: number };
+  return { schemaVersion: DECK_SCHEMA_VERSION, ...rest } as T & { schemaVersion: number };
+};
+
+// --- Validation ---
+
+// True when normalising changed a value the source actually set (missing
+// fields taking their default isn't worth reporting).
+const corrected = (source: unknown, normalized: object | undefined) =>
+  isObject(source)
+    ? Object.keys(source).some(k => source[k] !== (normalized as Record<string, unknown> | undefined)?.[k])
+    : source !== undefined;
+const show = (v: unknown) => (typeof v === 'string' ? `"${v.length > 24 ? `${v.slice(0, 24)}…` : v}"` : String(v));
+
+const ENUM_GEO_FIELDS: Partial<Record<keyof GeoConfig, readonly string[]>> = {
+  lobeType: ['sunflower', 'dharma', 'lotus'],
+  lobeDesign: ['seeds', 'celtic', 'triskelion'],
+  centerDesign: ['seeds', 'celtic', 'triskelion', 'uranus', 'image'],
+};
+
+// Optional fields have no preset value to take the type from.
+const OPTIONAL_GEO_TYPES: Partial<Record<keyof GeoConfig, 'string' | 'number' | 'boolean'>> = {
+  centerImageSrc: 'string',
+  centerImageScale: 'number',
+  centerImageCircle: 'boolean',
+  centerImageInvert: 'boolean',
+};
+
+export const MAX_SEQUENCE_STEPS = 100;
+const EASINGS = new Set<Easing>(EASING_OPTIONS.map(o => o.easing));
+
+const validateGeoConfig = (value: unknown, path: string, where: string, issues: SchemaIssue[]): GeoConfig => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `${where}: no geometry settings — using the defaults`, fixed: true });
+    return { ...SUNFLOWER_PRESET };
+  }
+  const geo: Partial<GeoConfig> = {};
+  const set = <K extends keyof GeoConfig>(key: K, v: GeoConfig[K]) => { geo[key] = v; };
+  const missing: string[] = [];
+  (Object.keys(GEO_FIELD_LABELS) as (keyof GeoConfig)[]).forEach(key => {
+    const v = value[key];
+    const fallback = SUNFLOWER_PRESET[key];
+    const type = OPTIONAL_GEO_TYPES[key] ?? typeof fallback;
+    const label = GEO_FIELD_LABELS[key];
+    if (v === undefined) {
+      if (fallback !== undefined) missing.push(label);
+      set(key, fallback);
+      return;
+    }
+    const valid = type === 'number' ? isNum(v) : typeof v === type;
+    const allowed = ENUM_GEO_FIELDS[key];
+    if (!valid || (allowed && !allowed.includes(v as string))) {
+      set(key, fallback);
+      issues.push({
+        path: `${path}.${key}`,
+        message: `${where}: ${label} ${show(v)} is not a valid ${allowed ? 'option' : type} — ${fallback === undefined ? 'removed' : `reset to ${show(fallback)}`}`,
+        fixed: true,
+      });
+      return;
+    }
+    set(key, (INTEGER_GEO_FIELDS.has(key) ? Math.round(v as number) : v) as GeoConfig[typeof key]);
+  });
+  if (missing.length > 0) {
+    issues.push({
+      path,
+      message: `${where}: missing ${missing.length > 3 ? `${missing.length} geometry settings` : missing.join(', ')} — filled in from the defaults`,
+      fixed: true,
+    });
+  }
+  if (geo.sequenceLength < 1 || geo.sequenceLength > MAX_SEQUENCE_STEPS) {
+    const clamped = Math.min(MAX_SEQUENCE_STEPS, Math.max(1, geo.sequenceLength));
+    issues.push({ path: `${path}.sequenceLength`, message: `${where}: ${geo.sequenceLength} steps is out of range — set to ${clamped}`, fixed: true });
+    geo.sequenceLength = clamped;
+  }
+  return geo as GeoConfig; // every field was set above
+};
+
+const validateData = (value: unknown, length: number, path: string, where: string, issues: SchemaIssue[]): number[] => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `${where}: no step values — all steps cleared`, fixed: true });
+    return new Array(length).fill(0);
+  }
+  let bad = 0;
+  const data = value.slice(0, length).map(v => {
+    if (isNum(v) && Number.isInteger(v) && v >= 0 && v <= MAX_VALUE_PER_DIVISION) return v;
+    bad++;
+    return isNum(v) ? Math.min(MAX_VALUE_PER_DIVISION, Math.max(0, Math.round(v))) : 0;
+  });
+  if (bad > 0) {
+    issues.push({ path, message: `${where}: ${bad} step value${bad === 1 ? ' was' : 's were'} not a whole number from 0 to ${MAX_VALUE_PER_DIVISION} — corrected`, fixed: true });
+  }
+  if (value.length !== length) {
+    issues.push({ path, message: `${where}: ${value.length} step values for ${length} steps — ${value.length > length ? 'trimmed' : 'padded with 0'}`, fixed: true });
+    while (data.length < length) data.push(0);
+  }
+  return data;
+};
+
+const validateAnimation = (value: unknown, path: string, where: string, issues: SchemaIssue[]): CardAnimation | undefined => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `${where}: unreadable animation — removed`, fixed: true });
+    return undefined;
+  }
+  const animation: CardAnimation = {};
+  let dropped = 0;
+  Object.entries(value).forEach(([key, track]) => {
+    if (!(ANIMATABLE_GEO_KEYS as readonly string[]).includes(key) || !Array.isArray(track)) {
+      dropped++;
+      return;
+    }
+    const keyframes: Keyframe[] = track
+      .filter(k => isObject(k) && isNum(k.at) && isNum(k.value))
+      .map(k => {
+        const frame: Keyframe = { at: Math.min(1, Math.max(0, k.at)), value: k.value };
+        if (EASINGS.has(k.easing)) frame.easing = k.easing;
+        return frame;
+      });
+    dropped += track.length - keyframes.length;
+    if (keyframes.length > 0) animation[key as keyof CardAnimation] = sortKeyframes(keyframes);
+  });
+  if (dropped > 0) {
+    issues.push({ path, message: `${where}: ${dropped} invalid animation track${dropped === 1 ? '' : 's'} or keyframe${dropped === 1 ? '' : 's'} removed`, fixed: true });
+  }
+  return Object.keys(animation).length > 0 ? animation : undefined;
+};
+
+const validateSequence = (value: unknown, index: number, issues: SchemaIssue[]): Sequence | null => {
+  const path = `sequences[${index}]`;
+  if (!isObject(value)) {
+    issues.push({ path, message: `Card ${index + 1} is not a card (${show(value)}) — skipped`, fixed: true });
+    return null;
+  }
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name : `Card ${index + 1}`;
+  const where = `Card ${index + 1} "${name}"`;
+  if (name !== value.name) issues.push({ path: `${path}.name`, message: `Card ${index + 1} has no name — named "${name}"`, fixed: true });
+
+  const geoConfig = validateGeoConfig(value.geoConfig, `${path}.geoConfig`, where, issues);
+  const seq: Sequence = {
+    id: value.id as number, // checked by assignIds
+    name,
+    data: validateData(value.data, geoConfig.sequenceLength, `${path}.data`, where, issues),
+    geoConfig,
+  };
+  if (typeof value.description === 'string') seq.description = value.description;
+
+  const optional = <K extends keyof Sequence>(key: K, ok: (v: unknown) => boolean, fix = 'removed') => {
+    const v = value[key];
+    if (v === undefined) return;
+    if (ok(v)) seq[key] = v as Sequence[K];
+    else issues.push({ path: `${path}.${key}`, message: `${where}: ${key} ${show(v)} is invalid — ${fix}`, fixed: true });
+  };
+  optional('imageSrc', v => typeof v === 'string' && v.length > 0);
+  optional('imageSrcDark', v => typeof v === 'string' && v.length > 0);
+  optional('imageInvert', v => typeof v === 'boolean');
+  optional('imageFrame', v => typeof v === 'boolean');
+  optional('durationMs', v => isNum(v) && v > 0, 'uses the deck timing');
+
+  if (value.animation !== undefined) {
+    const animation = validateAnimation(value.animation, `${path}.animation`, where, issues);
+    if (animation) seq.animation = animation;
+  }
+  if (value.sound !== undefined) {
+    const sound = normalizeCardSound(value.sound);
+    if (sound) seq.sound = sound;
+    if (corrected(value.sound, sound)) {
+      issues.push({ path: `${path}.sound`, message: `${where}: invalid sound settings — ${sound ? 'corrected' : 'follows the deck'}`, fixed: true });
+    }
+  }
+  return seq;
+};
+
+// Ids must be positive integers and unique within the deck; anything else is
+// renumbered after the highest valid id.
+const assignIds = (sequences: Sequence[], issues: SchemaIssue[]) => {
+  const seen = new Set<number>();
+  const valid = sequences.map(s => Number.isInteger(s.id) && s.id > 0 && !seen.has(s.id) && !!seen.add(s.id));
+  let next = Math.max(0, ...Array.from(seen)) + 1;
+  sequences.forEach((s, i) => {
+    if (valid[i]) return;
+    const id = next++;
+    issues.push({
+      path: `sequences[${i}].id`,
+      message: `Card ${i + 1} "${s.name}": ${s.id === undefined ? 'missing id' : `id ${show(s.id)} is ${seen.has(s.id) ? 'already used' : 'invalid'}`} — renumbered to ${id}`,
+      fixed: true,
+    });
+    s.id = id;
+  });
+};
+
+// Checks (and repairs) a deck from any source. `input` is a saved deck object
+// ({ sequences, timingMs, … }) or just a sequences array.
+export const validateDeck = (input: unknown): DeckValidation => {
+  const issues: SchemaIssue[] = [];
+  const raw = Array.isArray(input) ? { sequences: input } : input;
+  if (!isObject(raw)) {
+    issues.push({ path: '', message: 'Not a QRP deck — expected an object with a "sequences" list', fixed: false });
+    return { deck: null, issues };
+  }
+  const deck = migrate(raw, issues);
+  if (!Array.isArray(deck.sequences)) {
+    issues.push({ path: 'sequences', message: 'Not a QRP deck — "sequences" is missing or not a list', fixed: false });
+    return { deck: null, issues };
+  }
+
+  const sequences = deck.sequences
+    .map((s: unknown, i: number) => validateSequence(s, i, issues))
+    .filter((s: Sequence | null): s is Sequence => s !== null);
+  if (sequences.length === 0) {
+    issues.push({ path: 'sequences', message: 'The deck has no usable cards', fixed: false });
+    return { deck: null, issues };
+  }
+  assignIds(sequences, issues);
+
+  let timingMs = 1500;
+  if (deck.timingMs !== undefined) {
+    if (isNum(deck.timingMs) && deck.timingMs > 0) timingMs = deck.timingMs;
+    else issues.push({ path: 'timingMs', message: `Deck timing ${show(deck.timingMs)} is invalid — reset to 1.5s`, fixed: true });
+  }
+
+  const transition = deck.transition === undefined ? DEFAULT_TRANSITION : normalizeTransition(deck.transition);
+  if (corrected(deck.transition, transition)) {
+    issues.push({ path: 'transition', message: 'Invalid transition settings — corrected', fixed: true });
+  }
+
+  const out: DeckData = { sequences, timingMs, transition };
+  if (typeof deck.name === 'string' && deck.name.trim()) out.name = deck.name;
+  if (deck.sound !== undefined) {
+    out.sound = normalizeDeckSound(deck.sound);
+    if (corrected(deck.sound, out.sound)) {
+      issues.push({ path: 'sound', message: 'Invalid sound settings — corrected', fixed: true });
+    }
+  }
+  return { deck: out, issues };
+};
+
+// One line for a toast: the first problem and how many more there were.
+export const summarizeIssues = (issues: SchemaIssue[]) =>
+  issues.length === 0 ? '' : `${issues[0].message}${issues.length > 1 ? ` (+${issues.length - 1} more, see console)` : ''}`;
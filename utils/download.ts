@@ -0,0 +1,13 @@
+// Saving generated files (videos, PNGs, ZIPs, PDFs, CSV…) to the user's disk.
+
+// Downloads `blob` as `filename` through a temporary link.
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
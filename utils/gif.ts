@@ -0,0 +1,217 @@
+// Animated GIF (GIF89a) encoder for export. Each frame gets its own 256-colour
+// palette from median-cut quantisation; cards are mostly flat colour with
+// anti-aliased edges, so frames are left undithered to keep them clean and small.
+
+const MAX_COLORS = 256;
+const BIN_BITS = 5; // histogram precision per channel
+const BIN_SHIFT = 8 - BIN_BITS;
+
+const binOf = (r: number, g: number, b: number) =>
+  ((r >> BIN_SHIFT) << (BIN_BITS * 2)) | ((g >> BIN_SHIFT) << BIN_BITS) | (b >> BIN_SHIFT);
+
+interface ColorBin {
+  bin: number;
+  count: number;
+  r: number; // channel averages
+  g: number;
+  b: number;
+}
+
+const CHANNELS = ['r', 'g', 'b'] as const;
+
+const averageColor = (bins: ColorBin[]): [number, number, number] => {
+  let n = 0, r = 0, g = 0, b = 0;
+  for (const c of bins) {
+    n += c.count;
+    r += c.r * c.count;
+    g += c.g * c.count;
+    b += c.b * c.count;
+  }
+  return [Math.round(r / n), Math.round(g / n), Math.round(b / n)];
+};
+
+interface ColorBox {
+  bins: ColorBin[];
+  count: number;
+  channel: typeof CHANNELS[number]; // widest channel
+  score: number; // channel range weighted by population; 0 can't split
+}
+
+const makeBox = (bins: ColorBin[]): ColorBox => {
+  let channel: typeof CHANNELS[number] = 'r';
+  let range = -1;
+  for (const ch of CHANNELS) {
+    let lo = 255, hi = 0;
+    for (const c of bins) {
+      if (c[ch] < lo) lo = c[ch];
+      if (c[ch] > hi) hi = c[ch];
+    }
+    if (hi - lo > range) {
+      range = hi - lo;
+      channel = ch;
+    }
+  }
+  const count = bins.reduce((n, c) => n + c.count, 0);
+  return { bins, count, channel, score: bins.length < 2 ? 0 : range * Math.sqrt(count) };
+};
+
+// Split the colour histogram into at most 256 boxes, each cut at the weighted
+// median of its widest channel; the palette is each box's average colour.
+const medianCut = (bins: ColorBin[]): [number, number, number][] => {
+  if (bins.length <= MAX_COLORS) return bins.map(c => [Math.round(c.r), Math.round(c.g), Math.round(c.b)]);
+
+  const boxes: ColorBox[] = [makeBox(bins)];
+  while (boxes.length < MAX_COLORS) {
+    let pick = -1;
+    boxes.forEach((box, i) => {
+      if (box.score > 0 && (pick < 0 || box.score > boxes[pick].score)) pick = i;
+    });
+    if (pick < 0) break;
+
+    const { bins: sorted, count, channel } = boxes[pick];
+    sorted.sort((a, b) => a[channel] - b[channel]);
+    let acc = 0;
+    let cut = 1;
+    for (; cut < sorted.length - 1; cut++) {
+      acc += sorted[cut - 1].count;
+      if (acc >= count / 2) break;
+    }
+    boxes.splice(pick, 1, makeBox(sorted.slice(0, cut)), makeBox(sorted.slice(cut)));
+  }
+  return boxes.map(box => averageColor(box.bins));
+};
+
+// Palette plus one palette index per pixel.
+const quantize = (rgba: Uint8ClampedArray) => {
+  const count = new Uint32Array(1 << (BIN_BITS * 3));
+  const sums = new Float64Array(count.length * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const bin = binOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    count[bin]++;
+    sums[bin * 3] += rgba[i];
+    sums[bin * 3 + 1] += rgba[i + 1];
+    sums[bin * 3 + 2] += rgba[i + 2];
+  }
+
+  const bins: ColorBin[] = [];
+  for (let bin = 0; bin < count.length; bin++) {
+    const n = count[bin];
+    if (n > 0) bins.push({ bin, count: n, r: sums[bin * 3] / n, g: sums[bin * 3 + 1] / n, b: sums[bin * 3 + 2] / n });
+  }
+  const palette = medianCut(bins);
+
+  // Nearest palette entry for every colour present.
+  const lookup = new Uint8Array(count.length);
+  for (const c of bins) {
+    let best = 0;
+    let bestDist = Infinity;
+    for (let p = 0; p < palette.length; p++) {
+      const dr = c.r - palette[p][0];
+      const dg = c.g - palette[p][1];
+      const db = c.b - palette[p][2];
+      const d = dr * dr + dg * dg + db * db;
+      if (d < bestDist) {
+        bestDist = d;
+        best = p;
+      }
+    }
+    lookup[c.bin] = best;
+  }
+
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+    indices[p] = lookup[binOf(rgba[i], rgba[i + 1], rgba[i + 2])];
+  }
+  return { palette, indices };
+};
+
+// GIF LZW, packed LSB-first into length-prefixed sub-blocks of up to 255 bytes.
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dict = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.push(255, ...block);
+        block = [];
+      }
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      dict.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dict.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) out.push(block.length, ...block);
+  out.push(0); // block terminator
+  return new Uint8Array(out);
+};
+
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+
+// Collects frames and assembles a looping GIF. `delayCs` is in hundredths of
+// a second, the unit GIF stores.
+export const createGifWriter = (width: number, height: number) => {
+  const parts: Uint8Array[] = [
+    new Uint8Array([
+      ...Array.from('GIF89a', c => c.charCodeAt(0)),
+      ...u16(width), ...u16(height),
+      0x70, 0, 0, // no global colour table; every frame carries its own
+      // NETSCAPE2.0 application extension: loop forever
+      0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0,
+    ]),
+  ];
+
+  const addFrame = (rgba: Uint8ClampedArray, delayCs: number) => {
+    const { palette, indices } = quantize(rgba);
+    const table = new Uint8Array(MAX_COLORS * 3);
+    palette.forEach(([r, g, b], i) => table.set([r, g, b], i * 3));
+    parts.push(
+      new Uint8Array([
+        0x21, 0xf9, 0x04, 0x04, ...u16(Math.max(2, Math.round(delayCs))), 0, 0, // graphic control: keep frame, delay
+        0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0x87, // image descriptor, 256-entry local table
+      ]),
+      table,
+      new Uint8Array([8]), // LZW minimum code size
+      lzwEncode(indices, 8)
+    );
+  };
+
+  const finish = (): Blob => new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' });
+
+  return { addFrame, finish };
+};
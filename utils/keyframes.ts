@@ -0,0 +1,119 @@
+// Keyframe animation of a card's numeric geometry over its display duration.
+// Sampled with the same 0–1 progress by the live player (elapsed time) and by
+// video export (frame index), so both show the same motion.
+
+import { CardAnimation, Easing, GeoConfig, Keyframe, NumericGeoKey, Sequence } from '../types';
+import { INTEGER_GEO_FIELDS } from '../constants';
+
+// Every numeric field except the step count (which would resize the card).
+export const ANIMATABLE_GEO_KEYS: NumericGeoKey[] = [
+  'overallScale', 'mainScale', 'geometryRotation',
+  'petals', 'petalSize', 'petalRoundness',
+  'lobeCount', 'lobeRadius', 'lobeOpacity', 'centerOpacity',
+  'designScale', 'designOffset', 'centerImageScale',
+  'ringInnerRadius', 'stripeSep', 'stripeStart', 'hullValley', 'hullCoverage',
+  'dharmaExtrusionOut', 'dharmaExtrusionSide', 'dharmaStemWidth', 'dharmaCapHeight',
+  'shellScale', 'shellStroke', 'ringStroke', 'stripeStroke',
+  'frameScale', 'frameHeaderOffset', 'frameTickLength', 'frameStrokeWidth', 'uiFontSize',
+];
+
+export const EASING_OPTIONS: { easing: Easing; label: string }[] = [
+  { easing: 'linear', label: 'Linear' },
+  { easing: 'easeIn', label: 'Ease In' },
+  { easing: 'easeOut', label: 'Ease Out' },
+  { easing: 'easeInOut', label: 'Ease In-Out' },
+  { easing: 'step', label: 'Hold' },
+];
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  step: () => 0, // hold the previous value until the keyframe is reached
+};
+
+export const hasAnimation = (seq: Pick<Sequence, 'animation'>): boolean =>
+  !!seq.animation && Object.values(seq.animation).some((track) => !!track && track.length > 0);
+
+// Value of one track at progress `t` (0–1). Before the first / after the last
+// keyframe the track holds that keyframe's value.
+export const sampleTrack = (track: Keyframe[], t: number): number => {
+  if (t <= track[0].at) return track[0].value;
+  for (let i = 1; i < track.length; i++) {
+    const next = track[i];
+    if (t <= next.at) {
+      const prev = track[i - 1];
+      const span = next.at - prev.at;
+      const local = span > 0 ? (t - prev.at) / span : 1;
+      const eased = EASINGS[next.easing ?? 'linear'](local);
+      return prev.value + (next.value - prev.value) * eased;
+    }
+  }
+  return track[track.length - 1].value;
+};
+
+// The card's geometry at progress `t`, with every keyframed field sampled.
+export const animatedGeoConfig = (
+  geoConfig: GeoConfig,
+  animation: CardAnimation | undefined,
+  t: number
+): GeoConfig => {
+  if (!animation) return geoConfig;
+  const out = { ...geoConfig };
+  (Object.keys(animation) as NumericGeoKey[]).forEach((key) => {
+    const track = animation[key];
+    if (!track || track.length === 0) return;
+    const v = sampleTrack(track, t);
+    out[key] = INTEGER_GEO_FIELDS.has(key) ? Math.round(v) : v;
+  });
+  return out;
+};
+
+// Keyframes kept valid after an edit: positions clamped to 0–1, sorted.
+export const sortKeyframes = (track: Keyframe[]): Keyframe[] =>
+  track
+    .map((k) => ({ ...k, at: Math.min(1, Math.max(0, k.at)) }))
+    .sort((a, b) => a.at - b.at);
+
+// Starter tracks for the common motions, built around the card's current value.
+export const ANIMATION_PRESETS: {
+  label: string;
+  key: NumericGeoKey;
+  build: (value: number) => Keyframe[];
+}[] = [
+  {
+    label: 'Pulse',
+    key: 'petalSize',
+    build: (v) => [
+      { at: 0, value: v },
+      { at: 0.5, value: v * 1.3, easing: 'easeInOut' },
+      { at: 1, value: v, easing: 'easeInOut' },
+    ],
+  },
+  {
+    label: 'Breathe',
+    key: 'overallScale',
+    build: (v) => [
+      { at: 0, value: v },
+      { at: 0.5, value: v * 0.9, easing: 'easeInOut' },
+      { at: 1, value: v, easing: 'easeInOut' },
+    ],
+  },
+  {
+    label: 'Sweep',
+    key: 'geometryRotation',
+    build: (v) => [
+      { at: 0, value: v },
+      { at: 1, value: v + 360 },
+    ],
+  },
+  {
+    label: 'Fade In',
+    key: 'lobeOpacity',
+    build: (v) => [
+      { at: 0, value: 0 },
+      { at: 0.5, value: v, easing: 'easeOut' },
+    ],
+  },
+];
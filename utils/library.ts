@@ -45,3 +45,17 @@ export const loadLibraryManifest = (): Promise<LibraryManifest> => {
   }
   return cache;
 };
+
+// Share links and embedded configs carry library images by card id rather than
+// URL: the base path differs between deployments, and a data URL would be far
+// too long. Decoders hold the id behind this prefix until it is resolved.
+export const LIBRARY_REF_PREFIX = 'qrp-library:';
+
+// The library card id behind an image URL, or null for any other image. Ids
+// mirror the file path ("library/<id>.webp", dark layer "<id>.dark.webp"; see
+// scripts/build-library.mjs), so encoding needs no manifest.
+export const libraryIdForUrl = (src: string | undefined): string | null => {
+  const base = libraryImageUrl('library/');
+  if (!src || !src.startsWith(base)) return null;
+  return src.slice(base.length).replace(/(\.dark)?\.\w+$/, '') || null;
+};
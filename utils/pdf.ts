@@ -0,0 +1,180 @@
+// Minimal PDF 1.4 writer for the printable deck export. Pages are content
+// streams of path operators (see utils/svgToPdf.ts); text uses the standard
+// Type 1 fonts every reader ships, so nothing needs embedding, and raster
+// images (image cards) are stored as Flate-compressed RGB with an alpha mask.
+// Everything runs in the browser; CompressionStream does the deflating.
+
+export type PdfFont =
+  | 'Helvetica' | 'Helvetica-Bold'
+  | 'Times-Roman' | 'Times-Bold'
+  | 'Courier' | 'Courier-Bold';
+
+export type PdfBlendMode = 'Normal' | 'Multiply' | 'Screen';
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  rgb: Uint8Array;    // width × height × 3
+  alpha?: Uint8Array; // width × height; omitted when fully opaque
+}
+
+// Latin-1 bytes of a string (content streams and dictionaries are ASCII;
+// text strings are already WinAnsi-escaped by pdfString).
+const latin1 = (s: string) => {
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 0xff;
+  return out;
+};
+
+// Shortest fixed-point form: PDF has no exponent notation.
+export const pdfNum = (n: number) => {
+  if (!isFinite(n)) return '0';
+  const s = n.toFixed(3);
+  return s.includes('.') ? s.replace(/\.?0+$/, '') || '0' : s;
+};
+
+// A literal string in WinAnsiEncoding. Characters outside it become '?'.
+export const pdfString = (text: string) => {
+  let out = '(';
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code >= 160 && code <= 255) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += '?';
+  }
+  return `${out})`;
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const createPdfWriter = (title: string) => {
+  const pages: { width: number; height: number; content: string }[] = [];
+  const fonts = new Map<PdfFont, string>();
+  const states = new Map<string, { name: string; fill: number; stroke: number; blend: PdfBlendMode }>();
+  const images = new Map<string, { name: string; image: PdfImage }>();
+
+  // Resource names, shared by every page.
+  const font = (name: PdfFont) => {
+    if (!fonts.has(name)) fonts.set(name, `F${fonts.size + 1}`);
+    return `/${fonts.get(name)}`;
+  };
+
+  const graphicsState = (fill: number, stroke: number, blend: PdfBlendMode = 'Normal') => {
+    const key = `${pdfNum(fill)}:${pdfNum(stroke)}:${blend}`;
+    if (!states.has(key)) states.set(key, { name: `GS${states.size + 1}`, fill, stroke, blend });
+    return `/${states.get(key)!.name}`;
+  };
+
+  // `key` identifies the source so repeated images are stored once.
+  const image = (key: string, make: () => PdfImage) => {
+    if (!images.has(key)) images.set(key, { name: `Im${images.size + 1}`, image: make() });
+    return `/${images.get(key)!.name}`;
+  };
+
+  const addPage = (width: number, height: number, content: string) => {
+    pages.push({ width, height, content });
+  };
+
+  const finish = async (): Promise<Blob> => {
+    const objects: (Uint8Array | string)[][] = [];
+    const reserve = () => {
+      objects.push([]);
+      return objects.length; // object numbers start at 1
+    };
+    const set = (id: number, ...parts: (Uint8Array | string)[]) => {
+      objects[id - 1] = parts;
+    };
+    const stream = async (id: number, dict: string, data: Uint8Array) => {
+      const packed = await deflate(data);
+      const body = packed ?? data;
+      set(id, `<< ${dict}${packed ? ' /Filter /FlateDecode' : ''} /Length ${body.length} >>\nstream\n`, body, '\nendstream');
+    };
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const resourcesId = reserve();
+    const infoId = reserve();
+
+    const fontRefs: string[] = [];
+    fonts.forEach((name, base) => {
+      const id = reserve();
+      set(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${base} /Encoding /WinAnsiEncoding >>`);
+      fontRefs.push(`/${name} ${id} 0 R`);
+    });
+
+    const stateRefs: string[] = [];
+    states.forEach(({ name, fill, stroke, blend }) => {
+      const id = reserve();
+      set(id, `<< /Type /ExtGState /ca ${pdfNum(fill)} /CA ${pdfNum(stroke)} /BM /${blend} >>`);
+      stateRefs.push(`/${name} ${id} 0 R`);
+    });
+
+    const imageRefs: string[] = [];
+    for (const { name, image: img } of images.values()) {
+      const id = reserve();
+      let smask = '';
+      if (img.alpha) {
+        const maskId = reserve();
+        await stream(maskId, `/Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceGray /BitsPerComponent 8`, img.alpha);
+        smask = ` /SMask ${maskId} 0 R`;
+      }
+      await stream(id, `/Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8${smask}`, img.rgb);
+      imageRefs.push(`/${name} ${id} 0 R`);
+    }
+
+    const pageIds: number[] = [];
+    for (const page of pages) {
+      const pageId = reserve();
+      const contentId = reserve();
+      await stream(contentId, '', latin1(page.content));
+      set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${pdfNum(page.width)} ${pdfNum(page.height)}] /Resources ${resourcesId} 0 R /Contents ${contentId} 0 R >>`);
+      pageIds.push(pageId);
+    }
+
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    set(resourcesId, [
+      '<< /ProcSet [/PDF /Text /ImageB /ImageC]',
+      fontRefs.length ? ` /Font << ${fontRefs.join(' ')} >>` : '',
+      stateRefs.length ? ` /ExtGState << ${stateRefs.join(' ')} >>` : '',
+      imageRefs.length ? ` /XObject << ${imageRefs.join(' ')} >>` : '',
+      ' >>',
+    ].join(''));
+    set(infoId, `<< /Title ${pdfString(title)} /Producer (QRP) >>`);
+
+    // Serialise, recording each object's byte offset for the xref table.
+    const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((parts, i) => {
+      offsets.push(offset);
+      const bytes = [latin1(`${i + 1} 0 obj\n`), ...parts.map(p => (typeof p === 'string' ? latin1(p) : p)), latin1('\nendobj\n')];
+      bytes.forEach(b => {
+        chunks.push(b);
+        offset += b.length;
+      });
+    });
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(latin1(`${xref}\n`));
+    return new Blob(chunks, { type: 'application/pdf' });
+  };
+
+  return { font, graphicsState, image, addPage, finish, pageCount: () => pages.length };
+};
+
+export type PdfWriter = ReturnType<typeof createPdfWriter>;
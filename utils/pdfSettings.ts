@@ -0,0 +1,165 @@
+// Printable deck (PDF) settings and page layout: paper size, cards per page,
+// bleed and crop marks. Remembered between exports. Sizes are in millimetres
+// here and converted to PDF points (1/72 in) for the writer.
+
+import { pdfNum } from './pdf';
+
+export type PdfPageSize = 'a4' | 'letter' | 'card';
+
+export interface PdfExportSettings {
+  page: PdfPageSize;
+  landscape: boolean;    // A4 / Letter only
+  perPage: number;       // N-up on A4 / Letter
+  cardWidthMm: number;   // 'card' pages: the trimmed card
+  cardHeightMm: number;
+  bleedMm: number;       // background carried past the trim line
+  cropMarks: boolean;
+  theme: 'light' | 'dark';
+}
+
+export const PT_PER_MM = 72 / 25.4;
+
+// The card artwork is 400×700 (4:7).
+export const CARD_ASPECT = 4 / 7;
+
+export const DEFAULT_PDF_SETTINGS: PdfExportSettings = {
+  page: 'a4',
+  landscape: false,
+  perPage: 4,
+  cardWidthMm: 64,
+  cardHeightMm: 112,
+  bleedMm: 3,
+  cropMarks: true,
+  theme: 'light',
+};
+
+export const PAGE_SIZES: Record<PdfPageSize, { label: string; widthMm?: number; heightMm?: number }> = {
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  letter: { label: 'Letter', widthMm: 215.9, heightMm: 279.4 },
+  card: { label: 'Card size' },
+};
+
+export const PER_PAGE_OPTIONS = [1, 2, 4, 6, 8, 9];
+
+export const CARD_SIZE_PRESETS: { label: string; widthMm: number; heightMm: number }[] = [
+  { label: 'Card art 4:7 (64 × 112 mm)', widthMm: 64, heightMm: 112 },
+  { label: 'Tarot (70 × 120 mm)', widthMm: 70, heightMm: 120 },
+  { label: 'Poker (63.5 × 88.9 mm)', widthMm: 63.5, heightMm: 88.9 },
+  { label: 'A6 (105 × 148 mm)', widthMm: 105, heightMm: 148 },
+];
+
+export const MIN_CARD_MM = 30;
+export const MAX_CARD_MM = 300;
+export const MAX_BLEED_MM = 10;
+
+const MARGIN_MM = 12;    // A4 / Letter: room for the crop marks
+const MARK_OFFSET_MM = 2; // gap between the bleed edge and a crop mark
+const MARK_LENGTH_MM = 5;
+
+const clampCardMm = (mm: number) => Math.min(MAX_CARD_MM, Math.max(MIN_CARD_MM, mm));
+
+export const normalizePdfSettings = (value: unknown): PdfExportSettings => {
+  const v = { ...DEFAULT_PDF_SETTINGS, ...(value && typeof value === 'object' ? value : {}) } as PdfExportSettings;
+  const num = (n: unknown, fallback: number) => (typeof n === 'number' && isFinite(n) ? n : fallback);
+  return {
+    page: (Object.keys(PAGE_SIZES) as PdfPageSize[]).includes(v.page) ? v.page : DEFAULT_PDF_SETTINGS.page,
+    landscape: v.landscape === true,
+    perPage: PER_PAGE_OPTIONS.includes(v.perPage) ? v.perPage : DEFAULT_PDF_SETTINGS.perPage,
+    cardWidthMm: clampCardMm(num(v.cardWidthMm, DEFAULT_PDF_SETTINGS.cardWidthMm)),
+    cardHeightMm: clampCardMm(num(v.cardHeightMm, DEFAULT_PDF_SETTINGS.cardHeightMm)),
+    bleedMm: Math.min(MAX_BLEED_MM, Math.max(0, num(v.bleedMm, DEFAULT_PDF_SETTINGS.bleedMm))),
+    cropMarks: v.cropMarks !== false,
+    theme: v.theme === 'dark' ? 'dark' : 'light',
+  };
+};
+
+// A card's trim box on the page, in points from the bottom-left corner.
+export interface PdfRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface PdfPageLayout {
+  width: number;  // points
+  height: number;
+  slots: PdfRect[]; // reading order: left to right, top to bottom
+  bleed: number;  // points
+}
+
+// Grid shapes for n cards, e.g. 6 → 1×6, 2×3, 3×2, 6×1.
+const gridsFor = (n: number) =>
+  Array.from({ length: n }, (_, i) => i + 1)
+    .filter(cols => n % cols === 0)
+    .map(cols => ({ cols, rows: n / cols }));
+
+export const pdfPageLayout = (s: PdfExportSettings): PdfPageLayout => {
+  const bleed = s.bleedMm * PT_PER_MM;
+  const slug = s.cropMarks ? (MARK_OFFSET_MM + MARK_LENGTH_MM) * PT_PER_MM : 0;
+
+  if (s.page === 'card') {
+    const w = s.cardWidthMm * PT_PER_MM;
+    const h = s.cardHeightMm * PT_PER_MM;
+    const edge = bleed + slug;
+    return { width: w + 2 * edge, height: h + 2 * edge, slots: [{ x: edge, y: edge, w, h }], bleed };
+  }
+
+  const size = PAGE_SIZES[s.page];
+  const shortSide = Math.min(size.widthMm!, size.heightMm!) * PT_PER_MM;
+  const longSide = Math.max(size.widthMm!, size.heightMm!) * PT_PER_MM;
+  const width = s.landscape ? longSide : shortSide;
+  const height = s.landscape ? shortSide : longSide;
+  const margin = MARGIN_MM * PT_PER_MM;
+  const availW = width - 2 * margin;
+  const availH = height - 2 * margin;
+
+  // Cards sit a double bleed apart so neighbouring bleeds meet on one cut;
+  // pick the grid that gives the largest card.
+  let best = { cols: 1, rows: 1, w: 0, h: 0 };
+  for (const { cols, rows } of gridsFor(s.perPage)) {
+    const cellW = (availW - 2 * bleed * cols) / cols;
+    const cellH = (availH - 2 * bleed * rows) / rows;
+    const w = Math.min(cellW, cellH * CARD_ASPECT);
+    if (w > best.w) best = { cols, rows, w, h: w / CARD_ASPECT };
+  }
+  const { cols, rows, w, h } = best;
+  const pitchX = w + 2 * bleed;
+  const pitchY = h + 2 * bleed;
+  const left = (width - cols * pitchX) / 2 + bleed;
+  const top = height - (height - rows * pitchY) / 2 - bleed;
+  const slots: PdfRect[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      slots.push({ x: left + c * pitchX, y: top - h - r * pitchY, w, h });
+    }
+  }
+  return { width, height, slots, bleed };
+};
+
+// Crop marks for the slots on a page: a short line outside the bleed on
+// every trim line, at the outer edges of the layout so no mark crosses a card.
+export const cropMarksPdf = (layout: PdfPageLayout) => {
+  const { slots, bleed } = layout;
+  if (slots.length === 0) return '';
+  const offset = bleed + MARK_OFFSET_MM * PT_PER_MM;
+  const length = MARK_LENGTH_MM * PT_PER_MM;
+  const minX = Math.min(...slots.map(r => r.x));
+  const maxX = Math.max(...slots.map(r => r.x + r.w));
+  const minY = Math.min(...slots.map(r => r.y));
+  const maxY = Math.max(...slots.map(r => r.y + r.h));
+  const xs = [...new Set(slots.flatMap(r => [r.x, r.x + r.w]).map(v => v.toFixed(3)))].map(Number);
+  const ys = [...new Set(slots.flatMap(r => [r.y, r.y + r.h]).map(v => v.toFixed(3)))].map(Number);
+  const f = pdfNum;
+  const lines: string[] = [];
+  xs.forEach(x => {
+    lines.push(`${f(x)} ${f(maxY + offset)} m ${f(x)} ${f(maxY + offset + length)} l`);
+    lines.push(`${f(x)} ${f(minY - offset)} m ${f(x)} ${f(minY - offset - length)} l`);
+  });
+  ys.forEach(y => {
+    lines.push(`${f(minX - offset)} ${f(y)} m ${f(minX - offset - length)} ${f(y)} l`);
+    lines.push(`${f(maxX + offset)} ${f(y)} m ${f(maxX + offset + length)} ${f(y)} l`);
+  });
+  // Black hairlines.
+  return ['q', '0.25 w 0 J 0 0 0 RG', ...lines, 'S', 'Q'].join('\n');
+};
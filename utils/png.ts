@@ -8,7 +8,7 @@ for (let i = 0; i < 256; i++) {
   crcTable[i] = c;
 }
 
-const crc32 = (buf: Uint8Array): number => {
+export const crc32 = (buf: Uint8Array): number => {
   let crc = 0xFFFFFFFF;
   for (let i = 0; i < buf.length; i++) {
     crc = (crc >>> 8) ^ crcTable[(crc ^ buf[i]) & 0xFF];
@@ -24,88 +24,204 @@ const stringToUint8 = (str: string): Uint8Array => {
   return arr;
 };
 
-// Writes a tEXt chunk to the PNG
-export const writePngMetadata = (pngBuffer: ArrayBuffer, key: string, value: string): Blob => {
-  const uint8 = new Uint8Array(pngBuffer);
-  
-  // 1. Prepare Chunk Data: Keyword + Null Separator + Text
-  const keyArr = stringToUint8(key);
-  const valArr = stringToUint8(value);
-  const chunkData = new Uint8Array(keyArr.length + 1 + valArr.length);
-  chunkData.set(keyArr, 0);
-  chunkData[keyArr.length] = 0; // Null separator
-  chunkData.set(valArr, keyArr.length + 1);
-
-  // 2. Prepare Full Chunk: Length (4) + Type (4) + Data + CRC (4)
-  const chunkLen = chunkData.length;
-  const fullChunkLen = 4 + 4 + chunkLen + 4;
-  const fullChunk = new Uint8Array(fullChunkLen);
-
-  const view = new DataView(fullChunk.buffer);
-  
-  // Length
-  view.setUint32(0, chunkLen, false); // Big Endian
-  
-  // Type (tEXt)
-  fullChunk.set(stringToUint8('tEXt'), 4);
-  
-  // Data
-  fullChunk.set(chunkData, 8);
-  
-  // CRC (Calculated on Type + Data)
-  const crcInput = fullChunk.subarray(4, 8 + chunkLen);
-  const crcVal = crc32(crcInput);
-  view.setUint32(8 + chunkLen, crcVal, false);
-
-  // 3. Insert into PNG (After IHDR - usually byte 33)
-  // IHDR is 13 bytes data + 12 bytes overhead = 25 bytes. 
-  // Signature is 8 bytes.
-  // Standard IHDR end is usually index 33 (8 + 25).
-  const insertPos = 33; 
-
-  const newPng = new Uint8Array(uint8.length + fullChunkLen);
-  newPng.set(uint8.subarray(0, insertPos), 0);
-  newPng.set(fullChunk, insertPos);
-  newPng.set(uint8.subarray(insertPos), insertPos + fullChunkLen);
-
-  return new Blob([newPng], { type: 'image/png' });
+// Serialises one chunk: Length (4) + Type (4) + Data + CRC (4, over Type + Data)
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(4 + 4 + data.length + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length, false); // Big Endian
+  chunk.set(stringToUint8(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)), false);
+  return chunk;
 };
 
-export const readPngMetadata = (pngBuffer: ArrayBuffer, key: string): string | null => {
-  const data = new Uint8Array(pngBuffer);
-  let offset = 8; // Skip PNG Signature
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
 
-  const decoder = new TextDecoder();
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  parts.forEach(p => {
+    out.set(p, at);
+    at += p.length;
+  });
+  return out;
+};
 
-  while (offset < data.length) {
-    const view = new DataView(data.buffer);
+// Chunks of a PNG file, in order, as (type, data) views into `png`. `crc` is
+// the stored checksum and `tagged` the type + data bytes it covers.
+const readPngChunks = (png: Uint8Array) => {
+  const chunks: { type: string; data: Uint8Array; crc: number; tagged: Uint8Array; end: number }[] = [];
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let offset = 8; // Skip PNG Signature
+  while (offset + 12 <= png.length) {
     const length = view.getUint32(offset, false);
-    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
-    
-    if (type === 'tEXt') {
-        const chunkContent = data.subarray(offset + 8, offset + 8 + length);
-        // Split by null separator
-        let nullIndex = -1;
-        for(let i=0; i<chunkContent.length; i++) {
-            if(chunkContent[i] === 0) {
-                nullIndex = i;
-                break;
-            }
-        }
-
-        if (nullIndex !== -1) {
-            const chunkKey = String.fromCharCode(...chunkContent.subarray(0, nullIndex));
-            if (chunkKey === key) {
-                return String.fromCharCode(...chunkContent.subarray(nullIndex + 1));
-            }
-        }
-    }
-
-    // Move to next chunk: Length + Type(4) + Data(length) + CRC(4)
+    if (offset + 12 + length > png.length) break; // truncated file
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crc: view.getUint32(offset + 8 + length, false),
+      tagged: png.subarray(offset + 4, offset + 8 + length),
+      end: offset + 12 + length,
+    });
     offset += 12 + length;
-    
     if (type === 'IEND') break;
   }
+  return chunks;
+};
+
+// Ancillary chunks go straight after IHDR, wherever it ends (not a fixed
+// byte 33), so they precede the image data as readers expect.
+const insertAfterHeader = (pngBuffer: ArrayBuffer, inserted: Uint8Array[]): Blob => {
+  const png = new Uint8Array(pngBuffer);
+  const ihdr = readPngChunks(png)[0];
+  if (!PNG_SIGNATURE.every((b, i) => png[i] === b) || ihdr?.type !== 'IHDR') throw new Error('Not a PNG file');
+  return new Blob([png.subarray(0, ihdr.end), ...inserted, png.subarray(ihdr.end)], { type: 'image/png' });
+};
+
+const textChunk = (key: string, value: string) =>
+  pngChunk('tEXt', concat(stringToUint8(key), new Uint8Array([0]), stringToUint8(value)));
 
-  return null;
-};
\ No newline at end of file
+// Writes a tEXt chunk to the PNG
+export const writePngMetadata = (pngBuffer: ArrayBuffer, key: string, value: string): Blob =>
+  insertAfterHeader(pngBuffer, [textChunk(key, value)]);
+
+// zlib streams, as zTXt / iTXt store them (compression method 0).
+const zlib = async (data: Uint8Array, direction: 'deflate' | 'inflate') => {
+  const transform = direction === 'deflate' ? new CompressionStream('deflate') : new DecompressionStream('deflate');
+  return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer());
+};
+
+// Latin-1 decoding without spreading large arrays onto the call stack.
+const latin1String = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+};
+
+// Keyword of the optional whole-deck chunk (the Save Config JSON plus the
+// saved card's id), stored beside the single-card "QRPConfig".
+export const PNG_DECK_KEY = 'QRPDeck';
+
+export interface PngTextEntry {
+  key: string;
+  value: string;
+  compress?: boolean; // zTXt / compressed iTXt, when the browser can deflate
+}
+
+// Writes text chunks of the right kind: tEXt for short Latin-1 values,
+// zTXt when compressed, iTXt (UTF-8) for anything outside Latin-1.
+export const writePngText = async (pngBuffer: ArrayBuffer, entries: PngTextEntry[]): Promise<Blob> => {
+  const canCompress = typeof CompressionStream !== 'undefined';
+  const chunks: Uint8Array[] = [];
+  for (const { key, value, compress = false } of entries) {
+    const deflate = compress && canCompress;
+    const keyword = stringToUint8(key);
+    if (/^[\x00-\xff]*$/.test(value)) {
+      chunks.push(deflate
+        ? pngChunk('zTXt', concat(keyword, new Uint8Array([0, 0]), await zlib(stringToUint8(value), 'deflate')))
+        : textChunk(key, value));
+    } else {
+      // keyword \0, compression flag, method, language \0, translated keyword \0, text
+      const text = new TextEncoder().encode(value);
+      chunks.push(pngChunk('iTXt', concat(
+        keyword, new Uint8Array([0, deflate ? 1 : 0, 0, 0, 0]),
+        deflate ? await zlib(text, 'deflate') : text
+      )));
+    }
+  }
+  return insertAfterHeader(pngBuffer, chunks);
+};
+
+// Every text chunk (tEXt, zTXt, iTXt) by keyword. Chunks whose CRC doesn't
+// match are skipped, so a damaged file reads as "no metadata" rather than
+// as garbage.
+export const readPngText = async (pngBuffer: ArrayBuffer): Promise<Map<string, string>> => {
+  const texts = new Map<string, string>();
+  for (const chunk of readPngChunks(new Uint8Array(pngBuffer))) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'zTXt' && chunk.type !== 'iTXt') continue;
+    if (crc32(chunk.tagged) !== chunk.crc) {
+      console.warn(`Skipping ${chunk.type} chunk with a bad CRC`);
+      continue;
+    }
+    const { data } = chunk;
+    const nul = data.indexOf(0);
+    if (nul <= 0) continue;
+    const key = latin1String(data.subarray(0, nul));
+    try {
+      if (chunk.type === 'tEXt') {
+        texts.set(key, latin1String(data.subarray(nul + 1)));
+      } else if (chunk.type === 'zTXt') {
+        texts.set(key, latin1String(await zlib(data.subarray(nul + 2), 'inflate')));
+      } else {
+        const compressed = data[nul + 1] === 1;
+        const langEnd = data.indexOf(0, nul + 3);
+        const translatedEnd = langEnd < 0 ? -1 : data.indexOf(0, langEnd + 1);
+        if (translatedEnd < 0) continue;
+        const body = data.subarray(translatedEnd + 1);
+        texts.set(key, new TextDecoder().decode(compressed ? await zlib(body, 'inflate') : body));
+      }
+    } catch (e) {
+      console.warn(`Could not read ${chunk.type} chunk "${key}"`, e);
+    }
+  }
+  return texts;
+};
+
+export const readPngMetadata = async (pngBuffer: ArrayBuffer, key: string): Promise<string | null> =>
+  (await readPngText(pngBuffer)).get(key) ?? null;
+
+// Animated PNG built from complete PNG frames (e.g. canvas.toBlob output):
+// the first frame's IDAT is the default image, later frames become fdAT
+// chunks, each behind an fcTL with its delay. Loops forever.
+export const createApngWriter = () => {
+  let header: Uint8Array | null = null; // IHDR data of the first frame
+  const frames: Uint8Array[] = [];
+  let frameCount = 0;
+  let sequence = 0; // shared by fcTL and fdAT chunks
+
+  const addFrame = (png: Uint8Array, delayMs: number) => {
+    const chunks = readPngChunks(png);
+    const ihdr = chunks.find(c => c.type === 'IHDR');
+    if (!ihdr) throw new Error('Frame is not a PNG');
+    if (!header) header = ihdr.data.slice();
+    const headerView = new DataView(header.buffer);
+
+    const fctl = new Uint8Array(26);
+    const fv = new DataView(fctl.buffer);
+    fv.setUint32(0, sequence++, false);
+    fv.setUint32(4, headerView.getUint32(0, false), false); // width
+    fv.setUint32(8, headerView.getUint32(4, false), false); // height
+    // x/y offsets stay 0; delay as delayMs / 1000 s; dispose/blend ops 0 (none / source)
+    fv.setUint16(20, Math.min(0xffff, Math.max(1, Math.round(delayMs))), false);
+    fv.setUint16(22, 1000, false);
+    frames.push(pngChunk('fcTL', fctl));
+
+    for (const { type, data } of chunks) {
+      if (type !== 'IDAT') continue;
+      if (frameCount === 0) {
+        frames.push(pngChunk('IDAT', data));
+      } else {
+        const fdat = new Uint8Array(4 + data.length);
+        new DataView(fdat.buffer).setUint32(0, sequence++, false);
+        fdat.set(data, 4);
+        frames.push(pngChunk('fdAT', fdat));
+      }
+    }
+    frameCount++;
+  };
+
+  const finish = (): Blob => {
+    if (!header) throw new Error('No frames to write');
+    const actl = new Uint8Array(8);
+    new DataView(actl.buffer).setUint32(0, frameCount, false); // num_plays (4..8) = 0: loop forever
+    return new Blob(
+      [PNG_SIGNATURE, pngChunk('IHDR', header), pngChunk('acTL', actl), ...frames, pngChunk('IEND', new Uint8Array(0))],
+      { type: 'image/apng' }
+    );
+  };
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,62 @@
+// Presenter mode: the main window drives the deck and a second window (on
+// the projector) mirrors the current card full screen. The two talk over a
+// BroadcastChannel; the audience window keeps no deck of its own and never
+// touches storage, it only draws what the presenter last sent. Each presenter
+// session has its own channel, named in the audience window's URL, so two
+// tabs presenting at once each drive (and close) only their own projector.
+
+import { Sequence, Transition } from '../types';
+
+export const PRESENTER_CHANNEL = 'qrp-presenter';
+
+// `?audience=<session>` marks the second window (see index.tsx).
+export const AUDIENCE_PARAM = 'audience';
+
+export const isAudienceWindow = () =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).has(AUDIENCE_PARAM);
+
+// The presenter session this audience window belongs to ('' when opened by hand).
+export const audienceSession = () => new URLSearchParams(window.location.search).get(AUDIENCE_PARAM) ?? '';
+
+export const newPresenterSession = () => Math.random().toString(36).slice(2, 10);
+
+export const presenterChannel = (session: string) => `${PRESENTER_CHANNEL}:${session}`;
+
+export const audienceUrl = (session: string) =>
+  `${window.location.origin}${window.location.pathname}?${AUDIENCE_PARAM}=${encodeURIComponent(session)}`;
+
+// Everything the audience window needs to draw the current card.
+export interface AudienceState {
+  sequences: Sequence[];
+  activeIndex: number;
+  isPlaying: boolean;
+  timingMs: number;
+  transition: Transition;
+  isDarkMode: boolean;
+}
+
+// The deck and how to draw it: sent to each new audience window and when it
+// changes. Playback only moves the position, so the cards (with their image
+// data URLs) are not copied across on every tick.
+export type AudienceDeck = Omit<AudienceState, 'activeIndex' | 'isPlaying'>;
+export type AudiencePosition = Pick<AudienceState, 'activeIndex' | 'isPlaying'>;
+
+export type PresenterMessage =
+  | { type: 'deck'; deck: AudienceDeck }
+  | { type: 'position'; position: AudiencePosition }
+  | { type: 'end' };                 // presenter mode closed: the audience window closes too
+
+export type AudienceMessage =
+  | { type: 'hello' }                // just opened (or reloaded): send the state
+  | { type: 'bye' };                 // closed
+
+export const isPresenterSupported = () => typeof BroadcastChannel !== 'undefined';
+
+// "4:05", "1:02:09".
+export const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,32 @@
+// Share link URLs. The config (`c`) and theme (`t`) can travel in the query
+// string (?c=…, the original format) or in the fragment (#c=…), which the
+// browser never sends to the server, so decks stay out of its logs. Readers
+// accept both; the fragment wins when a link somehow has both.
+
+export const readShareParams = (location: { search: string; hash: string } = window.location): URLSearchParams => {
+  const params = new URLSearchParams(location.search);
+  new URLSearchParams(location.hash.replace(/^#/, '')).forEach((value, key) => params.set(key, value));
+  return params;
+};
+
+export const isSharedLink = () => typeof window !== 'undefined' && readShareParams().has('c');
+
+// `encoded` is compressConfig / compressConfigV5 output. v4 strings are
+// standard base64, so the value is escaped ('+' would otherwise read back as
+// a space).
+export const buildShareUrl = (encoded: string, theme: 'light' | 'dark', inFragment = true) => {
+  const query = `c=${encodeURIComponent(encoded)}&t=${theme}`;
+  return `${window.location.origin}${window.location.pathname}${inFragment ? '#' : '?'}${query}`;
+};
+
+// Where long links start to break: the old IE / many chat-app and QR
+// scanner limits, then the point where some servers and link shorteners
+// reject the request line.
+export const SHARE_LINK_LIMITS = [
+  { length: 2000, where: 'some chat apps and older browsers' },
+  { length: 8000, where: 'most link shorteners and web servers' },
+];
+
+// The highest limit a link of `length` characters exceeds, if any.
+export const shareLinkLimit = (length: number) =>
+  [...SHARE_LINK_LIMITS].reverse().find(limit => length > limit.length) ?? null;
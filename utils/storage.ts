@@ -1,19 +1,23 @@
 // Safe localStorage helpers for persisting settings/parameters across sessions.
+// Decks themselves live in IndexedDB (see db.ts); only small settings and the
+// pre-IndexedDB deck keys (read once for migration) go through here.
 //
 // Everything is wrapped in try/catch: localStorage can throw when disabled
 // (private browsing, blocked cookies) or when the quota is exceeded (image
 // cards store data URLs, which are large). Persistence failing must never
 // break the app — it just falls back to in-memory defaults.
 
+import { readShareParams } from './shareLink';
+
 const PREFIX = 'qrp:';
 
-// Shared links (?c=...) open the app in view-only mode. While viewing someone
+// Shared links (?c=... or #c=...) open the app in view-only mode. While viewing someone
 // else's pattern we must NOT read the user's saved deck (it would override the
 // shared one) nor write the shared deck back (it would clobber the user's work).
 export const isPersistenceEnabled = (): boolean => {
   if (typeof window === 'undefined') return false;
   try {
-    return !new URLSearchParams(window.location.search).has('c');
+    return !readShareParams().has('c');
   } catch {
     return false;
   }
@@ -40,10 +44,71 @@ export const saveStored = (key: string, value: unknown): void => {
   }
 };
 
+export const removeStored = (key: string): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.removeItem(PREFIX + key);
+  } catch {
+    // Storage disabled — nothing to remove.
+  }
+};
+
 // Storage keys (centralised so the hooks agree on names).
 export const STORAGE_KEYS = {
-  sequences: 'sequences',
-  activeIndex: 'activeIndex',
-  timingMs: 'timingMs',
+  sequences: 'sequences', // legacy: migrated into IndexedDB on first load
+  schemaVersion: 'schemaVersion', // deck schema of `sequences` (only without IndexedDB)
+  activeIndex: 'activeIndex', // per deck: "activeIndex:<deckId>" (bare key = default deck)
+  activeDeck: 'activeDeck',
+  timingMs: 'timingMs',   // legacy: timing now lives on the stored deck
+  transition: 'transition', // only without IndexedDB; decks store their own
+  sound: 'sound',           // only without IndexedDB; decks store their own
+  revision: 'revision',     // only without IndexedDB: bumped by every deck save (see tabSync.ts)
   theme: 'theme',
+  videoExport: 'videoExport', // last-used video export settings
+  pdfExport: 'pdfExport',     // last-used PDF export settings
+  contactSheet: 'contactSheet', // last-used contact sheet settings
+  pngEmbedDeck: 'pngEmbedDeck', // Save Card: also store the whole deck in the PNG
 } as const;
+
+// --- Storage usage ---
+// The origin's quota is shared by localStorage and IndexedDB. Browsers evict
+// "best-effort" data under disk pressure, so we also ask for persistence.
+
+export interface StorageUsage {
+  usage: number; // bytes used by this origin
+  quota: number; // bytes available to this origin
+}
+
+// Warn once the origin has used this share of its quota.
+export const STORAGE_WARN_RATIO = 0.8;
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+  } catch {
+    return false;
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,241 @@
+// Standalone SVG card export. The rendered exportMode card is cloned and made
+// self-contained so it opens anywhere: the app's CSS classes are replaced by
+// their computed styles, linked images become data URIs, the card font is
+// embedded as @font-face data, and the compressed config rides along in
+// <metadata> — the SVG counterpart of the PNG "QRPConfig" chunk.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// What the card's utility classes (opacity-50, fill-current, tracking-widest…)
+// actually set; copied inline before the classes are dropped.
+const INLINED_PROPERTIES = ['fill', 'fill-opacity', 'stroke', 'stroke-opacity', 'opacity', 'letter-spacing', 'mix-blend-mode'];
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchDataUrl = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not fetch ${url}`);
+  return blobToDataUrl(await res.blob());
+};
+
+// --- Fonts ---
+
+interface FontFaceRule {
+  family: string;
+  descriptors: Record<string, string>;
+  base: string; // resolves relative src URLs
+}
+
+const unquote = (s: string) => s.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+const parseFontFaces = (css: string, base: string): FontFaceRule[] => {
+  const faces: FontFaceRule[] = [];
+  for (const [, body] of css.matchAll(/@font-face\s*{([^}]*)}/g)) {
+    const descriptors: Record<string, string> = {};
+    for (const [, name, value] of body.matchAll(/([\w-]+)\s*:\s*([^;]+)/g)) {
+      descriptors[name.toLowerCase()] = value.trim();
+    }
+    if (descriptors['font-family']) faces.push({ family: unquote(descriptors['font-family']), descriptors, base });
+  }
+  return faces;
+};
+
+// Every @font-face the page can see. Cross-origin sheets (the Google Fonts
+// import) refuse cssRules, so their text is fetched instead.
+const collectFontFaces = async (): Promise<FontFaceRule[]> => {
+  const faces: FontFaceRule[] = [];
+  const visit = async (sheet: CSSStyleSheet) => {
+    const base = sheet.href ?? document.baseURI;
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      if (!sheet.href) return;
+      try {
+        faces.push(...parseFontFaces(await (await fetch(sheet.href)).text(), base));
+      } catch {
+        // Offline: the card falls back to the viewer's fonts.
+      }
+      return;
+    }
+    for (const rule of Array.from(rules)) {
+      if (rule instanceof CSSImportRule && rule.styleSheet) await visit(rule.styleSheet);
+      else if (rule instanceof CSSFontFaceRule) faces.push(...parseFontFaces(rule.cssText, base));
+    }
+  };
+  for (const sheet of Array.from(document.styleSheets)) await visit(sheet);
+  return faces;
+};
+
+// unicode-range: "U+0000-00FF, U+0131, U+02??"
+const inUnicodeRange = (range: string | undefined, codePoints: number[]) => {
+  if (!range) return true;
+  return range.split(',').some(part => {
+    const m = part.trim().match(/^U\+([0-9a-f?]+)(?:-([0-9a-f]+))?$/i);
+    if (!m) return false;
+    const lo = parseInt(m[1].replace(/\?/g, '0'), 16);
+    const hi = m[2] ? parseInt(m[2], 16) : parseInt(m[1].replace(/\?/g, 'f'), 16);
+    return codePoints.some(cp => cp >= lo && cp <= hi);
+  });
+};
+
+// font-weight: "400" or a variable range "100 900"
+const coversWeight = (descriptor: string | undefined, weight: number) => {
+  const [lo, hi = lo] = (descriptor ?? '400').split(/\s+/).map(w => (w === 'bold' ? 700 : w === 'normal' ? 400 : Number(w)));
+  return weight >= lo && weight <= hi;
+};
+
+// @font-face rules for `family`, limited to the weights and characters the
+// card uses, with each font file inlined.
+export const embeddedFontCss = async (family: string, text: string, weights: number[]) => {
+  const wanted = unquote(family.split(',')[0]).toLowerCase();
+  const codePoints = Array.from(new Set(Array.from(text, ch => ch.codePointAt(0)!)));
+  const faces = (await collectFontFaces()).filter(f =>
+    f.family.toLowerCase() === wanted &&
+    inUnicodeRange(f.descriptors['unicode-range'], codePoints) &&
+    weights.some(w => coversWeight(f.descriptors['font-weight'], w))
+  );
+
+  const rules: string[] = [];
+  for (const face of faces) {
+    const src = face.descriptors.src?.match(/url\(\s*(['"]?)([^'")]+)\1\s*\)(\s*format\(\s*['"]?([\w-]+)['"]?\s*\))?/);
+    if (!src) continue;
+    try {
+      const dataUrl = await fetchDataUrl(new URL(src[2], face.base).href);
+      const descriptors = Object.entries(face.descriptors)
+        .filter(([name]) => name !== 'src' && name !== 'font-family')
+        .map(([name, value]) => `${name}: ${value};`);
+      rules.push(`@font-face { font-family: "${face.family}"; src: url(${dataUrl})${src[4] ? ` format("${src[4]}")` : ''}; ${descriptors.join(' ')} }`);
+    } catch {
+      // Skip a face that can't be fetched rather than failing the export.
+    }
+  }
+  return rules.join('\n');
+};
+
+// --- Export ---
+
+export interface StandaloneSvgOptions {
+  config: string;     // compressConfig output, stored in <metadata>
+  background: string; // card colour behind the artwork
+  title?: string;
+}
+
+export const SVG_METADATA_ID = 'QRPConfig';
+
+// Clone of a rendered card with the app's classes resolved to inline styles
+// and images inlined as data URIs. `idPrefix` renames the clone's ids (and
+// the url(#…) / href="#…" references to them) so several cards can share one
+// document without their filters colliding.
+export const selfContainedClone = async (svg: SVGSVGElement, idPrefix = ''): Promise<SVGSVGElement> => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  // Inline computed styles wherever a class was doing the work. The clone
+  // mirrors the live tree, so walk both together.
+  const live = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const copy = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  live.forEach((el, i) => {
+    const target = copy[i];
+    if (!el.getAttribute('class')) return;
+    const computed = getComputedStyle(el);
+    INLINED_PROPERTIES.forEach(prop => {
+      const value = computed.getPropertyValue(prop);
+      if (value) (target as SVGElement).style.setProperty(prop, value);
+    });
+    target.removeAttribute('class');
+  });
+
+  // Images: data URIs in place of library / blob URLs.
+  for (const image of Array.from(clone.querySelectorAll('image'))) {
+    const href = image.getAttribute('href') ?? image.getAttributeNS(XLINK_NS, 'href');
+    if (!href) continue;
+    const dataUrl = href.startsWith('data:') ? href : await fetchDataUrl(new URL(href, document.baseURI).href);
+    image.setAttribute('href', dataUrl);
+    image.removeAttributeNS(XLINK_NS, 'href');
+  }
+
+  if (idPrefix) {
+    const ids = new Set(Array.from(clone.querySelectorAll('[id]'), el => el.id));
+    const rename = (value: string) =>
+      value.replace(/url\(\s*(['"]?)#([^'")]+)\1\s*\)/g, (m, _q, id) => (ids.has(id) ? `url(#${idPrefix}${id})` : m));
+    copy.forEach(el => {
+      Array.from(el.attributes).forEach(attr => {
+        if (attr.name === 'id' && ids.has(attr.value)) el.setAttribute('id', idPrefix + attr.value);
+        else if (/href$/.test(attr.name) && attr.value.startsWith('#') && ids.has(attr.value.slice(1))) attr.value = `#${idPrefix}${attr.value.slice(1)}`;
+        else if (attr.value.includes('url(')) attr.value = rename(attr.value);
+      });
+    });
+  }
+  return clone;
+};
+
+// A <style> element embedding the font faces used by `texts`.
+export const embeddedFontStyle = async (texts: Element[], extraText = '', extraWeights: number[] = []) => {
+  if (texts.length === 0) return null;
+  const family = getComputedStyle(texts[0]).fontFamily;
+  const weights = Array.from(new Set([...texts.map(t => Number(getComputedStyle(t).fontWeight) || 400), ...extraWeights]));
+  const css = await embeddedFontCss(family, texts.map(t => t.textContent ?? '').join('') + extraText, weights);
+  if (!css) return null;
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = css;
+  return style;
+};
+
+// Stores `config` the way readSvgMetadata expects it.
+export const appendSvgMetadata = (root: SVGSVGElement, config: string) => {
+  const metadata = document.createElementNS(SVG_NS, 'metadata');
+  metadata.setAttribute('id', SVG_METADATA_ID);
+  metadata.textContent = config;
+  root.insertBefore(metadata, root.firstChild);
+};
+
+export const serializeSvg = (root: SVGSVGElement) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(root)}`;
+
+export const standaloneSvg = async (svg: SVGSVGElement, { config, background, title }: StandaloneSvgOptions): Promise<string> => {
+  const clone = await selfContainedClone(svg);
+
+  // Fonts: the faces the card's text actually uses.
+  const fontStyle = await embeddedFontStyle(Array.from(svg.querySelectorAll('text')));
+  if (fontStyle) {
+    let defs = clone.querySelector('defs');
+    if (!defs) defs = clone.insertBefore(document.createElementNS(SVG_NS, 'defs'), clone.firstChild);
+    defs.appendChild(fontStyle);
+  }
+
+  // Card background, matching the PNG export.
+  const [x, y, w, h] = (clone.getAttribute('viewBox') ?? '0 -150 400 700').split(/[\s,]+/);
+  const bg = document.createElementNS(SVG_NS, 'rect');
+  Object.entries({ x, y, width: w, height: h, fill: background }).forEach(([k, v]) => bg.setAttribute(k, v));
+  const firstDrawn = Array.from(clone.children).find(c => c.tagName !== 'defs') ?? null;
+  clone.insertBefore(bg, firstDrawn);
+
+  appendSvgMetadata(clone, config);
+  if (title) {
+    const titleEl = document.createElementNS(SVG_NS, 'title');
+    titleEl.textContent = title;
+    clone.insertBefore(titleEl, clone.firstChild);
+  }
+
+  // Real dimensions instead of 100%, so viewers open it at card size.
+  clone.setAttribute('width', w);
+  clone.setAttribute('height', h);
+  clone.removeAttribute('role');
+
+  return serializeSvg(clone);
+};
+
+// The config stored by standaloneSvg, or null when the file has none.
+export const readSvgMetadata = (source: string): string | null => {
+  const doc = new DOMParser().parseFromString(source, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) return null;
+  const text = doc.querySelector(`metadata[id="${SVG_METADATA_ID}"]`)?.textContent?.trim();
+  return text || null;
+};
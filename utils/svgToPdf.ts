@@ -0,0 +1,507 @@
+// Converts a rendered card <svg> (QRPGenerator in exportMode) into PDF
+// drawing operators, so printed cards stay vector at any size. It walks the
+// live DOM rather than the markup: computed styles resolve currentColor,
+// class-based opacity and inherited fills, and the element tree already
+// holds the final transforms. Covers what the cards use: paths, basic
+// shapes, text in the standard fonts, images (with the export's
+// feColorMatrix filters and blend modes) and clip paths.
+
+import { PdfBlendMode, PdfFont, PdfImage, PdfWriter, pdfNum, pdfString } from './pdf';
+
+type Point = [number, number];
+
+// --- Path data ---
+
+const PATH_TOKEN = /([MmLlHhVvCcSsQqTtAaZz])|(-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+
+// Cubic segments approximating an SVG elliptical arc (endpoint form).
+const arcToCubics = (
+  x1: number, y1: number, rx: number, ry: number, angle: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): number[][] => {
+  if (rx === 0 || ry === 0) return [[x1, y1, x2, y2, x2, y2]];
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const vecAngle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = vecAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = vecAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const rot = ([x, y]: Point): Point => [cos * x - sin * y, sin * x + cos * y];
+  const point = (t: number): Point => {
+    const [x, y] = rot([Math.cos(t) * rx, Math.sin(t) * ry]);
+    return [cx + x, cy + y];
+  };
+  const out: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    const p1 = point(t1);
+    const p2 = point(t2);
+    // Control points lie along the tangent at each end, scaled by k.
+    const r1 = rot([-rx * Math.sin(t1), ry * Math.cos(t1)]);
+    const r2 = rot([-rx * Math.sin(t2), ry * Math.cos(t2)]);
+    out.push([p1[0] + k * r1[0], p1[1] + k * r1[1], p2[0] - k * r2[0], p2[1] - k * r2[1], p2[0], p2[1]]);
+  }
+  return out;
+};
+
+// SVG path data as PDF path construction operators (m, l, c, h).
+export const pathToPdf = (d: string): string => {
+  const tokens = d.match(PATH_TOKEN) ?? [];
+  const ops: string[] = [];
+  let i = 0;
+  let cmd = '';
+  let x = 0, y = 0;         // current point
+  let sx = 0, sy = 0;       // subpath start
+  let cx = 0, cy = 0;       // last cubic control (for S)
+  let qx = 0, qy = 0;       // last quadratic control (for T)
+  let prev = '';
+
+  const isCmd = (t: string | undefined) => t !== undefined && /^[A-Za-z]$/.test(t);
+  const n = () => parseFloat(tokens[i++]);
+  const flag = () => {
+    // Arc flags may be packed without separators ("a1 1 0 01 10 10").
+    const t = tokens[i];
+    if (t.length > 1 && (t[0] === '0' || t[0] === '1') && !t.startsWith('0.')) {
+      tokens[i] = t.slice(1);
+      return t[0] === '1';
+    }
+    i++;
+    return t === '1';
+  };
+  const curve = (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number) => {
+    ops.push(`${pdfNum(x1)} ${pdfNum(y1)} ${pdfNum(x2)} ${pdfNum(y2)} ${pdfNum(x3)} ${pdfNum(y3)} c`);
+    cx = x2; cy = y2;
+    x = x3; y = y3;
+  };
+  const line = (nx: number, ny: number) => {
+    ops.push(`${pdfNum(nx)} ${pdfNum(ny)} l`);
+    x = nx; y = ny;
+  };
+
+  while (i < tokens.length) {
+    if (isCmd(tokens[i])) cmd = tokens[i++];
+    else if (!cmd) break;
+    const rel = cmd === cmd.toLowerCase();
+    const ox = rel ? x : 0;
+    const oy = rel ? y : 0;
+    switch (cmd.toUpperCase()) {
+      case 'M': {
+        x = ox + n(); y = oy + n();
+        sx = x; sy = y;
+        ops.push(`${pdfNum(x)} ${pdfNum(y)} m`);
+        // Further pairs after a moveto are linetos.
+        cmd = rel ? 'l' : 'L';
+        break;
+      }
+      case 'L': line(ox + n(), oy + n()); break;
+      case 'H': line(ox + n(), y); break;
+      case 'V': line(x, oy + n()); break;
+      case 'C': {
+        const x1 = ox + n(), y1 = oy + n(), x2 = ox + n(), y2 = oy + n();
+        curve(x1, y1, x2, y2, ox + n(), oy + n());
+        break;
+      }
+      case 'S': {
+        const smooth = 'CcSs'.includes(prev);
+        const x1 = smooth ? 2 * x - cx : x, y1 = smooth ? 2 * y - cy : y;
+        const x2 = ox + n(), y2 = oy + n();
+        curve(x1, y1, x2, y2, ox + n(), oy + n());
+        break;
+      }
+      case 'Q': {
+        const x1 = ox + n(), y1 = oy + n(), x3 = ox + n(), y3 = oy + n();
+        qx = x1; qy = y1;
+        curve(x + (2 / 3) * (x1 - x), y + (2 / 3) * (y1 - y), x3 + (2 / 3) * (x1 - x3), y3 + (2 / 3) * (y1 - y3), x3, y3);
+        break;
+      }
+      case 'T': {
+        const smooth = 'QqTt'.includes(prev);
+        const x1 = smooth ? 2 * x - qx : x, y1 = smooth ? 2 * y - qy : y;
+        const x3 = ox + n(), y3 = oy + n();
+        qx = x1; qy = y1;
+        curve(x + (2 / 3) * (x1 - x), y + (2 / 3) * (y1 - y), x3 + (2 / 3) * (x1 - x3), y3 + (2 / 3) * (y1 - y3), x3, y3);
+        break;
+      }
+      case 'A': {
+        const rx = n(), ry = n(), angle = n();
+        const large = flag(), sweep = flag();
+        const x2 = ox + n(), y2 = oy + n();
+        arcToCubics(x, y, rx, ry, angle, large, sweep, x2, y2).forEach(([a, b, c, e, f, g]) => curve(a, b, c, e, f, g));
+        break;
+      }
+      case 'Z': {
+        ops.push('h');
+        x = sx; y = sy;
+        break;
+      }
+      default:
+        return ops.join('\n');
+    }
+    prev = cmd;
+    if (cmd.toUpperCase() === 'Z' && i < tokens.length && !isCmd(tokens[i])) break;
+  }
+  return ops.join('\n');
+};
+
+const KAPPA = 0.5522847498;
+
+const ellipseToPdf = (cx: number, cy: number, rx: number, ry: number) => {
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  const p = (...v: number[]) => v.map(pdfNum).join(' ');
+  return [
+    `${p(cx + rx, cy)} m`,
+    `${p(cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry)} c`,
+    `${p(cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy)} c`,
+    `${p(cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry)} c`,
+    `${p(cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy)} c`,
+    'h',
+  ].join('\n');
+};
+
+const attr = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '0') || 0;
+
+// Path construction for one shape element, or null if it isn't a shape.
+const shapeToPdf = (el: Element): string | null => {
+  switch (el.tagName.toLowerCase()) {
+    case 'path':
+      return pathToPdf(el.getAttribute('d') ?? '');
+    case 'circle': {
+      const r = attr(el, 'r');
+      return r > 0 ? ellipseToPdf(attr(el, 'cx'), attr(el, 'cy'), r, r) : '';
+    }
+    case 'ellipse':
+      return ellipseToPdf(attr(el, 'cx'), attr(el, 'cy'), attr(el, 'rx'), attr(el, 'ry'));
+    case 'rect': {
+      const w = attr(el, 'width');
+      const h = attr(el, 'height');
+      return w > 0 && h > 0 ? `${pdfNum(attr(el, 'x'))} ${pdfNum(attr(el, 'y'))} ${pdfNum(w)} ${pdfNum(h)} re` : '';
+    }
+    case 'line':
+      return `${pdfNum(attr(el, 'x1'))} ${pdfNum(attr(el, 'y1'))} m\n${pdfNum(attr(el, 'x2'))} ${pdfNum(attr(el, 'y2'))} l`;
+    case 'polyline':
+    case 'polygon': {
+      const v = (el.getAttribute('points') ?? '').match(PATH_TOKEN)?.map(Number) ?? [];
+      if (v.length < 4) return '';
+      const ops = [`${pdfNum(v[0])} ${pdfNum(v[1])} m`];
+      for (let k = 2; k + 1 < v.length; k += 2) ops.push(`${pdfNum(v[k])} ${pdfNum(v[k + 1])} l`);
+      if (el.tagName.toLowerCase() === 'polygon') ops.push('h');
+      return ops.join('\n');
+    }
+    default:
+      return null;
+  }
+};
+
+// --- Paint ---
+
+// "rgb(r, g, b)" / "rgba(r, g, b, a)" → 0–1 components and alpha; null for none.
+const parseColor = (value: string): { rgb: [number, number, number]; alpha: number } | null => {
+  const m = value.match(/rgba?\(([^)]+)\)/);
+  if (!m) return null;
+  const parts = m[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+  const alpha = parts.length > 3 ? parts[3] : 1;
+  if (alpha <= 0) return null;
+  return { rgb: [parts[0] / 255, parts[1] / 255, parts[2] / 255], alpha };
+};
+
+const colorOps = ([r, g, b]: [number, number, number], op: 'rg' | 'RG') =>
+  `${pdfNum(r)} ${pdfNum(g)} ${pdfNum(b)} ${op}`;
+
+const LINE_CAPS: Record<string, number> = { butt: 0, round: 1, square: 2 };
+const LINE_JOINS: Record<string, number> = { miter: 0, round: 1, bevel: 2 };
+
+const BLEND_MODES: Record<string, PdfBlendMode> = { multiply: 'Multiply', screen: 'Screen' };
+
+// The standard font closest to a CSS font-family list.
+const pdfFontFor = (family: string, weight: string): PdfFont => {
+  const bold = weight === 'bold' || parseInt(weight, 10) >= 600;
+  const f = family.toLowerCase();
+  if (/mono|courier|consol|menlo/.test(f)) return bold ? 'Courier-Bold' : 'Courier';
+  if (/(^|[\s,"'])serif|times|georgia|garamond|playfair|cinzel/.test(f) && !/sans/.test(f)) return bold ? 'Times-Bold' : 'Times-Roman';
+  return bold ? 'Helvetica-Bold' : 'Helvetica';
+};
+
+// Fonts on this machine metric-compatible with the PDF standard fonts, for
+// measuring anchored text.
+const MEASURE_FAMILY: Record<string, string> = {
+  Helvetica: 'Helvetica, Arial, sans-serif',
+  Times: '"Times New Roman", Times, serif',
+  Courier: '"Courier New", Courier, monospace',
+};
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+const measureText = (text: string, font: PdfFont, size: number) => {
+  measureCtx ??= document.createElement('canvas').getContext('2d');
+  if (!measureCtx) return text.length * size * 0.55;
+  const [family, style] = font.split('-');
+  measureCtx.font = `${style === 'Bold' ? 'bold ' : ''}${size}px ${MEASURE_FAMILY[family]}`;
+  return measureCtx.measureText(text).width;
+};
+
+// --- Images ---
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load a card image'));
+    img.src = src;
+  });
+
+const MAX_IMAGE_SIDE = 2400; // ~600 dpi across a 10 cm card
+
+// feColorMatrix steps of an SVG filter, as 4×5 matrices.
+const filterMatrices = (filter: Element | null): number[][] => {
+  if (!filter) return [];
+  return Array.from(filter.querySelectorAll('feColorMatrix')).map(fe => {
+    const type = fe.getAttribute('type') ?? 'matrix';
+    const values = (fe.getAttribute('values') ?? '').trim().split(/[\s,]+/).map(Number);
+    if (type === 'hueRotate') {
+      const a = ((values[0] || 0) * Math.PI) / 180;
+      const c = Math.cos(a);
+      const s = Math.sin(a);
+      return [
+        0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928, 0, 0,
+        0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.14, 0.072 - c * 0.072 - s * 0.283, 0, 0,
+        0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072, 0, 0,
+        0, 0, 0, 1, 0,
+      ];
+    }
+    if (type === 'saturate') {
+      const v = values[0] ?? 1;
+      return [
+        0.213 + 0.787 * v, 0.715 - 0.715 * v, 0.072 - 0.072 * v, 0, 0,
+        0.213 - 0.213 * v, 0.715 + 0.285 * v, 0.072 - 0.072 * v, 0, 0,
+        0.213 - 0.213 * v, 0.715 - 0.715 * v, 0.072 + 0.928 * v, 0, 0,
+        0, 0, 0, 1, 0,
+      ];
+    }
+    return values.length === 20 ? values : [1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0];
+  });
+};
+
+const rasterize = (img: HTMLImageElement, matrices: number[][]): PdfImage => {
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const rgb = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+  let translucent = false;
+  for (let p = 0, q = 0; p < data.length; p += 4, q++) {
+    let px = [data[p] / 255, data[p + 1] / 255, data[p + 2] / 255, data[p + 3] / 255];
+    for (const m of matrices) {
+      px = [0, 1, 2, 3].map(row =>
+        Math.min(1, Math.max(0, m[row * 5] * px[0] + m[row * 5 + 1] * px[1] + m[row * 5 + 2] * px[2] + m[row * 5 + 3] * px[3] + m[row * 5 + 4]))
+      );
+    }
+    rgb[q * 3] = Math.round(px[0] * 255);
+    rgb[q * 3 + 1] = Math.round(px[1] * 255);
+    rgb[q * 3 + 2] = Math.round(px[2] * 255);
+    alpha[q] = Math.round(px[3] * 255);
+    if (alpha[q] < 255) translucent = true;
+  }
+  return { width, height, rgb, alpha: translucent ? alpha : undefined };
+};
+
+// Where an <image> lands in its box for a preserveAspectRatio value.
+const fitImage = (
+  box: { x: number; y: number; w: number; h: number },
+  iw: number, ih: number, preserve: string
+) => {
+  if (preserve.startsWith('none')) return box;
+  const [align = 'xMidYMid', mode = 'meet'] = preserve.split(/\s+/);
+  const s = mode === 'slice' ? Math.max(box.w / iw, box.h / ih) : Math.min(box.w / iw, box.h / ih);
+  const w = iw * s;
+  const h = ih * s;
+  const ax = align.includes('xMin') ? 0 : align.includes('xMax') ? 1 : 0.5;
+  const ay = align.includes('YMin') ? 0 : align.includes('YMax') ? 1 : 0.5;
+  return { x: box.x + (box.w - w) * ax, y: box.y + (box.h - h) * ay, w, h };
+};
+
+// --- Walk ---
+
+const SKIPPED = new Set(['defs', 'clippath', 'filter', 'title', 'desc', 'mask', 'style', 'metadata', 'lineargradient', 'radialgradient', 'pattern', 'symbol']);
+
+const urlRef = (value: string | null) => value?.match(/url\(\s*["']?#([^"')]+)["']?\s*\)/)?.[1] ?? null;
+
+// PDF content drawing `svg` into `box` (PDF points, origin bottom-left) the
+// way the browser lays out its viewBox (xMidYMid meet).
+export const svgToPdf = async (
+  svg: SVGSVGElement,
+  pdf: PdfWriter,
+  box: { x: number; y: number; w: number; h: number }
+): Promise<string> => {
+  const vb = svg.viewBox.baseVal;
+  const vbW = vb?.width || box.w;
+  const vbH = vb?.height || box.h;
+  const s = Math.min(box.w / vbW, box.h / vbH);
+  const offX = box.x + (box.w - vbW * s) / 2;
+  const offTop = box.y + box.h - (box.h - vbH * s) / 2;
+  const out: string[] = [
+    'q',
+    // Flip to SVG's y-down user space.
+    `${pdfNum(s)} 0 0 ${pdfNum(-s)} ${pdfNum(offX - (vb?.x ?? 0) * s)} ${pdfNum(offTop + (vb?.y ?? 0) * s)} cm`,
+    // Like the browser, clip to the viewBox.
+    `${pdfNum(vb?.x ?? 0)} ${pdfNum(vb?.y ?? 0)} ${pdfNum(vbW)} ${pdfNum(vbH)} re W n`,
+  ];
+
+  const byId = (id: string) => svg.querySelector(`[id="${CSS.escape(id)}"]`);
+
+  const clip = (el: Element) => {
+    const clipEl = byId(urlRef(el.getAttribute('clip-path')) ?? '');
+    if (!clipEl) return;
+    const paths = Array.from(clipEl.children).map(shapeToPdf).filter(Boolean);
+    if (paths.length) out.push(...(paths as string[]), 'W n');
+  };
+
+  const paintShape = (el: Element, geometry: string, style: CSSStyleDeclaration, opacity: number) => {
+    const isLine = el.tagName.toLowerCase() === 'line' || el.tagName.toLowerCase() === 'polyline';
+    const fill = isLine ? null : parseColor(style.fill);
+    const strokeWidth = parseFloat(style.strokeWidth) || 0;
+    const stroke = strokeWidth > 0 ? parseColor(style.stroke) : null;
+    if (!fill && !stroke) return;
+    const fillAlpha = fill ? fill.alpha * (parseFloat(style.fillOpacity) || 0) * opacity : 1;
+    const strokeAlpha = stroke ? stroke.alpha * (parseFloat(style.strokeOpacity) || 0) * opacity : 1;
+    if ((fill ? fillAlpha : 0) <= 0 && (stroke ? strokeAlpha : 0) <= 0) return;
+
+    if (fillAlpha < 1 || strokeAlpha < 1) out.push(`${pdf.graphicsState(fillAlpha, strokeAlpha)} gs`);
+    if (fill) out.push(colorOps(fill.rgb, 'rg'));
+    if (stroke) {
+      out.push(
+        colorOps(stroke.rgb, 'RG'),
+        `${pdfNum(strokeWidth)} w`,
+        `${LINE_CAPS[style.strokeLinecap] ?? 0} J`,
+        `${LINE_JOINS[style.strokeLinejoin] ?? 0} j`
+      );
+      const dashes = style.strokeDasharray && style.strokeDasharray !== 'none'
+        ? style.strokeDasharray.split(/[\s,]+/).map(parseFloat).filter(v => !isNaN(v))
+        : [];
+      if (dashes.length) out.push(`[${dashes.map(pdfNum).join(' ')}] ${pdfNum(parseFloat(style.strokeDashoffset) || 0)} d`);
+    }
+    const evenOdd = style.fillRule === 'evenodd';
+    const op = fill && stroke ? (evenOdd ? 'B*' : 'B') : fill ? (evenOdd ? 'f*' : 'f') : 'S';
+    out.push(geometry, op);
+  };
+
+  const drawText = (el: SVGTextElement, style: CSSStyleDeclaration, opacity: number) => {
+    const text = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+    const fill = parseColor(style.fill);
+    if (!text || !fill) return;
+    const alpha = fill.alpha * (parseFloat(style.fillOpacity) || 0) * opacity;
+    if (alpha <= 0) return;
+    const size = parseFloat(style.fontSize) || 16;
+    const font = pdfFontFor(style.fontFamily, style.fontWeight);
+    const spacing = parseFloat(style.letterSpacing) || 0;
+    const width = measureText(text, font, size) + spacing * text.length;
+    const anchor = style.textAnchor;
+    const x = attr(el, 'x') - (anchor === 'middle' ? width / 2 : anchor === 'end' ? width : 0);
+    // Baselines relative to the em box: 'middle' centres on x-height/2,
+    // 'central' and the hanging forms approximate with cap height.
+    const baseline = style.dominantBaseline;
+    const y = attr(el, 'y') + size * (
+      baseline === 'middle' ? 0.26
+        : baseline === 'central' ? 0.35
+          : baseline === 'hanging' || baseline === 'text-before-edge' ? 0.75
+            : 0
+    );
+    if (alpha < 1) out.push(`${pdf.graphicsState(alpha, alpha)} gs`);
+    out.push(
+      colorOps(fill.rgb, 'rg'),
+      'BT',
+      `${pdf.font(font)} ${pdfNum(size)} Tf`,
+      spacing ? `${pdfNum(spacing)} Tc` : '',
+      // Un-flip so glyphs stand upright in the y-down space.
+      `1 0 0 -1 ${pdfNum(x)} ${pdfNum(y)} Tm`,
+      `${pdfString(text)} Tj`,
+      'ET'
+    );
+  };
+
+  const drawImage = async (el: SVGImageElement, style: CSSStyleDeclaration, opacity: number) => {
+    const src = el.getAttribute('href') ?? el.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+    if (!src) return;
+    const filterId = urlRef(el.getAttribute('filter'));
+    const key = `${filterId ?? ''}|${src}`;
+    const img = await loadImage(src);
+    const name = pdf.image(key, () => rasterize(img, filterMatrices(filterId ? byId(filterId) : null)));
+    const rect = fitImage(
+      { x: attr(el, 'x'), y: attr(el, 'y'), w: attr(el, 'width'), h: attr(el, 'height') },
+      img.naturalWidth, img.naturalHeight,
+      el.getAttribute('preserveAspectRatio') ?? 'xMidYMid meet'
+    );
+    const blend = BLEND_MODES[style.mixBlendMode] ?? 'Normal';
+    if (opacity < 1 || blend !== 'Normal') out.push(`${pdf.graphicsState(opacity, opacity, blend)} gs`);
+    // Image space is a unit square with its first row at the top.
+    out.push(`${pdfNum(rect.w)} 0 0 ${pdfNum(-rect.h)} ${pdfNum(rect.x)} ${pdfNum(rect.y + rect.h)} cm`, `${name} Do`);
+  };
+
+  const walk = async (el: Element, parentOpacity: number) => {
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED.has(tag)) return;
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return;
+    const opacity = parentOpacity * (parseFloat(style.opacity) || 0);
+    if (opacity <= 0) return;
+
+    out.push('q');
+    const transform = (el as SVGGraphicsElement).transform?.baseVal?.consolidate();
+    if (transform) {
+      const m = transform.matrix;
+      out.push(`${[m.a, m.b, m.c, m.d, m.e, m.f].map(pdfNum).join(' ')} cm`);
+    }
+    if (el.hasAttribute('clip-path')) clip(el);
+
+    if (tag === 'g' || tag === 'svg' || tag === 'a') {
+      for (const child of Array.from(el.children)) await walk(child, opacity);
+    } else if (tag === 'text') {
+      drawText(el as SVGTextElement, style, opacity);
+    } else if (tag === 'image') {
+      await drawImage(el as SVGImageElement, style, opacity);
+    } else {
+      const geometry = shapeToPdf(el);
+      if (geometry) paintShape(el, geometry, style, opacity);
+    }
+    out.push('Q');
+  };
+
+  for (const child of Array.from(svg.children)) await walk(child, 1);
+  out.push('Q');
+  return out.filter(Boolean).join('\n');
+};
@@ -0,0 +1,112 @@
+// Several tabs on the same deck. Each tab announces every deck it writes on a
+// BroadcastChannel; a tab showing that deck adopts the change if it has no
+// unsaved edits of its own, three-way merges it card by card if it has, and
+// asks the user only when both tabs changed the same thing. Without this the
+// tab that wrote last silently overwrote the other's edits.
+//
+// Every save bumps the stored deck's revision and only lands if the deck is
+// still at the revision the tab last saw (see saveDeck), so two tabs saving at
+// once cannot swap decks: the second write is refused, that tab merges the
+// first one's save into its edits and writes the result on top.
+
+import { DeckSound, Sequence, Transition } from '../types';
+
+export const TAB_SYNC_CHANNEL = 'qrp-deck-sync';
+
+// The synced part of a deck: what the deck store persists.
+export interface DeckContent {
+  name: string;
+  sequences: Sequence[];
+  timingMs: number;
+  transition: Transition;
+  sound: DeckSound;
+}
+
+export type TabSyncMessage =
+  | { type: 'saved'; deckId: string; deck: DeckContent; revision: number }
+  | { type: 'deleted'; deckId: string }
+  | { type: 'renamed' };              // another deck's name changed: refresh the list
+
+// Waiting for the user: both tabs changed the same thing, or the open deck
+// was deleted in another tab.
+export type SyncConflict =
+  | { kind: 'edited'; deck: DeckContent; conflicts: string[] }
+  | { kind: 'deleted' };
+
+export const isTabSyncSupported = () => typeof BroadcastChannel !== 'undefined';
+
+// "Nothing changed since": edits replace what they change, so a deck nobody
+// touched still holds the very objects it was saved or received with. Cheap
+// enough for every keystroke, unlike comparing the cards (and their images).
+export const isUnchanged = (a: DeckContent, b: DeckContent) =>
+  a.name === b.name && a.sequences === b.sequences && a.timingMs === b.timingMs &&
+  a.transition === b.transition && a.sound === b.sound;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export interface MergeResult {
+  deck: DeckContent | null; // null when there are conflicts
+  conflicts: string[];      // what both tabs changed, for the prompt
+}
+
+// `base` is the deck both tabs last agreed on, `mine` this tab's unsaved
+// state, `theirs` what the other tab just saved. A field or card changed on
+// one side only takes that side; changed identically on both is fine;
+// changed differently on both is a conflict. Cards are matched by id; a card
+// both tabs added under the same id keeps theirs and re-numbers mine.
+export const mergeDeckContent = (base: DeckContent, mine: DeckContent, theirs: DeckContent): MergeResult => {
+  const conflicts: string[] = [];
+  const pick = <T,>(label: string, b: T, m: T, t: T): T => {
+    if (same(m, b) || same(m, t)) return t;
+    if (same(t, b)) return m;
+    conflicts.push(label);
+    return m;
+  };
+
+  const name = pick('deck name', base.name, mine.name, theirs.name);
+  const timingMs = pick('timing', base.timingMs, mine.timingMs, theirs.timingMs);
+  const transition = pick('transition', base.transition, mine.transition, theirs.transition);
+  const sound = pick('sound', base.sound, mine.sound, theirs.sound);
+
+  const byId = (cards: Sequence[]) => new Map(cards.map(c => [c.id, c]));
+  const baseCards = byId(base.sequences);
+  const myCards = byId(mine.sequences);
+  const theirCards = byId(theirs.sequences);
+  const ids = (cards: Sequence[]) => cards.map(c => c.id).join(',');
+
+  // Order: whichever side reordered; if both changed the list, theirs plus
+  // the cards only I have. Every card either side still has is visited, so
+  // deletions are checked against edits on the other side.
+  const mineFirst = ids(mine.sequences) !== ids(base.sequences) && ids(theirs.sequences) === ids(base.sequences);
+  const [first, second] = mineFirst ? [mine, theirs] : [theirs, mine];
+  const order = [...new Set([...first.sequences, ...second.sequences].map(c => c.id))];
+
+  const merged: Sequence[] = [];
+  const renumber: Sequence[] = [];
+  for (const id of order) {
+    const b = baseCards.get(id);
+    const m = myCards.get(id);
+    const t = theirCards.get(id);
+    const label = `card "${(m ?? t ?? b)!.name}"`;
+    if (!b) {
+      // Added since the last sync, on one side or (same id) on both.
+      if (t) merged.push(t);
+      if (m && (!t || !same(m, t))) (t ? renumber : merged).push(m);
+      continue;
+    }
+    if (!m || !t) {
+      // Deleted on one side: fine unless the other side edited it.
+      const kept = (m ?? t)!;
+      if (same(kept, b)) continue;
+      conflicts.push(`${label} (deleted in one tab, edited in the other)`);
+      merged.push(kept);
+      continue;
+    }
+    merged.push(pick(label, b, m, t));
+  }
+
+  if (conflicts.length > 0) return { deck: null, conflicts };
+  let nextId = Math.max(0, ...merged.map(c => c.id)) + 1;
+  const sequences = [...merged, ...renumber.map(c => ({ ...c, id: nextId++ }))];
+  return { deck: { name, sequences, timingMs, transition, sound }, conflicts };
+};
@@ -0,0 +1,9 @@
+import { Sequence } from '../types';
+
+// How long a card is on screen: its own duration, else the deck-wide timing.
+export const cardDurationMs = (seq: Pick<Sequence, 'durationMs'>, timingMs: number): number =>
+  seq.durationMs ?? timingMs;
+
+// Total running time of one pass through the deck.
+export const deckDurationMs = (sequences: Sequence[], timingMs: number): number =>
+  sequences.reduce((sum, s) => sum + cardDurationMs(s, timingMs), 0);
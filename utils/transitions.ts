@@ -0,0 +1,156 @@
+// Card-to-card transitions, shared by live playback (CSS on stacked layers)
+// and video export (compositing two rendered frames on a canvas), so an
+// exported MP4 moves between cards the same way the player does.
+
+import type { CSSProperties } from 'react';
+import { GeoConfig, Sequence, Transition, TransitionType } from '../types';
+import { INTEGER_GEO_FIELDS } from '../constants';
+
+export const DEFAULT_TRANSITION: Transition = { type: 'none', durationMs: 600 };
+
+export const MIN_TRANSITION_MS = 100;
+export const MAX_TRANSITION_MS = 3000;
+
+export const TRANSITION_OPTIONS: { type: TransitionType; label: string }[] = [
+  { type: 'none', label: 'Cut' },
+  { type: 'crossfade', label: 'Crossfade' },
+  { type: 'wipe', label: 'Radial Wipe' },
+  { type: 'zoom', label: 'Zoom' },
+  { type: 'morph', label: 'Morph' },
+];
+
+const TRANSITION_TYPES = new Set<string>(TRANSITION_OPTIONS.map(o => o.type));
+
+// Accept a transition from a saved file / link, falling back to the default
+// for anything unrecognised.
+export const normalizeTransition = (value: unknown): Transition => {
+  const t = value as Partial<Transition> | null | undefined;
+  if (!t || typeof t.type !== 'string' || !TRANSITION_TYPES.has(t.type)) return DEFAULT_TRANSITION;
+  const ms = typeof t.durationMs === 'number' && isFinite(t.durationMs) ? t.durationMs : DEFAULT_TRANSITION.durationMs;
+  return {
+    type: t.type as TransitionType,
+    durationMs: Math.min(MAX_TRANSITION_MS, Math.max(MIN_TRANSITION_MS, Math.round(ms))),
+  };
+};
+
+export const transitionLabel = (type: TransitionType) =>
+  TRANSITION_OPTIONS.find(o => o.type === type)?.label ?? type;
+
+export const easeInOut = (t: number) =>
+  t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+// Image cards have no geometry to tween; a morph to or from one crossfades.
+export const canMorph = (a: Pick<Sequence, 'imageSrc'>, b: Pick<Sequence, 'imageSrc'>) =>
+  !a.imageSrc && !b.imageSrc;
+
+// Geometry part-way between two cards. Numeric fields interpolate; switches,
+// designs and the step count flip at the midpoint (the step count always
+// follows the incoming card, whose steps are the ones drawn).
+export const tweenGeoConfig = (from: GeoConfig, to: GeoConfig, t: number): GeoConfig => {
+  const out = { ...to } as Record<keyof GeoConfig, unknown>;
+  (Object.keys(to) as (keyof GeoConfig)[]).forEach((key) => {
+    if (key === 'sequenceLength') return;
+    const a = from[key];
+    const b = to[key];
+    if (typeof a === 'number' && typeof b === 'number') {
+      const v = a + (b - a) * t;
+      out[key] = INTEGER_GEO_FIELDS.has(key) ? Math.round(v) : v;
+    } else if (t < 0.5 && a !== undefined) {
+      out[key] = a;
+    }
+  });
+  return out as unknown as GeoConfig;
+};
+
+// Width of the soft edge on a radial wipe, as a share of the gradient ray.
+const WIPE_FEATHER = 4;
+
+// Styles for the outgoing (under) and incoming (over) layers at eased
+// progress `t`. Morph isn't layered (it tweens one card), so it isn't handled.
+export const transitionLayerStyles = (
+  type: Exclude<TransitionType, 'none' | 'morph'>,
+  t: number
+): { outgoing: CSSProperties; incoming: CSSProperties } => {
+  switch (type) {
+    case 'crossfade':
+      return { outgoing: { opacity: 1 - t }, incoming: { opacity: t } };
+    case 'wipe': {
+      const r = t * (100 + WIPE_FEATHER);
+      const reveal = `radial-gradient(circle farthest-corner at 50% 50%, #000 ${r - WIPE_FEATHER}%, transparent ${r}%)`;
+      const hide = `radial-gradient(circle farthest-corner at 50% 50%, transparent ${r - WIPE_FEATHER}%, #000 ${r}%)`;
+      return {
+        outgoing: { maskImage: hide, WebkitMaskImage: hide },
+        incoming: { maskImage: reveal, WebkitMaskImage: reveal },
+      };
+    }
+    case 'zoom':
+      return {
+        outgoing: { opacity: 1 - t, transform: `scale(${1 + 0.25 * t})` },
+        incoming: { opacity: t, transform: `scale(${0.8 + 0.2 * t})` },
+      };
+  }
+};
+
+// Scratch canvas for the wipe's feathered edge, reused across frames.
+let wipeLayer: HTMLCanvasElement | null = null;
+
+// Canvas counterpart of transitionLayerStyles for video export. Both frames
+// are full, opaque renders (background included) of the same size as `ctx`.
+export const drawTransition = (
+  ctx: CanvasRenderingContext2D,
+  type: Exclude<TransitionType, 'none' | 'morph'>,
+  t: number,
+  outgoing: CanvasImageSource,
+  incoming: CanvasImageSource
+) => {
+  const { width: w, height: h } = ctx.canvas;
+  const drawScaled = (img: CanvasImageSource, scale: number, alpha: number) => {
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.translate(w / 2, h / 2);
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, -w / 2, -h / 2, w, h);
+    ctx.restore();
+  };
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  switch (type) {
+    case 'crossfade':
+      drawScaled(outgoing, 1, 1);
+      drawScaled(incoming, 1, t);
+      break;
+    case 'wipe': {
+      drawScaled(outgoing, 1, 1);
+      // Same soft edge as the live mask: the incoming frame is cut out on a
+      // layer of its own with a radial gradient, then laid over.
+      const ray = Math.hypot(w, h) / 2; // farthest corner
+      const r = t * (100 + WIPE_FEATHER);
+      const outer = (r / 100) * ray;
+      if (outer <= 0) break;
+      wipeLayer ??= document.createElement('canvas');
+      wipeLayer.width = w;
+      wipeLayer.height = h;
+      const layer = wipeLayer.getContext('2d');
+      if (!layer) break;
+      layer.drawImage(incoming, 0, 0, w, h);
+      const mask = layer.createRadialGradient(w / 2, h / 2, 0, w / 2, h / 2, outer);
+      // Early on the soft edge still spans the centre, which is then only
+      // partly revealed (the CSS stop sits below 0%).
+      if (r < WIPE_FEATHER) mask.addColorStop(0, `rgba(0, 0, 0, ${r / WIPE_FEATHER})`);
+      else mask.addColorStop((r - WIPE_FEATHER) / r, '#000');
+      mask.addColorStop(1, 'transparent');
+      layer.globalCompositeOperation = 'destination-in';
+      layer.fillStyle = mask;
+      layer.fillRect(0, 0, w, h);
+      ctx.drawImage(wipeLayer, 0, 0);
+      break;
+    }
+    case 'zoom':
+      drawScaled(outgoing, 1 + 0.25 * t, 1);
+      drawScaled(incoming, 0.8 + 0.2 * t, t);
+      break;
+  }
+  ctx.restore();
+};
@@ -0,0 +1,147 @@
+// Video export settings: file format, output size, frame rate, encoder
+// quality, codec and the rotation of the geometry while it plays. Remembered
+// between exports.
+
+import type { VideoCodec } from 'mediabunny';
+
+export type VideoFormat = 'mp4' | 'webm' | 'gif' | 'apng';
+export type VideoQuality = 'low' | 'medium' | 'high' | 'very-high';
+export type CardFraming = 'card' | 'fill';
+
+export interface VideoExportSettings {
+  format: VideoFormat;
+  width: number;
+  height: number;
+  fps: number;
+  quality: VideoQuality | 'bitrate'; // 'bitrate' uses bitrateMbps instead
+  bitrateMbps: number;
+  codec: VideoCodec | 'auto';
+  framing: CardFraming;
+  secondsPerTurn: number; // 0 stops the rotation
+  clockwise: boolean;
+}
+
+export const DEFAULT_VIDEO_SETTINGS: VideoExportSettings = {
+  format: 'mp4',
+  width: 1000,
+  height: 1000,
+  fps: 30,
+  quality: 'bitrate',
+  bitrateMbps: 8,
+  codec: 'auto',
+  framing: 'card',
+  secondsPerTurn: 24,
+  clockwise: false,
+};
+
+// 'auto' picks the first of these the browser can encode.
+export const VIDEO_CODEC_ORDER: VideoCodec[] = ['avc', 'hevc', 'vp9', 'av1', 'vp8'];
+
+// GIF and APNG are written frame by frame in TypeScript (no codecs); MP4 and
+// WebM go through WebCodecs via mediabunny.
+export const VIDEO_FORMATS: Record<VideoFormat, {
+  label: string;
+  extension: string;
+  mimeType: string;
+  codecs: VideoCodec[]; // encodable in this container, in 'auto' order; empty for GIF/APNG
+}> = {
+  mp4: { label: 'MP4', extension: 'mp4', mimeType: 'video/mp4', codecs: VIDEO_CODEC_ORDER },
+  webm: { label: 'WebM', extension: 'webm', mimeType: 'video/webm', codecs: ['vp9', 'av1', 'vp8'] },
+  gif: { label: 'GIF', extension: 'gif', mimeType: 'image/gif', codecs: [] },
+  apng: { label: 'APNG', extension: 'png', mimeType: 'image/apng', codecs: [] },
+};
+
+export const isAnimatedImage = (format: VideoFormat) => VIDEO_FORMATS[format].codecs.length === 0;
+
+export const VIDEO_CODEC_LABELS: Record<VideoCodec, string> = {
+  avc: 'H.264',
+  hevc: 'H.265 / HEVC',
+  vp9: 'VP9',
+  av1: 'AV1',
+  vp8: 'VP8',
+};
+
+export const ASPECT_RATIOS: { label: string; w: number; h: number }[] = [
+  { label: '1:1 Square', w: 1, h: 1 },
+  { label: '9:16 Vertical', w: 9, h: 16 },
+  { label: '4:5 Portrait', w: 4, h: 5 },
+  { label: '16:9 Landscape', w: 16, h: 9 },
+];
+
+// Length of the short side; the aspect ratio sets the long one.
+export const RESOLUTIONS: { label: string; shortSide: number }[] = [
+  { label: '720p', shortSide: 720 },
+  { label: '1000 px', shortSide: 1000 },
+  { label: '1080p', shortSide: 1080 },
+  { label: '1440p', shortSide: 1440 },
+  { label: '4K', shortSide: 2160 },
+];
+
+export const FRAME_RATES = [24, 25, 30, 50, 60];
+
+export const QUALITY_OPTIONS: { quality: VideoExportSettings['quality']; label: string }[] = [
+  { quality: 'low', label: 'Low' },
+  { quality: 'medium', label: 'Medium' },
+  { quality: 'high', label: 'High' },
+  { quality: 'very-high', label: 'Very High' },
+  { quality: 'bitrate', label: 'Fixed bitrate' },
+];
+
+export const MIN_VIDEO_SIDE = 240;
+export const MAX_VIDEO_SIDE = 4096;
+export const MIN_BITRATE_MBPS = 1;
+export const MAX_BITRATE_MBPS = 80;
+
+// Encoders need even dimensions.
+export const clampVideoSide = (px: number) =>
+  Math.round(Math.min(MAX_VIDEO_SIDE, Math.max(MIN_VIDEO_SIDE, px)) / 2) * 2;
+
+export const sizeFor = (aspect: { w: number; h: number }, shortSide: number) =>
+  aspect.w >= aspect.h
+    ? { width: clampVideoSide((shortSide * aspect.w) / aspect.h), height: clampVideoSide(shortSide) }
+    : { width: clampVideoSide(shortSide), height: clampVideoSide((shortSide * aspect.h) / aspect.w) };
+
+// Settings read back from storage, with anything missing or out of range
+// replaced by its default.
+export const normalizeVideoSettings = (value: unknown): VideoExportSettings => {
+  const v = { ...DEFAULT_VIDEO_SETTINGS, ...(value && typeof value === 'object' ? value : {}) } as VideoExportSettings;
+  const num = (n: unknown, fallback: number) => (typeof n === 'number' && isFinite(n) ? n : fallback);
+  return {
+    format: (Object.keys(VIDEO_FORMATS) as VideoFormat[]).includes(v.format) ? v.format : DEFAULT_VIDEO_SETTINGS.format,
+    width: clampVideoSide(num(v.width, DEFAULT_VIDEO_SETTINGS.width)),
+    height: clampVideoSide(num(v.height, DEFAULT_VIDEO_SETTINGS.height)),
+    fps: FRAME_RATES.includes(v.fps) ? v.fps : DEFAULT_VIDEO_SETTINGS.fps,
+    quality: QUALITY_OPTIONS.some(o => o.quality === v.quality) ? v.quality : DEFAULT_VIDEO_SETTINGS.quality,
+    bitrateMbps: Math.min(MAX_BITRATE_MBPS, Math.max(MIN_BITRATE_MBPS, num(v.bitrateMbps, DEFAULT_VIDEO_SETTINGS.bitrateMbps))),
+    codec: v.codec === 'auto' || VIDEO_CODEC_ORDER.includes(v.codec) ? v.codec : 'auto',
+    framing: v.framing === 'fill' ? 'fill' : 'card',
+    secondsPerTurn: Math.max(0, num(v.secondsPerTurn, DEFAULT_VIDEO_SETTINGS.secondsPerTurn)),
+    clockwise: v.clockwise === true,
+  };
+};
+
+// Card viewBox (QRPGenerator): 400×700 starting at y = -150, geometry centred
+// on (200, 200) — the middle of the card — inside a square of about 400.
+const CARD_W = 400;
+const CARD_H = 700;
+const GEOMETRY_SIZE = 400;
+
+// Where to draw the whole 400×700 card in a frame. 'card' fits it inside;
+// 'fill' enlarges it until the geometry reaches the short edge of the frame,
+// cropping the header and margins rather than leaving bars on wide or
+// square frames. The card may overflow the frame in 'fill'.
+export const cardRect = (frameW: number, frameH: number, framing: CardFraming) => {
+  const fit = Math.min(frameW / CARD_W, frameH / CARD_H);
+  const scale = framing === 'fill'
+    ? Math.max(fit, Math.min(frameW / GEOMETRY_SIZE, frameH / GEOMETRY_SIZE, Math.max(frameW / CARD_W, frameH / CARD_H)))
+    : fit;
+  const w = CARD_W * scale;
+  const h = CARD_H * scale;
+  return { x: (frameW - w) / 2, y: (frameH - h) / 2, w, h };
+};
+
+// Degrees the geometry turns per frame (negative is anti-clockwise).
+export const rotationPerFrame = (settings: Pick<VideoExportSettings, 'secondsPerTurn' | 'clockwise' | 'fps'>) =>
+  settings.secondsPerTurn > 0
+    ? (360 / (settings.secondsPerTurn * settings.fps)) * (settings.clockwise ? 1 : -1)
+    : 0;
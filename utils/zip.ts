@@ -0,0 +1,98 @@
+// Minimal ZIP writer for batch exports. Already-compressed files (PNG) are
+// stored as-is; text is deflated with CompressionStream when the browser has
+// it. Names are UTF-8 (general-purpose flag bit 11). No ZIP64: fine for decks.
+
+import { crc32 } from './png';
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  method: number; // 0 stored, 8 deflated
+  size: number;
+  data: Uint8Array;
+  offset: number;
+}
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// MS-DOS time and date fields.
+const dosDateTime = (d: Date) => ({
+  time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+  date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+});
+
+export const createZipWriter = () => {
+  const entries: ZipEntry[] = [];
+  const { time, date } = dosDateTime(new Date());
+  let offset = 0;
+
+  const add = async (name: string, content: Uint8Array | Blob | string, compress = typeof content === 'string') => {
+    const raw = typeof content === 'string'
+      ? new TextEncoder().encode(content)
+      : content instanceof Blob ? new Uint8Array(await content.arrayBuffer()) : content;
+    const packed = compress ? await deflateRaw(raw) : null;
+    const data = packed && packed.length < raw.length ? packed : raw;
+    const entry: ZipEntry = {
+      name: new TextEncoder().encode(name),
+      crc: crc32(raw),
+      method: data === raw ? 0 : 8,
+      size: raw.length,
+      data,
+      offset,
+    };
+    entries.push(entry);
+    offset += 30 + entry.name.length + data.length;
+  };
+
+  // Fields shared by the local header (from offset 4) and the central record (from 6).
+  const commonFields = (view: DataView, at: number, e: ZipEntry) => {
+    view.setUint16(at, 20, true);            // version needed: 2.0
+    view.setUint16(at + 2, 0x0800, true);    // UTF-8 names
+    view.setUint16(at + 4, e.method, true);
+    view.setUint16(at + 6, time, true);
+    view.setUint16(at + 8, date, true);
+    view.setUint32(at + 10, e.crc, true);
+    view.setUint32(at + 14, e.data.length, true);
+    view.setUint32(at + 18, e.size, true);
+    view.setUint16(at + 22, e.name.length, true);
+  };
+
+  const finish = (): Blob => {
+    const parts: Uint8Array[] = [];
+    entries.forEach(e => {
+      const header = new Uint8Array(30);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x04034b50, true);
+      commonFields(view, 4, e);
+      parts.push(header, e.name, e.data);
+    });
+
+    let centralSize = 0;
+    entries.forEach(e => {
+      const record = new Uint8Array(46);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);           // version made by
+      commonFields(view, 6, e);
+      view.setUint32(42, e.offset, true);    // extra, comment, disk and attributes stay 0
+      parts.push(record, e.name);
+      centralSize += record.length + e.name.length;
+    });
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+    parts.push(end);
+    return new Blob(parts, { type: 'application/zip' });
+  };
+
+  return { add, finish, fileCount: () => entries.length };
+};